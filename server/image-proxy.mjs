@@ -0,0 +1,339 @@
+import { createHash } from 'node:crypto';
+import { lookup } from 'node:dns';
+import { mkdir, readdir, readFile, rename, stat, unlink, writeFile } from 'node:fs/promises';
+import http from 'node:http';
+import https from 'node:https';
+import { isIP } from 'node:net';
+import path from 'node:path';
+
+const MAX_IMAGE_BYTES = 15 * 1024 * 1024;
+const FETCH_TIMEOUT_MS = 15000;
+const MAX_REDIRECTS = 5;
+const CACHE_MAX_AGE = 60 * 60 * 24 * 7;
+const MAX_CACHE_BYTES = 500 * 1024 * 1024;
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Methods': 'GET, HEAD, OPTIONS',
+  'Cross-Origin-Resource-Policy': 'cross-origin',
+};
+
+// Images are served from the app's own origin, so the browser must never treat one as a document.
+const imageHeaders = {
+  'Content-Security-Policy': "default-src 'none'; sandbox",
+  'X-Content-Type-Options': 'nosniff',
+};
+
+class ProxyError extends Error {
+  constructor(status, message) {
+    super(message);
+    this.status = status;
+  }
+}
+
+// Private, shared, loopback, link-local, benchmarking, documentation, multicast and reserved ranges.
+const isPrivateIPv4 = (address) => {
+  const [a, b, c] = address.split('.').map(Number);
+  return (
+    a === 0 ||
+    a === 10 ||
+    a === 127 ||
+    a >= 224 ||
+    (a === 100 && b >= 64 && b <= 127) ||
+    (a === 169 && b === 254) ||
+    (a === 172 && b >= 16 && b <= 31) ||
+    (a === 192 && b === 0 && (c === 0 || c === 2)) ||
+    (a === 192 && b === 88 && c === 99) ||
+    (a === 192 && b === 168) ||
+    (a === 198 && (b === 18 || b === 19)) ||
+    (a === 198 && b === 51 && c === 100) ||
+    (a === 203 && b === 0 && c === 113)
+  );
+};
+
+// IPv4-mapped addresses (::ffff:127.0.0.1, or ::ffff:7f00:1 once normalized) reach the IPv4 host.
+const mappedIPv4 = (address) => {
+  const dotted = /^::ffff:(\d+\.\d+\.\d+\.\d+)$/.exec(address);
+  if (dotted) {
+    return dotted[1];
+  }
+  const hex = /^::ffff:([0-9a-f]{1,4}):([0-9a-f]{1,4})$/.exec(address);
+  if (!hex) {
+    return null;
+  }
+  const [high, low] = [parseInt(hex[1], 16), parseInt(hex[2], 16)];
+  return [high >> 8, high & 255, low >> 8, low & 255].join('.');
+};
+
+// Loopback, private, link-local and other addresses that never belong to a public image host.
+const isPrivateAddress = (value) => {
+  const address = value.replace(/^\[|\]$/g, '').toLowerCase();
+  if (isIP(address) === 4) {
+    return isPrivateIPv4(address);
+  }
+  if (isIP(address) === 6) {
+    const mapped = mappedIPv4(address);
+    if (mapped) {
+      return isPrivateIPv4(mapped);
+    }
+    return ['::', '::1'].includes(address) || /^(fc|fd|fe[89ab]|ff)/.test(address);
+  }
+  return false;
+};
+
+const privateHostError = () => new ProxyError(403, 'Private network hosts cannot be proxied.');
+
+// Refuses local names and private IP literals before anything is requested.
+const assertPublicHost = (hostname) => {
+  const host = hostname.replace(/^\[|\]$/g, '').toLowerCase();
+  if (host === 'localhost' || host.endsWith('.localhost') || host.endsWith('.local')) {
+    throw privateHostError();
+  }
+  if (isIP(host) && isPrivateAddress(host)) {
+    throw privateHostError();
+  }
+};
+
+// Resolves names for the outgoing socket and refuses them if any address is private. The socket connects
+// to the addresses checked here, so a second DNS answer cannot swap in an internal one.
+const publicLookup = (hostname, options, callback) => {
+  lookup(hostname, { ...options, all: true }, (error, addresses) => {
+    if (error) {
+      callback(error);
+    } else if (addresses.length === 0 || addresses.some(({ address }) => isPrivateAddress(address))) {
+      callback(privateHostError());
+    } else if (options.all) {
+      callback(null, addresses);
+    } else {
+      callback(null, addresses[0].address, addresses[0].family);
+    }
+  });
+};
+
+const parseTarget = (value) => {
+  if (!value) {
+    throw new ProxyError(400, 'Missing url parameter.');
+  }
+  let target;
+  try {
+    target = new URL(/^https?:\/\//i.test(value) ? value : `https://${value}`);
+  } catch {
+    throw new ProxyError(400, 'Invalid url parameter.');
+  }
+  if (target.protocol !== 'http:' && target.protocol !== 'https:') {
+    throw new ProxyError(400, 'Only http and https images can be proxied.');
+  }
+  return target;
+};
+
+const readCached = async (cacheDir, key) => {
+  try {
+    const [body, meta] = await Promise.all([
+      readFile(path.join(cacheDir, key)),
+      readFile(path.join(cacheDir, `${key}.json`), 'utf8'),
+    ]);
+    const { contentType, fetchedAt } = JSON.parse(meta);
+    if (!(Date.now() - fetchedAt < CACHE_MAX_AGE * 1000) || contentType === 'image/svg+xml') {
+      return null;
+    }
+    return { body, contentType };
+  } catch {
+    return null;
+  }
+};
+
+const writeCached = async (cacheDir, key, image) => {
+  await mkdir(cacheDir, { recursive: true });
+  const temp = path.join(cacheDir, `${key}.${process.pid}.tmp`);
+  await writeFile(temp, image.body);
+  await rename(temp, path.join(cacheDir, key));
+  await writeFile(
+    path.join(cacheDir, `${key}.json`),
+    JSON.stringify({ contentType: image.contentType, fetchedAt: Date.now() })
+  );
+};
+
+// Drops expired entries, then the least recently written ones until the cache fits MAX_CACHE_BYTES.
+const pruneCache = async (cacheDir) => {
+  const names = await readdir(cacheDir);
+  const entries = (
+    await Promise.all(
+      names
+        .filter((name) => /^[0-9a-f]{64}$/.test(name))
+        .map(async (name) => {
+          const info = await stat(path.join(cacheDir, name)).catch(() => null);
+          return info ? { name, size: info.size, writtenAt: info.mtimeMs } : null;
+        })
+    )
+  )
+    .filter(Boolean)
+    .sort((a, b) => a.writtenAt - b.writtenAt);
+  let total = entries.reduce((sum, entry) => sum + entry.size, 0);
+  for (const entry of entries) {
+    const expired = Date.now() - entry.writtenAt >= CACHE_MAX_AGE * 1000;
+    if (!expired && total <= MAX_CACHE_BYTES) {
+      continue;
+    }
+    await Promise.all([
+      unlink(path.join(cacheDir, entry.name)).catch(() => {}),
+      unlink(path.join(cacheDir, `${entry.name}.json`)).catch(() => {}),
+    ]);
+    total -= entry.size;
+  }
+};
+
+const request = (url, signal) =>
+  new Promise((resolve, reject) => {
+    const client = url.protocol === 'https:' ? https : http;
+    const req = client.get(url, { lookup: publicLookup, signal, headers: { Accept: 'image/*' } }, resolve);
+    req.on('error', reject);
+  });
+
+// Reads the body as it arrives and gives up as soon as it passes the cap, whatever content-length claimed.
+const readLimited = async (response) => {
+  const chunks = [];
+  let size = 0;
+  for await (const chunk of response) {
+    size += chunk.length;
+    if (size > MAX_IMAGE_BYTES) {
+      response.destroy();
+      throw new ProxyError(413, 'The image is larger than 15 MB.');
+    }
+    chunks.push(chunk);
+  }
+  return Buffer.concat(chunks, size);
+};
+
+// Redirects are followed by hand so every hop's host is checked before anything is requested from it.
+const fetchImage = async (target) => {
+  const signal = AbortSignal.timeout(FETCH_TIMEOUT_MS);
+  let url = target;
+  let response;
+  for (let hop = 0; ; hop += 1) {
+    assertPublicHost(url.hostname);
+    try {
+      response = await request(url, signal);
+    } catch (error) {
+      throw error instanceof ProxyError ? error : new ProxyError(502, `Could not reach ${url.host}: ${error.message}`);
+    }
+    const { statusCode = 0, headers } = response;
+    if (statusCode < 300 || statusCode >= 400 || !headers.location) {
+      break;
+    }
+    response.resume();
+    if (hop >= MAX_REDIRECTS) {
+      throw new ProxyError(502, `${target.host} redirected more than ${MAX_REDIRECTS} times.`);
+    }
+    try {
+      url = parseTarget(new URL(headers.location, url).href);
+    } catch {
+      throw new ProxyError(502, `${url.host} redirected to an invalid location.`);
+    }
+  }
+  const { statusCode = 0, headers } = response;
+  const fail = (error) => {
+    response.destroy();
+    throw error;
+  };
+  if (statusCode < 200 || statusCode >= 300) {
+    fail(new ProxyError(502, `${url.host} answered ${statusCode}.`));
+  }
+  const contentType = (headers['content-type'] ?? '').split(';')[0].trim().toLowerCase();
+  if (!contentType.startsWith('image/')) {
+    fail(new ProxyError(415, `${url.host} did not return an image.`));
+  }
+  // SVG can carry script, and the proxy answers from the app's origin.
+  if (contentType === 'image/svg+xml') {
+    fail(new ProxyError(415, 'SVG images cannot be proxied.'));
+  }
+  if (Number(headers['content-length']) > MAX_IMAGE_BYTES) {
+    fail(new ProxyError(413, 'The image is larger than 15 MB.'));
+  }
+  try {
+    return { body: await readLimited(response), contentType };
+  } catch (error) {
+    throw error instanceof ProxyError ? error : new ProxyError(502, `Could not read ${url.host}: ${error.message}`);
+  }
+};
+
+// Connect-style handler for `?url=<image>` requests. Works as Vite middleware and in a plain http server.
+export const createImageProxy = ({ cacheDir }) => {
+  const pending = new Map();
+  let pruning = null;
+
+  const prune = () => {
+    pruning ??= pruneCache(cacheDir)
+      .catch((error) => console.warn(`[image-proxy] Could not prune the cache: ${error.message}`))
+      .finally(() => {
+        pruning = null;
+      });
+  };
+
+  const load = (target) => {
+    const key = createHash('sha256').update(target.href).digest('hex');
+    if (!pending.has(key)) {
+      const task = (async () => {
+        const cached = await readCached(cacheDir, key);
+        if (cached) {
+          return { ...cached, cache: 'HIT' };
+        }
+        const image = await fetchImage(target);
+        await writeCached(cacheDir, key, image).then(prune, (error) => {
+          console.warn(`[image-proxy] Could not cache ${target.href}: ${error.message}`);
+        });
+        return { ...image, cache: 'MISS' };
+      })().finally(() => pending.delete(key));
+      pending.set(key, task);
+    }
+    return pending.get(key);
+  };
+
+  return async (req, res) => {
+    if (req.method === 'OPTIONS') {
+      res.writeHead(204, corsHeaders);
+      res.end();
+      return;
+    }
+    if (req.method !== 'GET' && req.method !== 'HEAD') {
+      res.writeHead(405, { ...corsHeaders, Allow: 'GET, HEAD, OPTIONS' });
+      res.end();
+      return;
+    }
+
+    try {
+      const { searchParams } = new URL(req.url ?? '', 'http://localhost');
+      const image = await load(parseTarget(searchParams.get('url')));
+      res.writeHead(200, {
+        ...corsHeaders,
+        ...imageHeaders,
+        'Content-Type': image.contentType,
+        'Content-Length': image.body.length,
+        'Cache-Control': `public, max-age=${CACHE_MAX_AGE}`,
+        'X-Cache': image.cache,
+      });
+      res.end(req.method === 'HEAD' ? undefined : image.body);
+    } catch (error) {
+      const status = error instanceof ProxyError ? error.status : 500;
+      if (status === 500) {
+        console.error('[image-proxy]', error);
+      }
+      res.writeHead(status, { ...corsHeaders, ...imageHeaders, 'Content-Type': 'text/plain; charset=utf-8' });
+      res.end(error instanceof ProxyError ? error.message : 'Image proxy error.');
+    }
+  };
+};
+
+export const IMAGE_PROXY_PATH = '/image-proxy';
+
+// Mounts the proxy on the Vite dev and preview servers.
+export const imageProxyPlugin = ({ cacheDir }) => {
+  const handler = createImageProxy({ cacheDir });
+  const mount = (server) => {
+    server.middlewares.use(IMAGE_PROXY_PATH, handler);
+  };
+  return {
+    name: 'image-proxy',
+    configureServer: mount,
+    configurePreviewServer: mount,
+  };
+};
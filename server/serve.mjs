@@ -0,0 +1,67 @@
+import { createServer } from 'node:http';
+import { readFile, stat } from 'node:fs/promises';
+import path from 'node:path';
+import { fileURLToPath } from 'node:url';
+import { createImageProxy, IMAGE_PROXY_PATH } from './image-proxy.mjs';
+
+const root = path.resolve(fileURLToPath(new URL('..', import.meta.url)));
+const distDir = path.join(root, 'dist');
+const port = Number(process.env.PORT) || 4173;
+const cacheDir = path.resolve(process.env.IMAGE_PROXY_CACHE ?? path.join(root, '.image-cache'));
+
+const contentTypes = {
+  '.html': 'text/html; charset=utf-8',
+  '.js': 'text/javascript; charset=utf-8',
+  '.css': 'text/css; charset=utf-8',
+  '.json': 'application/json; charset=utf-8',
+  '.svg': 'image/svg+xml',
+  '.png': 'image/png',
+  '.jpg': 'image/jpeg',
+  '.jpeg': 'image/jpeg',
+  '.webp': 'image/webp',
+  '.ico': 'image/x-icon',
+  '.woff': 'font/woff',
+  '.woff2': 'font/woff2',
+};
+
+const proxy = createImageProxy({ cacheDir });
+
+const notFound = (res) => {
+  res.writeHead(404, { 'Content-Type': 'text/plain; charset=utf-8' });
+  res.end('Not found.');
+};
+
+const serveFile = async (pathname, res) => {
+  let decoded;
+  try {
+    decoded = decodeURIComponent(pathname);
+  } catch {
+    notFound(res);
+    return;
+  }
+  const requested = path.join(distDir, decoded);
+  // A prefix check would also accept siblings such as dist-other, so compare the relative path instead.
+  const relative = path.relative(distDir, requested);
+  if (relative === '..' || relative.startsWith(`..${path.sep}`) || path.isAbsolute(relative)) {
+    notFound(res);
+    return;
+  }
+  const target = (await stat(requested).catch(() => null))?.isFile() ? requested : path.join(distDir, 'index.html');
+  const body = await readFile(target);
+  res.writeHead(200, { 'Content-Type': contentTypes[path.extname(target)] ?? 'application/octet-stream' });
+  res.end(body);
+};
+
+createServer((req, res) => {
+  const { pathname } = new URL(req.url ?? '/', 'http://localhost');
+  if (pathname === IMAGE_PROXY_PATH) {
+    proxy(req, res);
+    return;
+  }
+  serveFile(pathname, res).catch((error) => {
+    res.writeHead(error.code === 'ENOENT' ? 404 : 500, { 'Content-Type': 'text/plain; charset=utf-8' });
+    res.end(error.code === 'ENOENT' ? 'Run npm run build first.' : 'Server error.');
+  });
+}).listen(port, () => {
+  console.log(`Serving ${distDir} on http://localhost:${port} (image cache: ${cacheDir})`);
+});
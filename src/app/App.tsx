@@ -1,5 +1,18 @@
+import type { CSSProperties } from 'react';
 import { ThumbnailEditor } from './components/ThumbnailEditor';
+import { Toaster } from './components/ui/sonner';
+
+const toasterStyle = {
+  '--normal-bg': 'var(--color-surface)',
+  '--normal-text': 'var(--color-text)',
+  '--normal-border': 'var(--color-border)',
+} as CSSProperties;
 
 export default function App() {
-  return <ThumbnailEditor />;
+  return (
+    <>
+      <ThumbnailEditor />
+      <Toaster theme="dark" position="bottom-right" richColors closeButton style={toasterStyle} />
+    </>
+  );
 }
@@ -0,0 +1,482 @@
+import React, { useRef, useState } from 'react';
+import { zipSync } from 'fflate';
+import { FileSpreadsheet, ImagePlus, Package, Trash2, X } from 'lucide-react';
+import { getTemplate, templates } from '../templates/registry';
+import {
+  batchFilenameTokens,
+  buildBatchRows,
+  changeBatchTemplate,
+  deriveBatchRow,
+  guessBatchMapping,
+  imageFileKey,
+  matchImageFiles,
+  type BatchRow,
+} from '../lib/batch';
+import { parseImportFile, type SkippedRow } from '../lib/price-import';
+import {
+  blobToDataUrl,
+  captureThumbnail,
+  downloadBlob,
+  type EncodeOptions,
+  resolveDisplayImage,
+  resolveImageForCapture,
+  runExportStage,
+  waitForFonts,
+} from '../lib/export';
+import { fileExtension, renderFilename, uniqueFilename } from '../lib/filename';
+import type { ImageProxy } from '../lib/image-proxy';
+import type { OutputSize } from '../lib/output-sizes';
+import type { Theme } from '../lib/theme';
+import { validateImageFile } from '../lib/image-input';
+import { useCaptureStage } from '../hooks/use-capture-stage';
+import type { ExportJobs } from '../hooks/use-export-jobs';
+import { ExportProgress } from './ExportProgress';
+import { FilenamePatternInput } from './FilenamePatternInput';
+import { ThumbnailFrame } from './ThumbnailFrame';
+import { CaptureStage } from './CaptureStage';
+
+interface BatchPanelProps {
+  encodeOptions: EncodeOptions;
+  size: OutputSize;
+  proxy: ImageProxy;
+  // The project's theme; null renders each row with its template's built-in theme.
+  theme: Theme | null;
+  filenamePattern: string;
+  onFilenamePatternChange: (pattern: string) => void;
+  // The editor's export jobs, so batches get the same progress, cancel, error toasts and report.
+  exportJobs: ExportJobs;
+  accent: string;
+  accentLight: string;
+  onClose: () => void;
+}
+
+type BatchProgress = {
+  done: number;
+  total: number;
+};
+
+const PREVIEW_WIDTH = 320;
+const maxReportedRows = 8;
+const BATCH_EXPORT_LABEL = 'Batch export';
+
+const fieldStyle: React.CSSProperties = {
+  backgroundColor: 'var(--color-surface-2)',
+  border: '1px solid var(--color-border)',
+  color: 'var(--color-text)',
+};
+
+const labelStyle: React.CSSProperties = { color: 'var(--color-text)', opacity: 0.75 };
+
+const readFileText = (file: File) =>
+  new Promise<string>((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = () => resolve(String(reader.result ?? ''));
+    reader.onerror = () => reject(reader.error);
+    reader.readAsText(file);
+  });
+
+interface BatchRowCardProps {
+  row: BatchRow;
+  size: OutputSize;
+  proxy: ImageProxy;
+  theme: Theme | null;
+  onChange: (update: (row: BatchRow) => BatchRow) => void;
+  onRemove: () => void;
+}
+
+function BatchRowCard({ row, size, proxy, theme, onChange, onRemove }: BatchRowCardProps) {
+  const [imageError, setImageError] = useState<string | null>(null);
+  const template = getTemplate(row.templateId);
+  const previewScale = PREVIEW_WIDTH / size.width;
+
+  const updateValue = (key: string, value: string) =>
+    onChange((current) => ({ ...current, values: { ...current.values, [key]: value } }));
+
+  const handleImage = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) {
+      return;
+    }
+    const problem = validateImageFile(file);
+    setImageError(problem);
+    if (problem) {
+      return;
+    }
+    const dataUrl = await blobToDataUrl(file);
+    onChange((current) => ({
+      ...current,
+      imageName: '',
+      values: { ...current.values, cardImage: dataUrl },
+      warnings: current.warnings.filter((warning) => !warning.startsWith('Add the image file')),
+    }));
+  };
+
+  return (
+    <div
+      className="rounded-lg overflow-hidden"
+      style={{ backgroundColor: 'var(--color-tile)', border: '2px solid var(--color-border)' }}
+    >
+      <div className="overflow-hidden" style={{ width: PREVIEW_WIDTH, height: size.height * previewScale }}>
+        <div style={{ transform: `scale(${previewScale})`, transformOrigin: 'top left' }}>
+          <ThumbnailFrame
+            template={template}
+            values={{ ...row.values, cardImage: resolveDisplayImage(row.values.cardImage, proxy) }}
+            trend={row.trend}
+            priceHistory={[]}
+            size={size}
+            theme={theme}
+          />
+        </div>
+      </div>
+      <div className="p-3 space-y-2">
+        <div className="flex items-center justify-between gap-2 text-xs" style={labelStyle}>
+          <span>Row {row.rowNumber}</span>
+          <div className="flex gap-2">
+            <label
+              className="p-1 rounded cursor-pointer transition-all hover:opacity-80"
+              style={fieldStyle}
+              title="Replace image"
+            >
+              <ImagePlus className="w-4 h-4" />
+              <input type="file" accept="image/*" onChange={handleImage} className="hidden" />
+            </label>
+            <button
+              type="button"
+              onClick={onRemove}
+              className="p-1 rounded transition-all hover:opacity-80"
+              style={fieldStyle}
+              aria-label={`Remove row ${row.rowNumber}`}
+              title="Remove row"
+            >
+              <Trash2 className="w-4 h-4" />
+            </button>
+          </div>
+        </div>
+        <input
+          type="text"
+          value={row.values.title}
+          onChange={(e) => {
+            // The card name feeds the {card} file name token, so it follows the edited title.
+            const title = e.target.value;
+            onChange((current) => ({ ...current, values: { ...current.values, title, cardName: title } }));
+          }}
+          className="w-full px-2 py-1 rounded text-sm"
+          style={fieldStyle}
+          aria-label="Title"
+        />
+        <div className="grid grid-cols-2 gap-2">
+          <input
+            type="text"
+            value={row.values.beforePrice}
+            onChange={(e) => updateValue('beforePrice', e.target.value)}
+            className="w-full px-2 py-1 rounded text-sm"
+            style={fieldStyle}
+            aria-label="Before price"
+          />
+          <input
+            type="text"
+            value={row.values.price}
+            onChange={(e) => updateValue('price', e.target.value)}
+            className="w-full px-2 py-1 rounded text-sm"
+            style={fieldStyle}
+            aria-label="After price"
+          />
+          <select
+            value={row.templateId}
+            onChange={(e) => onChange((current) => changeBatchTemplate(current, e.target.value))}
+            className="w-full px-2 py-1 rounded text-sm"
+            style={fieldStyle}
+            aria-label="Template"
+          >
+            {templates.map((item) => (
+              <option key={item.id} value={item.id}>
+                {item.name}
+              </option>
+            ))}
+          </select>
+          <select
+            value={row.autoTrend ? 'auto' : row.trend}
+            onChange={(e) =>
+              onChange((current) =>
+                e.target.value === 'auto'
+                  ? { ...current, autoTrend: true }
+                  : { ...current, autoTrend: false, trend: e.target.value === 'down' ? 'down' : 'up' }
+              )
+            }
+            className="w-full px-2 py-1 rounded text-sm"
+            style={fieldStyle}
+            aria-label="Trend"
+          >
+            <option value="auto">Auto trend</option>
+            <option value="up">Price up</option>
+            <option value="down">Price down</option>
+          </select>
+        </div>
+        {imageError ? (
+          <p className="text-xs" style={{ color: 'var(--color-warning)' }}>
+            {imageError}
+          </p>
+        ) : null}
+        {row.warnings.map((warning) => (
+          <p key={warning} className="text-xs" style={{ color: 'var(--color-warning)' }}>
+            {warning}
+          </p>
+        ))}
+      </div>
+    </div>
+  );
+}
+
+export function BatchPanel({
+  encodeOptions,
+  size,
+  proxy,
+  theme,
+  filenamePattern,
+  onFilenamePatternChange,
+  exportJobs,
+  accent,
+  accentLight,
+  onClose,
+}: BatchPanelProps) {
+  const [rows, setRows] = useState<BatchRow[]>([]);
+  const [skipped, setSkipped] = useState<SkippedRow[]>([]);
+  const [sourceName, setSourceName] = useState<string | null>(null);
+  const [images, setImages] = useState<Record<string, string>>({});
+  const [error, setError] = useState<string | null>(null);
+  const [progress, setProgress] = useState<BatchProgress | null>(null);
+  const exportZipRef = useRef<() => void>(() => undefined);
+  const { jobs: stageJobs, stageRef, runStaged } = useCaptureStage();
+  const batchJobs = exportJobs.jobs.filter((job) => job.label === BATCH_EXPORT_LABEL);
+
+  const { format } = encodeOptions;
+  const extension = fileExtension(format);
+
+  const handleRowsFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) {
+      return;
+    }
+
+    try {
+      const table = parseImportFile(await readFileText(file), file.name);
+      const result = buildBatchRows(table, guessBatchMapping(table.headers));
+      setRows(matchImageFiles(result.rows, images));
+      setSkipped(result.skipped);
+      setSourceName(file.name);
+      setError(null);
+    } catch (loadError) {
+      setError(loadError instanceof Error ? loadError.message : 'Could not read the batch file.');
+    }
+  };
+
+  const handleImageFiles = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const files = Array.from(e.target.files ?? []);
+    e.target.value = '';
+    if (files.length === 0) {
+      return;
+    }
+
+    const problems = files.map(validateImageFile).filter((problem): problem is string => problem !== null);
+    setError(problems[0] ?? null);
+    const added: Record<string, string> = {};
+    for (const file of files.filter((item) => validateImageFile(item) === null)) {
+      added[imageFileKey(file.name)] = await blobToDataUrl(file);
+    }
+    const merged = { ...images, ...added };
+    setImages(merged);
+    setRows((current) => matchImageFiles(current, merged));
+  };
+
+  const updateRow = (id: string, update: (row: BatchRow) => BatchRow) => {
+    setRows((current) => current.map((row) => (row.id === id ? deriveBatchRow(update(row)) : row)));
+  };
+
+  const removeRow = (id: string) => {
+    setRows((current) => current.filter((row) => row.id !== id));
+  };
+
+  const exportZip = () => {
+    if (rows.length === 0 || progress) {
+      return;
+    }
+
+    const exportRows = rows;
+    setProgress({ done: 0, total: exportRows.length });
+    return exportJobs.run(
+      BATCH_EXPORT_LABEL,
+      async (control) => {
+        try {
+          await waitForFonts(control);
+          const prepared = await runExportStage(
+            'images',
+            () =>
+              Promise.all(
+                exportRows.map(async (row) => {
+                  const image = await resolveImageForCapture(row.values.cardImage, proxy, control.signal);
+                  control.report.sources.push(image.report);
+                  return { ...row, values: { ...row.values, cardImage: image.src || row.values.cardImage } };
+                })
+              ),
+            control
+          );
+          const files: Record<string, Uint8Array> = {};
+          const taken = new Set<string>();
+          const exportedAt = new Date();
+          const staged = prepared.map((row) => ({
+            key: row.id,
+            template: getTemplate(row.templateId),
+            theme,
+            values: row.values,
+            trend: row.trend,
+            priceHistory: [],
+            size,
+          }));
+          control.onStage('render');
+          await runStaged(staged, async (nodes) => {
+            for (let index = 0; index < prepared.length; index += 1) {
+              const encoded = await captureThumbnail(nodes[index], encodeOptions, control);
+              const tokens = batchFilenameTokens(prepared[index], index, format, size.id, exportedAt);
+              files[uniqueFilename(renderFilename(filenamePattern, tokens), extension, taken)] = new Uint8Array(
+                await encoded.blob.arrayBuffer()
+              );
+              setProgress({ done: index + 1, total: prepared.length });
+            }
+          });
+
+          const archive = zipSync(files, { level: 0 });
+          downloadBlob(new Blob([archive as BlobPart], { type: 'application/zip' }), 'pokemon-thumbnails.zip');
+        } finally {
+          setProgress(null);
+        }
+      },
+      { retry: () => exportZipRef.current(), hint: 'Enable the image proxy or add the images as files.' }
+    );
+  };
+  exportZipRef.current = exportZip;
+
+  return (
+    <div>
+      <div className="flex items-start justify-between gap-4 mb-4">
+        <div>
+          <label className="block" style={{ color: 'var(--color-muted)', fontSize: '16px', fontWeight: '700' }}>
+            Batch Thumbnails
+          </label>
+          <p className="mt-1 text-xs" style={labelStyle}>
+            Load a CSV or JSON list of movers with card name, image URL or file name, before price, after price,
+            timeframe, template and trend columns.
+          </p>
+        </div>
+        <button
+          type="button"
+          onClick={onClose}
+          className="p-2 rounded-lg transition-all hover:opacity-80"
+          style={fieldStyle}
+          aria-label="Close batch mode"
+        >
+          <X className="w-4 h-4" />
+        </button>
+      </div>
+
+      <div className="flex flex-wrap gap-3 items-end">
+        <label
+          className="flex items-center gap-2 px-4 py-2 rounded-lg cursor-pointer transition-all hover:opacity-80 text-sm"
+          style={{ ...fieldStyle, fontWeight: '600' }}
+        >
+          <FileSpreadsheet className="w-4 h-4" />
+          {sourceName ? 'Replace Rows' : 'Load Rows'}
+          <input type="file" accept=".csv,.json,.txt" onChange={handleRowsFile} className="hidden" />
+        </label>
+        <label
+          className="flex items-center gap-2 px-4 py-2 rounded-lg cursor-pointer transition-all hover:opacity-80 text-sm"
+          style={{ ...fieldStyle, fontWeight: '600' }}
+        >
+          <ImagePlus className="w-4 h-4" />
+          Add Image Files
+          <input type="file" accept="image/*" multiple onChange={handleImageFiles} className="hidden" />
+        </label>
+        <button
+          type="button"
+          onClick={exportZip}
+          disabled={rows.length === 0 || progress !== null}
+          className="flex items-center gap-2 px-4 py-2 rounded-lg transition-all hover:opacity-80 disabled:opacity-50"
+          style={{
+            backgroundColor: accent,
+            border: `2px solid ${accentLight}`,
+            color: 'var(--color-text)',
+            fontWeight: '600',
+          }}
+        >
+          <Package className="w-4 h-4" />
+          {progress ? `Rendering ${progress.done}/${progress.total}...` : `Export ${rows.length} as ZIP`}
+        </button>
+      </div>
+
+      {batchJobs.length > 0 ? (
+        <div className="mt-4 max-w-xl">
+          <ExportProgress jobs={batchJobs} accent={accentLight} onCancel={exportJobs.cancel} />
+        </div>
+      ) : null}
+
+      {rows.length > 0 ? (
+        <div className="mt-4 max-w-xl">
+          <label className="block mb-2 text-xs" style={labelStyle}>
+            File names (saved with the project)
+          </label>
+          <FilenamePatternInput
+            value={filenamePattern}
+            onChange={onFilenamePatternChange}
+            tokens={batchFilenameTokens(rows[0], 0, format, size.id)}
+            extension={extension}
+            extraTokens={[{ token: 'index', description: 'Row position, e.g. 01' }]}
+          />
+        </div>
+      ) : null}
+
+      {error ? (
+        <p className="mt-2 text-xs" style={{ color: 'var(--color-warning)' }}>
+          {error}
+        </p>
+      ) : null}
+
+      {skipped.length > 0 ? (
+        <div className="mt-3 p-3 rounded-lg text-xs" style={{ ...fieldStyle, color: 'var(--color-warning)' }}>
+          <div style={{ fontWeight: '700' }}>
+            Skipped {skipped.length} {skipped.length === 1 ? 'row' : 'rows'}
+          </div>
+          <ul className="mt-1 space-y-1">
+            {skipped.slice(0, maxReportedRows).map((item) => (
+              <li key={item.row}>
+                Row {item.row}: {item.reason}
+              </li>
+            ))}
+            {skipped.length > maxReportedRows ? <li>...and {skipped.length - maxReportedRows} more</li> : null}
+          </ul>
+        </div>
+      ) : null}
+
+      {rows.length > 0 ? (
+        <div
+          className="mt-4 grid gap-4"
+          style={{ gridTemplateColumns: `repeat(auto-fill, minmax(${PREVIEW_WIDTH}px, 1fr))` }}
+        >
+          {rows.map((row) => (
+            <BatchRowCard
+              key={row.id}
+              row={row}
+              size={size}
+              theme={theme}
+              proxy={proxy}
+              onChange={(update) => updateRow(row.id, update)}
+              onRemove={() => removeRow(row.id)}
+            />
+          ))}
+        </div>
+      ) : null}
+
+      <CaptureStage stageRef={stageRef} jobs={stageJobs} />
+    </div>
+  );
+}
@@ -0,0 +1,32 @@
+import React from 'react';
+import type { CaptureStageJob } from '../hooks/use-capture-stage';
+import { StaticRenderContext } from './static-render';
+import { ThumbnailFrame } from './ThumbnailFrame';
+
+interface CaptureStageProps {
+  stageRef: React.RefObject<HTMLDivElement | null>;
+  jobs: CaptureStageJob[];
+}
+
+export function CaptureStage({ stageRef, jobs }: CaptureStageProps) {
+  return (
+    <div
+      ref={stageRef}
+      aria-hidden="true"
+      className="fixed top-0 left-0 pointer-events-none"
+      style={{ opacity: 0, zIndex: -1 }}
+    >
+      <StaticRenderContext.Provider value={true}>
+        {jobs.map((job) => (
+          <div key={job.id} data-stage-job={job.id}>
+            {job.items.map(({ key, ...item }) => (
+              <div key={key} data-stage-item={key} className="absolute top-0 left-0">
+                <ThumbnailFrame {...item} />
+              </div>
+            ))}
+          </div>
+        ))}
+      </StaticRenderContext.Provider>
+    </div>
+  );
+}
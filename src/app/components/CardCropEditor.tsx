@@ -0,0 +1,159 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { RotateCcw } from 'lucide-react';
+import type { ImageCrop } from '../types';
+import {
+  clampImageCrop,
+  defaultImageCrop,
+  getCoverSize,
+  isDefaultCrop,
+  MAX_CROP_ZOOM,
+  MIN_CROP_ZOOM,
+  type CropFit,
+} from '../lib/image-crop';
+import { CardImage } from './CardImage';
+
+interface CardCropEditorProps {
+  src: string;
+  crop: ImageCrop;
+  onChange: (crop: ImageCrop, done: boolean) => void;
+}
+
+// Card slots are roughly 5:7 in every template, so one frame stands in for all of them.
+const FRAME_WIDTH = 180;
+const FRAME_HEIGHT = 252;
+const FRAME = { width: FRAME_WIDTH, height: FRAME_HEIGHT };
+const WHEEL_ZOOM_SPEED = 0.0015;
+
+const labelStyle: React.CSSProperties = { color: 'var(--color-text)', opacity: 0.75 };
+
+export function CardCropEditor({ src, crop, onChange }: CardCropEditorProps) {
+  const frameRef = useRef<HTMLDivElement>(null);
+  const [natural, setNatural] = useState<{ src: string; width: number; height: number } | null>(null);
+  // Until the image loads its size is unknown, so only the zoom and rotation are limited.
+  const fit: CropFit | undefined =
+    natural && natural.src === src ? { frame: FRAME, cover: getCoverSize(natural, FRAME) } : undefined;
+  const fitRef = useRef(fit);
+  fitRef.current = fit;
+  const dragRef = useRef<{ pointerId: number; x: number; y: number; start: ImageCrop } | null>(null);
+  const cropRef = useRef(crop);
+  const onChangeRef = useRef(onChange);
+  cropRef.current = crop;
+  onChangeRef.current = onChange;
+
+  useEffect(() => {
+    const frame = frameRef.current;
+    if (!frame) {
+      return;
+    }
+    // React wheel listeners are passive, and the page must not scroll while zooming.
+    const handleWheel = (event: WheelEvent) => {
+      event.preventDefault();
+      const current = cropRef.current;
+      onChangeRef.current(
+        clampImageCrop(
+          { ...current, zoom: current.zoom * Math.exp(-event.deltaY * WHEEL_ZOOM_SPEED) },
+          fitRef.current
+        ),
+        false
+      );
+    };
+    frame.addEventListener('wheel', handleWheel, { passive: false });
+    return () => frame.removeEventListener('wheel', handleWheel);
+  }, []);
+
+  const handlePointerDown = (e: React.PointerEvent<HTMLDivElement>) => {
+    e.currentTarget.setPointerCapture(e.pointerId);
+    dragRef.current = { pointerId: e.pointerId, x: e.clientX, y: e.clientY, start: crop };
+  };
+
+  const handlePointerMove = (e: React.PointerEvent<HTMLDivElement>) => {
+    const drag = dragRef.current;
+    if (!drag || drag.pointerId !== e.pointerId) {
+      return;
+    }
+    const moved = {
+      ...drag.start,
+      x: drag.start.x + (e.clientX - drag.x) / FRAME_WIDTH,
+      y: drag.start.y + (e.clientY - drag.y) / FRAME_HEIGHT,
+    };
+    onChange(clampImageCrop(moved, fit), false);
+  };
+
+  const handlePointerUp = (e: React.PointerEvent<HTMLDivElement>) => {
+    if (dragRef.current?.pointerId !== e.pointerId) {
+      return;
+    }
+    dragRef.current = null;
+    onChange(crop, true);
+  };
+
+  return (
+    <div className="mt-3 flex gap-4 items-start">
+      <div
+        ref={frameRef}
+        className="rounded-lg overflow-hidden cursor-move shrink-0"
+        style={{ border: '2px solid var(--color-border)', touchAction: 'none' }}
+        onPointerDown={handlePointerDown}
+        onPointerMove={handlePointerMove}
+        onPointerUp={handlePointerUp}
+        onPointerCancel={handlePointerUp}
+        title="Drag to pan, scroll to zoom"
+      >
+        <CardImage
+          src={src}
+          width={FRAME_WIDTH}
+          height={FRAME_HEIGHT}
+          crop={crop}
+          onNaturalSize={(size) => setNatural({ src, ...size })}
+        />
+      </div>
+      <div className="flex-1 space-y-3 text-xs" style={labelStyle}>
+        <p>Drag the image to pan and scroll to zoom.</p>
+        <label className="block">
+          <span className="flex justify-between">
+            <span>Zoom</span>
+            <span>{Math.round(crop.zoom * 100)}%</span>
+          </span>
+          <input
+            type="range"
+            min={MIN_CROP_ZOOM * 100}
+            max={MAX_CROP_ZOOM * 100}
+            step={1}
+            value={Math.round(crop.zoom * 100)}
+            onChange={(e) => onChange(clampImageCrop({ ...crop, zoom: Number(e.target.value) / 100 }, fit), false)}
+            className="w-full"
+          />
+        </label>
+        <label className="block">
+          <span className="flex justify-between">
+            <span>Rotation</span>
+            <span>{Math.round(crop.rotation)}°</span>
+          </span>
+          <input
+            type="range"
+            min={-180}
+            max={180}
+            step={1}
+            value={Math.round(crop.rotation)}
+            onChange={(e) => onChange(clampImageCrop({ ...crop, rotation: Number(e.target.value) }, fit), false)}
+            className="w-full"
+          />
+        </label>
+        <button
+          type="button"
+          onClick={() => onChange(defaultImageCrop, true)}
+          disabled={isDefaultCrop(crop)}
+          className="flex items-center gap-2 px-3 py-2 rounded-lg transition-all hover:opacity-80 disabled:opacity-40"
+          style={{
+            backgroundColor: 'var(--color-surface-2)',
+            border: '1px solid var(--color-border)',
+            color: 'var(--color-text)',
+          }}
+        >
+          <RotateCcw className="w-4 h-4" />
+          Reset Crop
+        </button>
+      </div>
+    </div>
+  );
+}
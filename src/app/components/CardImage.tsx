@@ -0,0 +1,58 @@
+import React, { useState } from 'react';
+import type { ImageCrop } from '../types';
+import { clampImageCrop, defaultImageCrop, getCoverSize } from '../lib/image-crop';
+
+interface CardImageProps {
+  src: string;
+  width: number;
+  height: number;
+  crop?: ImageCrop;
+  onNaturalSize?: (size: { width: number; height: number }) => void;
+}
+
+type NaturalSize = {
+  src: string;
+  width: number;
+  height: number;
+};
+
+// Positions the image with explicit pixels and transforms rather than object-fit, so html2canvas
+// renders the crop exactly like the browser does. Once the image's size is known the crop is clamped to
+// it, so a crop saved against another image or frame never leaves the slot partly empty.
+export function CardImage({ src, width, height, crop: requested = defaultImageCrop, onNaturalSize }: CardImageProps) {
+  const [natural, setNatural] = useState<NaturalSize | null>(null);
+  const size = natural && natural.src === src ? natural : null;
+  const frame = { width, height };
+  const cover = size ? getCoverSize(size, frame) : frame;
+  const crop = size ? clampImageCrop(requested, { frame, cover }) : requested;
+
+  return (
+    <div className="relative overflow-hidden" style={{ width: `${width}px`, height: `${height}px` }}>
+      <img
+        src={src}
+        alt="Pokemon Card"
+        crossOrigin="anonymous"
+        referrerPolicy="no-referrer"
+        draggable={false}
+        onLoad={(e) => {
+          const { naturalWidth, naturalHeight } = e.currentTarget;
+          setNatural(naturalWidth && naturalHeight ? { src, width: naturalWidth, height: naturalHeight } : null);
+          if (naturalWidth && naturalHeight) {
+            onNaturalSize?.({ width: naturalWidth, height: naturalHeight });
+          }
+        }}
+        style={{
+          position: 'absolute',
+          left: `${(width - cover.width) / 2 + crop.x * width}px`,
+          top: `${(height - cover.height) / 2 + crop.y * height}px`,
+          width: `${cover.width}px`,
+          height: `${cover.height}px`,
+          maxWidth: 'none',
+          objectFit: size ? undefined : 'cover',
+          transform: `rotate(${crop.rotation}deg) scale(${crop.zoom})`,
+          transformOrigin: 'center',
+        }}
+      />
+    </div>
+  );
+}
@@ -0,0 +1,67 @@
+import React from 'react';
+import { X } from 'lucide-react';
+import { exportStageOrder, exportStages } from '../lib/export';
+import type { ExportJob } from '../hooks/use-export-jobs';
+
+interface ExportProgressProps {
+  jobs: ExportJob[];
+  accent: string;
+  onCancel: (id: number) => void;
+}
+
+export function ExportProgress({ jobs, accent, onCancel }: ExportProgressProps) {
+  if (jobs.length === 0) {
+    return null;
+  }
+
+  return (
+    <div className="flex flex-col gap-2">
+      {jobs.map((job) => {
+        const current = exportStageOrder.indexOf(job.stage);
+        return (
+          <div
+            key={job.id}
+            className="p-3 rounded-lg flex flex-col gap-2"
+            style={{ backgroundColor: 'var(--color-surface-2)', border: '1px solid var(--color-border)' }}
+          >
+            <div className="flex items-center justify-between gap-2 text-xs" style={{ color: 'var(--color-text)' }}>
+              <span>
+                {job.label}: {exportStages[job.stage].label}...
+              </span>
+              <button
+                onClick={() => onCancel(job.id)}
+                className="flex items-center gap-1 px-2 py-1 rounded transition-all hover:opacity-80"
+                style={{ border: '1px solid var(--color-border)', color: 'var(--color-text)' }}
+              >
+                <X className="w-3 h-3" />
+                Cancel
+              </button>
+            </div>
+            <div
+              className="grid grid-cols-4 gap-1"
+              role="progressbar"
+              aria-valuemin={0}
+              aria-valuemax={exportStageOrder.length}
+              aria-valuenow={current}
+            >
+              {exportStageOrder.map((stage, index) => (
+                <div key={stage} className="flex flex-col gap-1" title={exportStages[stage].label}>
+                  <div
+                    className="h-1 rounded-full"
+                    style={{
+                      backgroundColor: index <= current ? accent : 'var(--color-border)',
+                      opacity: index === current ? 0.6 : 1,
+                    }}
+                  ></div>
+                  <span className="text-[10px] capitalize" style={{ color: 'var(--color-text)', opacity: 0.6 }}>
+                    {stage}
+                  </span>
+                </div>
+              ))}
+            </div>
+          </div>
+        );
+      })}
+    </div>
+  );
+}
@@ -0,0 +1,320 @@
+import React, { useEffect, useState } from 'react';
+import { format } from 'date-fns';
+import { X } from 'lucide-react';
+import {
+  formatDuration,
+  imageResolutions,
+  shortenSource,
+  type ExportReport,
+  type ImageSourceReport,
+} from '../lib/export-report';
+import { exportRenderers, exportStageOrder, exportStages, formatFileSize } from '../lib/export';
+import { StaticRenderContext } from './static-render';
+import { ThumbnailFrame, type ThumbnailFrameProps } from './ThumbnailFrame';
+
+interface ExportReportPanelProps {
+  report: ExportReport | null;
+  // The snapshot each capture was made from, keyed by capture label, for comparing with the output.
+  frames: Record<string, ThumbnailFrameProps> | null;
+  accentLight: string;
+  onClose: () => void;
+}
+
+const COMPARE_WIDTH = 320;
+
+const outcomeLabels: Record<ExportReport['outcome'], string> = {
+  running: 'Running',
+  done: 'Finished',
+  failed: 'Failed',
+  cancelled: 'Cancelled',
+};
+
+const sectionLabelStyle = { color: 'var(--color-muted)', fontSize: '13px', fontWeight: '700' };
+
+function SourceList({ sources }: { sources: ImageSourceReport[] }) {
+  if (sources.length === 0) {
+    return (
+      <p className="text-xs" style={{ color: 'var(--color-text)', opacity: 0.6 }}>
+        No images.
+      </p>
+    );
+  }
+  return (
+    <ul className="space-y-1">
+      {sources.map((source, index) => (
+        <li key={index} className="flex items-start gap-2 text-xs" style={{ color: 'var(--color-text)' }}>
+          <span
+            className="shrink-0 px-2 py-0.5 rounded"
+            style={{
+              backgroundColor: 'var(--color-surface-2)',
+              border: `1px solid ${source.resolution === 'failed' ? 'var(--color-warning)' : 'var(--color-border)'}`,
+              color: source.resolution === 'failed' ? 'var(--color-warning)' : 'var(--color-text)',
+            }}
+          >
+            {imageResolutions[source.resolution]}
+          </span>
+          <span className="min-w-0">
+            <span className="block truncate" title={source.source.startsWith('data:') ? undefined : source.source}>
+              {shortenSource(source.source) || '(empty)'}
+            </span>
+            {source.detail ? <span style={{ opacity: 0.6 }}>{source.detail}</span> : null}
+          </span>
+        </li>
+      ))}
+    </ul>
+  );
+}
+
+export function ExportReportPanel({ report, frames, accentLight, onClose }: ExportReportPanelProps) {
+  const [selected, setSelected] = useState(0);
+  const [mode, setMode] = useState<'side-by-side' | 'difference'>('side-by-side');
+  const [outputUrl, setOutputUrl] = useState<string | null>(null);
+  const capture = report?.captures[Math.min(selected, report.captures.length - 1)] ?? null;
+  const frame = capture ? frames?.[capture.label] ?? null : null;
+
+  useEffect(() => {
+    setSelected(0);
+  }, [report?.id]);
+
+  useEffect(() => {
+    if (!capture?.output) {
+      setOutputUrl(null);
+      return;
+    }
+    const url = URL.createObjectURL(capture.output);
+    setOutputUrl(url);
+    return () => URL.revokeObjectURL(url);
+  }, [capture?.output]);
+
+  const compareScale = frame ? COMPARE_WIDTH / frame.size.width : 1;
+  const compareHeight = frame ? Math.round(frame.size.height * compareScale) : 0;
+  const livePreview = frame ? (
+    <div className="relative overflow-hidden" style={{ width: COMPARE_WIDTH, height: compareHeight }}>
+      <div style={{ transform: `scale(${compareScale})`, transformOrigin: 'top left' }}>
+        <StaticRenderContext.Provider value={true}>
+          <ThumbnailFrame {...frame} />
+        </StaticRenderContext.Provider>
+      </div>
+    </div>
+  ) : null;
+
+  return (
+    <div>
+      <div className="flex items-start justify-between gap-4 mb-4">
+        <div>
+          <label className="block" style={{ color: 'var(--color-muted)', fontSize: '16px', fontWeight: '700' }}>
+            Export Report
+          </label>
+          <p className="mt-1 text-xs" style={{ color: 'var(--color-text)', opacity: 0.6 }}>
+            What the latest export did: renderer, image sources, fonts and timings, with the output next to the
+            preview.
+          </p>
+        </div>
+        <button
+          type="button"
+          onClick={onClose}
+          className="p-2 rounded-lg transition-all hover:opacity-80"
+          style={{
+            backgroundColor: 'var(--color-surface-2)',
+            border: '1px solid var(--color-border)',
+            color: 'var(--color-text)',
+          }}
+          aria-label="Close export report"
+        >
+          <X className="w-4 h-4" />
+        </button>
+      </div>
+
+      {!report ? (
+        <p className="text-sm" style={{ color: 'var(--color-text)', opacity: 0.6 }}>
+          Nothing exported yet. Download, copy or export all sizes to see a report here.
+        </p>
+      ) : (
+        <div className="grid gap-6 lg:grid-cols-2">
+          <div className="flex flex-col gap-4">
+            <div className="text-sm" style={{ color: 'var(--color-text)' }}>
+              <span style={{ fontWeight: '700' }}>{report.label}</span>{' '}
+              <span
+                style={{ color: report.outcome === 'failed' ? 'var(--color-warning)' : 'var(--color-text)', opacity: 0.8 }}
+              >
+                {outcomeLabels[report.outcome]}
+              </span>{' '}
+              <span className="text-xs" style={{ opacity: 0.6 }}>
+                at {format(report.startedAt, 'HH:mm:ss')}
+                {report.finishedAt ? `, ${formatDuration(report.finishedAt - report.startedAt)} total` : ''}
+              </span>
+              {report.error ? (
+                <p className="mt-1 text-xs" style={{ color: 'var(--color-warning)' }}>
+                  {report.error}
+                </p>
+              ) : null}
+            </div>
+
+            <div>
+              <div className="mb-1" style={sectionLabelStyle}>
+                Timings
+              </div>
+              <div className="grid grid-cols-4 gap-2 text-xs" style={{ color: 'var(--color-text)' }}>
+                {exportStageOrder.map((stage) => (
+                  <div key={stage} className="px-2 py-1 rounded" style={{ backgroundColor: 'var(--color-surface-2)' }}>
+                    <div style={{ opacity: 0.6 }}>{exportStages[stage].label}</div>
+                    <div>{report.timings[stage] === undefined ? '-' : formatDuration(report.timings[stage])}</div>
+                  </div>
+                ))}
+              </div>
+            </div>
+
+            <div>
+              <div className="mb-1" style={sectionLabelStyle}>
+                Fonts
+              </div>
+              {report.fonts ? (
+                <p className="text-xs" style={{ color: 'var(--color-text)' }}>
+                  {report.fonts.timedOut ? (
+                    <span style={{ color: 'var(--color-warning)' }}>
+                      Not ready after the time limit; fallback faces may be used.{' '}
+                    </span>
+                  ) : (
+                    'Ready. '
+                  )}
+                  <span style={{ opacity: 0.6 }}>
+                    Loaded: {report.fonts.loaded.join(', ') || 'none'}
+                    {report.fonts.failed.length > 0 ? `. Failed: ${report.fonts.failed.join(', ')}` : ''}
+                  </span>
+                </p>
+              ) : (
+                <p className="text-xs" style={{ color: 'var(--color-text)', opacity: 0.6 }}>
+                  Not checked.
+                </p>
+              )}
+            </div>
+
+            <div>
+              <div className="mb-1" style={sectionLabelStyle}>
+                Image sources
+              </div>
+              <SourceList sources={report.sources} />
+            </div>
+          </div>
+
+          <div className="flex flex-col gap-4">
+            {report.captures.length > 1 ? (
+              <div className="flex flex-wrap gap-2">
+                {report.captures.map((item, index) => (
+                  <button
+                    key={`${item.label}-${index}`}
+                    type="button"
+                    onClick={() => setSelected(index)}
+                    className="px-3 py-1 rounded text-xs transition-all hover:opacity-80"
+                    style={{
+                      backgroundColor: 'var(--color-surface-2)',
+                      border: `1px solid ${item === capture ? accentLight : 'var(--color-border)'}`,
+                      color: 'var(--color-text)',
+                    }}
+                  >
+                    {item.label}
+                  </button>
+                ))}
+              </div>
+            ) : null}
+
+            {capture ? (
+              <>
+                <div className="text-xs" style={{ color: 'var(--color-text)' }}>
+                  <div>
+                    Renderer: {capture.renderer ?? 'none'}{' '}
+                    <span style={{ opacity: 0.6 }}>(setting: {exportRenderers[capture.requested].label})</span>
+                  </div>
+                  {capture.primaryError ? (
+                    <div className="mt-1" style={{ color: 'var(--color-warning)' }}>
+                      html-to-image failed: {capture.primaryError}
+                      {capture.renderer === 'html2canvas' ? '. Fell back to html2canvas.' : ''}
+                    </div>
+                  ) : null}
+                  {capture.renderer === 'html2canvas' ? (
+                    <div className="mt-1" style={{ opacity: 0.6 }}>
+                      html2canvas does not draw CSS blur or filters, so glows can differ from the preview.
+                    </div>
+                  ) : null}
+                  <div className="mt-1" style={{ opacity: 0.6 }}>
+                    {capture.width} x {capture.height}
+                    {capture.output ? `, ${formatFileSize(capture.output.size)}` : ''}
+                  </div>
+                </div>
+
+                <div>
+                  <div className="mb-1" style={sectionLabelStyle}>
+                    Images as rendered
+                  </div>
+                  <SourceList sources={capture.images} />
+                </div>
+
+                <div>
+                  <div className="flex items-center justify-between mb-2">
+                    <span style={sectionLabelStyle}>Preview vs output</span>
+                    <div className="flex gap-1">
+                      {(['side-by-side', 'difference'] as const).map((option) => (
+                        <button
+                          key={option}
+                          type="button"
+                          onClick={() => setMode(option)}
+                          className="px-2 py-1 rounded text-xs transition-all hover:opacity-80"
+                          style={{
+                            backgroundColor: 'var(--color-surface-2)',
+                            border: `1px solid ${mode === option ? accentLight : 'var(--color-border)'}`,
+                            color: 'var(--color-text)',
+                          }}
+                        >
+                          {option === 'side-by-side' ? 'Side by side' : 'Difference'}
+                        </button>
+                      ))}
+                    </div>
+                  </div>
+                  {!frame || !outputUrl ? (
+                    <p className="text-xs" style={{ color: 'var(--color-text)', opacity: 0.6 }}>
+                      {outputUrl ? 'The preview for this export is no longer available.' : 'No output was produced.'}
+                    </p>
+                  ) : mode === 'side-by-side' ? (
+                    <div className="flex flex-wrap gap-3 text-xs" style={{ color: 'var(--color-text)' }}>
+                      <div>
+                        <div className="mb-1" style={{ opacity: 0.6 }}>
+                          Preview
+                        </div>
+                        {livePreview}
+                      </div>
+                      <div>
+                        <div className="mb-1" style={{ opacity: 0.6 }}>
+                          Output
+                        </div>
+                        <img src={outputUrl} alt="Exported thumbnail" style={{ width: COMPARE_WIDTH }} />
+                      </div>
+                    </div>
+                  ) : (
+                    <div>
+                      <div className="relative" style={{ width: COMPARE_WIDTH, isolation: 'isolate' }}>
+                        {livePreview}
+                        <img
+                          src={outputUrl}
+                          alt="Difference between preview and output"
+                          className="absolute top-0 left-0"
+                          style={{ width: COMPARE_WIDTH, height: compareHeight, mixBlendMode: 'difference' }}
+                        />
+                      </div>
+                      <p className="mt-1 text-xs" style={{ color: 'var(--color-text)', opacity: 0.6 }}>
+                        Matching pixels are black; anything bright differs between the preview and the output.
+                      </p>
+                    </div>
+                  )}
+                </div>
+              </>
+            ) : (
+              <p className="text-xs" style={{ color: 'var(--color-text)', opacity: 0.6 }}>
+                The export stopped before anything was rendered.
+              </p>
+            )}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
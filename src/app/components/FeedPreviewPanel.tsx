@@ -0,0 +1,430 @@
+import React, { useState } from 'react';
+import { ImagePlus, Moon, Sun, Trash2, X } from 'lucide-react';
+import type { ImageCrop, PricePoint, TrendDirection } from '../types';
+import type { ThumbnailTemplate, ThumbnailValues } from '../templates/types';
+import type { Theme } from '../lib/theme';
+import {
+  feedColors,
+  feedPlacementOrder,
+  feedPlacements,
+  isFeedDuration,
+  MAX_COMPETITORS,
+  type CompetitorThumbnail,
+  type FeedColorScheme,
+  type FeedDetails,
+  type FeedPlacement,
+  type FeedPlacementId,
+} from '../lib/feed-preview';
+import { acceptedImageTypes } from '../lib/image-input';
+import { defaultOutputSizeId, getOutputSize } from '../lib/output-sizes';
+import { StaticRenderContext } from './static-render';
+import { ThumbnailFrame } from './ThumbnailFrame';
+
+interface FeedPreviewPanelProps {
+  template: ThumbnailTemplate;
+  values: ThumbnailValues;
+  trend: TrendDirection;
+  priceHistory: PricePoint[];
+  crop: ImageCrop;
+  theme: Theme;
+  details: FeedDetails;
+  competitors: CompetitorThumbnail[];
+  competitorError: string | null;
+  accentLight: string;
+  onDetailsChange: (patch: Partial<FeedDetails>) => void;
+  onAddCompetitors: (files: File[]) => void;
+  onUpdateCompetitor: (id: string, patch: Partial<Pick<CompetitorThumbnail, 'title' | 'channelName'>>) => void;
+  onRemoveCompetitor: (id: string) => void;
+  onClose: () => void;
+}
+
+type FeedVideo = {
+  key: string;
+  thumbnail: React.ReactNode | null;
+  title: string;
+  channelName: string;
+  duration: string;
+  isCurrent: boolean;
+};
+
+const fieldStyle: React.CSSProperties = {
+  backgroundColor: 'var(--color-surface-2)',
+  border: '1px solid var(--color-border)',
+  color: 'var(--color-text)',
+};
+
+const labelStyle: React.CSSProperties = { color: 'var(--color-text)', opacity: 0.75 };
+
+// The feed always shows the 16:9 thumbnail, whichever export size is selected.
+const feedSize = getOutputSize(defaultOutputSizeId);
+
+const META_LINE = '24K views • 3 hours ago';
+
+function FeedVideoCard({
+  video,
+  placement,
+  scheme,
+  accentLight,
+}: {
+  video: FeedVideo;
+  placement: FeedPlacement;
+  scheme: FeedColorScheme;
+  accentLight: string;
+}) {
+  const colors = feedColors[scheme];
+  const width = placement.thumbnailWidth;
+  const height = Math.round((width * 9) / 16);
+  const isList = placement.arrangement === 'list';
+  const isTv = placement.arrangement === 'tv';
+  const titleSize = isList ? 14 : isTv ? 13 : 16;
+
+  const thumbnail = (
+    <div
+      className="relative overflow-hidden shrink-0"
+      style={{
+        width,
+        height,
+        borderRadius: placement.columns === 1 && !isList ? 0 : 8,
+        backgroundColor: colors.avatar,
+        outline: isTv && video.isCurrent ? '3px solid #ffffff' : undefined,
+        transform: isTv && video.isCurrent ? 'scale(1.05)' : undefined,
+      }}
+    >
+      {video.thumbnail}
+      {video.thumbnail ? (
+        <span
+          className="absolute bottom-1 right-1 px-1 rounded"
+          style={{ backgroundColor: 'rgba(0, 0, 0, 0.8)', color: '#ffffff', fontSize: '12px', fontWeight: '500' }}
+        >
+          {video.duration}
+        </span>
+      ) : null}
+    </div>
+  );
+
+  const placeholderBar = (barWidth: string) => (
+    <span className="block h-3 rounded" style={{ width: barWidth, backgroundColor: colors.avatar }}></span>
+  );
+
+  const text = video.thumbnail ? (
+    <div className="min-w-0 flex-1" style={{ fontFamily: 'Roboto, Arial, sans-serif' }}>
+      <div
+        style={{
+          color: colors.title,
+          fontSize: `${titleSize}px`,
+          fontWeight: '600',
+          lineHeight: 1.35,
+          display: '-webkit-box',
+          WebkitLineClamp: 2,
+          WebkitBoxOrient: 'vertical',
+          overflow: 'hidden',
+        }}
+      >
+        {video.title}
+      </div>
+      <div className="mt-1" style={{ color: colors.meta, fontSize: isList || isTv ? '12px' : '14px' }}>
+        <div className="truncate">{video.channelName}</div>
+        {isTv ? null : <div>{META_LINE}</div>}
+      </div>
+    </div>
+  ) : (
+    <div className="flex-1 flex flex-col gap-2 pt-1">
+      {placeholderBar('90%')}
+      {placeholderBar('60%')}
+    </div>
+  );
+
+  if (isList) {
+    return (
+      <div className="flex gap-2" style={{ width: 402 }}>
+        {thumbnail}
+        {text}
+      </div>
+    );
+  }
+
+  return (
+    <div
+      style={{ width }}
+      className="flex flex-col gap-3"
+      title={video.isCurrent ? 'Your thumbnail' : undefined}
+      aria-current={video.isCurrent ? 'true' : undefined}
+    >
+      {thumbnail}
+      <div className="flex gap-3">
+        {isTv ? null : (
+          <span
+            className="shrink-0 w-9 h-9 rounded-full"
+            style={{
+              backgroundColor: colors.avatar,
+              border: video.isCurrent ? `2px solid ${accentLight}` : undefined,
+            }}
+          ></span>
+        )}
+        {text}
+      </div>
+    </div>
+  );
+}
+
+export function FeedPreviewPanel({
+  template,
+  values,
+  trend,
+  priceHistory,
+  crop,
+  theme,
+  details,
+  competitors,
+  competitorError,
+  accentLight,
+  onDetailsChange,
+  onAddCompetitors,
+  onUpdateCompetitor,
+  onRemoveCompetitor,
+  onClose,
+}: FeedPreviewPanelProps) {
+  const [placementId, setPlacementId] = useState<FeedPlacementId>('desktop');
+  const [scheme, setScheme] = useState<FeedColorScheme>('dark');
+  const [isDragging, setIsDragging] = useState(false);
+  const placement = feedPlacements[placementId];
+  const colors = feedColors[scheme];
+  const scale = placement.thumbnailWidth / feedSize.width;
+
+  const current: FeedVideo = {
+    key: 'current',
+    thumbnail: (
+      <div style={{ transform: `scale(${scale})`, transformOrigin: 'top left' }}>
+        <StaticRenderContext.Provider value={true}>
+          <ThumbnailFrame
+            template={template}
+            values={values}
+            trend={trend}
+            priceHistory={priceHistory}
+            size={feedSize}
+            crop={crop}
+            theme={theme}
+          />
+        </StaticRenderContext.Provider>
+      </div>
+    ),
+    title: details.videoTitle.trim() || values.title || 'Untitled video',
+    channelName: details.channelName,
+    duration: details.duration,
+    isCurrent: true,
+  };
+  const others: FeedVideo[] = competitors.map((competitor) => ({
+    key: competitor.id,
+    thumbnail: <img src={competitor.src} alt="" className="w-full h-full object-cover" />,
+    title: competitor.title,
+    channelName: competitor.channelName || 'Another channel',
+    duration: '10:05',
+    isCurrent: false,
+  }));
+  const placeholders: FeedVideo[] = Array.from(
+    { length: Math.max(0, placement.slots - 1 - others.length) },
+    (_, index) => ({
+      key: `placeholder-${index}`,
+      thumbnail: null,
+      title: '',
+      channelName: '',
+      duration: '',
+      isCurrent: false,
+    })
+  );
+  const videos = [current, ...others, ...placeholders];
+
+  const handleFiles = (files: FileList | null) => {
+    if (files && files.length > 0) {
+      onAddCompetitors(Array.from(files));
+    }
+  };
+
+  const handleDrop = (e: React.DragEvent<HTMLDivElement>) => {
+    e.preventDefault();
+    setIsDragging(false);
+    handleFiles(e.dataTransfer.files);
+  };
+
+  return (
+    <div>
+      <div className="flex items-start justify-between gap-4 mb-4">
+        <div>
+          <label className="block" style={{ color: 'var(--color-muted)', fontSize: '16px', fontWeight: '700' }}>
+            Feed Preview
+          </label>
+          <p className="mt-1 text-xs" style={{ color: 'var(--color-text)', opacity: 0.6 }}>
+            How the thumbnail looks where viewers pick what to watch, next to competitor videos.
+          </p>
+        </div>
+        <button
+          type="button"
+          onClick={onClose}
+          className="p-2 rounded-lg transition-all hover:opacity-80"
+          style={fieldStyle}
+          aria-label="Close feed preview"
+        >
+          <X className="w-4 h-4" />
+        </button>
+      </div>
+
+      <div className="flex flex-wrap items-center gap-2 mb-4">
+        {feedPlacementOrder.map((id) => (
+          <button
+            key={id}
+            type="button"
+            onClick={() => setPlacementId(id)}
+            className="px-3 py-2 rounded-lg text-sm transition-all hover:opacity-80"
+            style={{ ...fieldStyle, borderColor: placementId === id ? accentLight : 'var(--color-border)' }}
+            title={feedPlacements[id].description}
+          >
+            {feedPlacements[id].label}
+          </button>
+        ))}
+        <button
+          type="button"
+          onClick={() => setScheme(scheme === 'dark' ? 'light' : 'dark')}
+          className="flex items-center gap-2 px-3 py-2 rounded-lg text-sm transition-all hover:opacity-80"
+          style={fieldStyle}
+        >
+          {scheme === 'dark' ? <Sun className="w-4 h-4" /> : <Moon className="w-4 h-4" />}
+          {scheme === 'dark' ? 'Light mode' : 'Dark mode'}
+        </button>
+        <span className="text-xs" style={labelStyle}>
+          {placement.description} {placement.thumbnailWidth} x {Math.round((placement.thumbnailWidth * 9) / 16)}
+        </span>
+      </div>
+
+      <div className="grid gap-6 lg:grid-cols-[1fr_280px]">
+        <div className="overflow-x-auto rounded-xl p-6" style={{ backgroundColor: colors.page }}>
+          <div
+            className="grid gap-x-4 gap-y-6 justify-center"
+            style={{ gridTemplateColumns: `repeat(${placement.columns}, max-content)` }}
+          >
+            {videos.map((video) => (
+              <FeedVideoCard
+                key={video.key}
+                video={video}
+                placement={placement}
+                scheme={scheme}
+                accentLight={accentLight}
+              />
+            ))}
+          </div>
+        </div>
+
+        <div className="flex flex-col gap-3 text-xs">
+          <label className="flex flex-col gap-1" style={labelStyle}>
+            Video title
+            <input
+              type="text"
+              value={details.videoTitle}
+              placeholder={values.title}
+              onChange={(e) => onDetailsChange({ videoTitle: e.target.value })}
+              className="px-3 py-2 rounded-lg text-sm"
+              style={fieldStyle}
+            />
+          </label>
+          <label className="flex flex-col gap-1" style={labelStyle}>
+            Channel name
+            <input
+              type="text"
+              value={details.channelName}
+              onChange={(e) => onDetailsChange({ channelName: e.target.value })}
+              className="px-3 py-2 rounded-lg text-sm"
+              style={fieldStyle}
+            />
+          </label>
+          <label className="flex flex-col gap-1" style={labelStyle}>
+            Duration
+            <input
+              type="text"
+              value={details.duration}
+              placeholder="12:34"
+              onChange={(e) => onDetailsChange({ duration: e.target.value })}
+              className="px-3 py-2 rounded-lg text-sm"
+              style={fieldStyle}
+            />
+          </label>
+          {isFeedDuration(details.duration) ? null : (
+            <p style={{ color: 'var(--color-warning)' }}>Use minutes and seconds, like 12:34 or 1:02:03.</p>
+          )}
+
+          <div
+            data-drop-zone
+            onDragOver={(e) => {
+              e.preventDefault();
+              setIsDragging(true);
+            }}
+            onDragLeave={() => setIsDragging(false)}
+            onDrop={handleDrop}
+            className="flex flex-col items-center gap-2 p-4 rounded-lg text-center"
+            style={{
+              border: `2px dashed ${isDragging ? accentLight : 'var(--color-border)'}`,
+              color: 'var(--color-text)',
+            }}
+          >
+            <ImagePlus className="w-5 h-5" style={{ opacity: 0.7 }} />
+            <span style={{ opacity: 0.75 }}>Drop competitor thumbnails here</span>
+            <label className="px-3 py-1 rounded cursor-pointer transition-all hover:opacity-80" style={fieldStyle}>
+              Choose Files
+              <input
+                type="file"
+                accept={acceptedImageTypes.join(',')}
+                multiple
+                onChange={(e) => {
+                  handleFiles(e.target.files);
+                  e.target.value = '';
+                }}
+                className="hidden"
+              />
+            </label>
+            <span style={{ opacity: 0.5 }}>
+              {competitors.length} of {MAX_COMPETITORS}, kept until the page is closed
+            </span>
+          </div>
+          {competitorError ? <p style={{ color: 'var(--color-warning)' }}>{competitorError}</p> : null}
+
+          {competitors.map((competitor) => (
+            <div key={competitor.id} className="flex items-start gap-2">
+              <img
+                src={competitor.src}
+                alt=""
+                className="w-16 rounded object-cover"
+                style={{ aspectRatio: '16 / 9' }}
+              />
+              <div className="min-w-0 flex-1 flex flex-col gap-1">
+                <input
+                  type="text"
+                  value={competitor.title}
+                  onChange={(e) => onUpdateCompetitor(competitor.id, { title: e.target.value })}
+                  className="px-2 py-1 rounded"
+                  style={fieldStyle}
+                  aria-label="Competitor video title"
+                />
+                <input
+                  type="text"
+                  value={competitor.channelName}
+                  placeholder="Channel"
+                  onChange={(e) => onUpdateCompetitor(competitor.id, { channelName: e.target.value })}
+                  className="px-2 py-1 rounded"
+                  style={fieldStyle}
+                  aria-label="Competitor channel name"
+                />
+              </div>
+              <button
+                type="button"
+                onClick={() => onRemoveCompetitor(competitor.id)}
+                className="p-1 rounded transition-all hover:opacity-80"
+                style={fieldStyle}
+                aria-label="Remove competitor thumbnail"
+              >
+                <Trash2 className="w-3 h-3" />
+              </button>
+            </div>
+          ))}
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,241 @@
+import React, { useEffect } from 'react';
+import { useForm, type ControllerRenderProps } from 'react-hook-form';
+import { AlertTriangle, Upload } from 'lucide-react';
+import {
+  Form,
+  FormControl,
+  FormDescription,
+  FormField,
+  FormItem,
+  FormLabel,
+  FormMessage,
+} from './ui/form';
+import { validateField } from '../templates/fields';
+import type { TemplateField, ThumbnailValues } from '../templates/types';
+
+interface FieldPanelProps {
+  fields: TemplateField[];
+  values: ThumbnailValues;
+  onChange: (key: string, value: string) => void;
+  onImageUpload: (key: string, e: React.ChangeEvent<HTMLInputElement>) => void;
+  accent: string;
+  accentLight: string;
+  readOnly?: Partial<Record<string, boolean>>;
+  addons?: Partial<Record<string, React.ReactNode>>;
+  warnings?: Partial<Record<string, string[]>>;
+}
+
+const cardStyle: React.CSSProperties = {
+  backgroundColor: 'var(--color-surface)',
+  border: '2px solid var(--color-border)',
+};
+
+const inputStyle: React.CSSProperties = {
+  backgroundColor: 'var(--color-surface-2)',
+  border: '2px solid var(--color-border)',
+  color: 'var(--color-text)',
+  fontSize: '16px',
+  fontWeight: '600',
+};
+
+const urlInputStyle: React.CSSProperties = {
+  backgroundColor: 'var(--color-surface-2)',
+  border: '1px solid var(--color-border)',
+  color: 'var(--color-text)',
+};
+
+export function FieldPanel({
+  fields,
+  values,
+  onChange,
+  onImageUpload,
+  accent,
+  accentLight,
+  readOnly = {},
+  addons = {},
+  warnings = {},
+}: FieldPanelProps) {
+  const form = useForm<ThumbnailValues>({
+    mode: 'onChange',
+    values,
+  });
+
+  // The editor passes a new values object on every render, so validation keys off the content and the
+  // template's fields instead of the object. Image fields hold data URLs, and their validation only checks
+  // that one is set, so they enter the key as set or empty rather than being copied on every render.
+  const imageKeys = new Set(fields.filter((field) => field.type === 'image').map((field) => field.key));
+  const valuesKey = JSON.stringify(
+    Object.entries(values).map(([key, value]) => (imageKeys.has(key) ? [key, Boolean(value)] : [key, value]))
+  );
+  useEffect(() => {
+    void form.trigger();
+  }, [form, fields, valuesKey]);
+
+  const renderControl = (field: TemplateField, control: ControllerRenderProps<ThumbnailValues, string>) => {
+    const value = control.value ?? '';
+    const isReadOnly = Boolean(readOnly[field.key]);
+    const handleChange = (next: string) => {
+      control.onChange(next);
+      onChange(field.key, next);
+    };
+
+    switch (field.type) {
+      case 'image':
+        return (
+          <>
+            <label
+              className="flex items-center justify-center gap-2 px-4 py-3 rounded-lg cursor-pointer transition-all hover:opacity-80"
+              style={{ backgroundColor: accent, color: 'var(--color-text)' }}
+            >
+              <Upload className="w-5 h-5" />
+              <span style={{ fontWeight: '600' }}>Upload Image</span>
+              <input
+                type="file"
+                accept="image/*"
+                onChange={(e) => onImageUpload(field.key, e)}
+                className="hidden"
+              />
+            </label>
+            <FormControl>
+              <input
+                type="text"
+                value={value}
+                onChange={(e) => handleChange(e.target.value)}
+                onBlur={control.onBlur}
+                placeholder="Or paste image URL..."
+                className="mt-4 w-full px-3 py-2 rounded-lg text-sm"
+                style={urlInputStyle}
+              />
+            </FormControl>
+          </>
+        );
+      case 'enum':
+        return (
+          <FormControl>
+            <div className="flex gap-3" role="radiogroup">
+              {field.options.map((option) => (
+                <button
+                  key={option.value}
+                  type="button"
+                  role="radio"
+                  aria-checked={option.value === value}
+                  onClick={() => handleChange(option.value)}
+                  className="flex-1 px-4 py-3 rounded-lg transition-all"
+                  style={{
+                    backgroundColor: option.value === value ? accent : 'var(--color-surface-2)',
+                    border: `2px solid ${option.value === value ? accentLight : 'var(--color-border)'}`,
+                    color: 'var(--color-text)',
+                    fontWeight: '600',
+                  }}
+                >
+                  {option.label}
+                </button>
+              ))}
+            </div>
+          </FormControl>
+        );
+      case 'range':
+        return (
+          <div className="flex items-center gap-3">
+            <FormControl>
+              <input
+                type="range"
+                min={field.min}
+                max={field.max}
+                step={field.step ?? 1}
+                value={value}
+                onChange={(e) => handleChange(e.target.value)}
+                onBlur={control.onBlur}
+                className="flex-1"
+                style={{ accentColor: accent }}
+              />
+            </FormControl>
+            <span className="w-14 text-right text-sm" style={{ color: 'var(--color-text)', fontWeight: '600' }}>
+              {value}
+              {field.unit ?? ''}
+            </span>
+          </div>
+        );
+      case 'color':
+        return (
+          <div className="flex items-center gap-3">
+            <input
+              type="color"
+              value={/^#[0-9a-f]{6}$/i.test(value) ? value : '#000000'}
+              onChange={(e) => handleChange(e.target.value)}
+              className="h-12 w-14 rounded-lg cursor-pointer"
+              style={{ backgroundColor: 'var(--color-surface-2)', border: '2px solid var(--color-border)' }}
+              aria-label={`${field.label} picker`}
+            />
+            <FormControl>
+              <input
+                type="text"
+                value={value}
+                onChange={(e) => handleChange(e.target.value)}
+                onBlur={control.onBlur}
+                className="flex-1 min-w-0 px-4 py-3 rounded-lg font-mono"
+                style={inputStyle}
+              />
+            </FormControl>
+          </div>
+        );
+      default:
+        return (
+          <FormControl>
+            <input
+              type="text"
+              inputMode={field.type === 'percent' ? 'decimal' : undefined}
+              value={value}
+              onChange={(e) => handleChange(e.target.value)}
+              onBlur={control.onBlur}
+              readOnly={isReadOnly}
+              placeholder={field.type === 'text' ? field.placeholder : undefined}
+              className="w-full px-4 py-3 rounded-lg"
+              style={{ ...inputStyle, opacity: isReadOnly ? 0.7 : 1 }}
+            />
+          </FormControl>
+        );
+    }
+  };
+
+  return (
+    <Form {...form}>
+      {fields.map((field) => (
+        <FormField
+          key={field.key}
+          control={form.control}
+          name={field.key}
+          rules={{ validate: (value) => validateField(field, value ?? '', form.getValues()) ?? true }}
+          render={({ field: control }) => (
+            <FormItem className="block p-6 rounded-xl" style={cardStyle}>
+              <FormLabel
+                className="block mb-3"
+                style={{ color: 'var(--color-muted)', fontSize: '16px', fontWeight: '700' }}
+              >
+                {field.label}
+              </FormLabel>
+              {renderControl(field, control)}
+              {addons[field.key]}
+              {field.helpText ? (
+                <FormDescription className="mt-2 text-xs" style={{ color: 'var(--color-text)', opacity: 0.6 }}>
+                  {field.helpText}
+                </FormDescription>
+              ) : null}
+              <FormMessage className="mt-2 text-xs" style={{ color: 'var(--color-warning)' }} />
+              {(warnings[field.key] ?? []).map((warning) => (
+                <p
+                  key={warning}
+                  className="mt-2 flex items-start gap-1 text-xs"
+                  style={{ color: 'var(--color-warning)' }}
+                >
+                  <AlertTriangle className="w-3 h-3 mt-[2px] shrink-0" />
+                  {warning}
+                </p>
+              ))}
+            </FormItem>
+          )}
+        />
+      ))}
+    </Form>
+  );
+}
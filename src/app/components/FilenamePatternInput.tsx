@@ -0,0 +1,58 @@
+import React from 'react';
+import { filenameTokens, findUnknownTokens, renderFilename } from '../lib/filename';
+
+interface FilenamePatternInputProps {
+  value: string;
+  onChange: (value: string) => void;
+  tokens: Record<string, string>;
+  extension: string;
+  extraTokens?: { token: string; description: string }[];
+}
+
+const fieldStyle: React.CSSProperties = {
+  backgroundColor: 'var(--color-surface-2)',
+  border: '1px solid var(--color-border)',
+  color: 'var(--color-text)',
+};
+
+export function FilenamePatternInput({ value, onChange, tokens, extension, extraTokens = [] }: FilenamePatternInputProps) {
+  const unknown = findUnknownTokens(value, tokens);
+  const preview = `${renderFilename(value, tokens)}.${extension}`;
+
+  return (
+    <div>
+      <input
+        type="text"
+        value={value}
+        onChange={(e) => onChange(e.target.value)}
+        className="w-full px-3 py-2 rounded-lg text-sm"
+        style={fieldStyle}
+        aria-label="File name pattern"
+        spellCheck={false}
+      />
+      <div className="mt-2 flex flex-wrap gap-1">
+        {[...extraTokens, ...filenameTokens].map(({ token, description }) => (
+          <button
+            key={token}
+            type="button"
+            onClick={() => onChange(`${value}{${token}}`)}
+            className="px-2 py-1 rounded text-xs transition-all hover:opacity-80"
+            style={fieldStyle}
+            title={description}
+          >
+            {`{${token}}`}
+          </button>
+        ))}
+      </div>
+      <p className="mt-2 text-xs break-all" style={{ color: 'var(--color-text)', opacity: 0.75 }}>
+        {preview}
+      </p>
+      {unknown.length > 0 ? (
+        <p className="mt-1 text-xs" style={{ color: 'var(--color-warning)' }}>
+          Unknown {unknown.length === 1 ? 'token' : 'tokens'} {unknown.map((token) => `{${token}}`).join(', ')} will be
+          left out.
+        </p>
+      ) : null}
+    </div>
+  );
+}
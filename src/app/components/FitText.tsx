@@ -0,0 +1,36 @@
+import React from 'react';
+import { createTextMeasure, fitText, type TextBox } from '../lib/text-fit';
+import { useLoadedFonts } from '../hooks/use-loaded-fonts';
+
+interface FitTextProps extends Omit<React.HTMLAttributes<HTMLDivElement>, 'children'> {
+  text: string;
+  box: TextBox;
+  // Everything but the font size, which comes from the fit.
+  style: React.CSSProperties;
+}
+
+const toEm = (value: React.CSSProperties['letterSpacing']) =>
+  typeof value === 'string' && value.endsWith('em') ? parseFloat(value) || 0 : 0;
+
+// Sizes and breaks the text itself and renders each line unwrapped, so html-to-image and html2canvas
+// draw the same lines as the preview rather than wrapping the text again on their own.
+export function FitText({ text, box, style, ...props }: FitTextProps) {
+  useLoadedFonts();
+  const shown = style.textTransform === 'uppercase' ? text.toUpperCase() : text;
+  const measure = createTextMeasure(
+    String(style.fontFamily ?? 'sans-serif'),
+    String(style.fontWeight ?? '400'),
+    toEm(style.letterSpacing)
+  );
+  const fit = fitText(shown, box, Number(style.lineHeight) || 1.2, measure);
+
+  return (
+    <div {...props} style={{ ...style, fontSize: `${fit.fontSize}px` }}>
+      {fit.lines.map((line, index) => (
+        <span key={index} style={{ display: 'block', whiteSpace: 'nowrap' }}>
+          {index < fit.lines.length - 1 ? `${line} ` : line}
+        </span>
+      ))}
+    </div>
+  );
+}
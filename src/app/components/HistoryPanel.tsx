@@ -0,0 +1,72 @@
+import React from 'react';
+import { format } from 'date-fns';
+import { X } from 'lucide-react';
+import type { HistoryStep } from '../hooks/use-project-history';
+
+interface HistoryPanelProps {
+  steps: HistoryStep[];
+  index: number;
+  accentLight: string;
+  onJump: (index: number) => void;
+  onClose: () => void;
+}
+
+export function HistoryPanel({ steps, index, accentLight, onJump, onClose }: HistoryPanelProps) {
+  return (
+    <div>
+      <div className="flex items-start justify-between gap-4 mb-4">
+        <div>
+          <label className="block" style={{ color: 'var(--color-muted)', fontSize: '16px', fontWeight: '700' }}>
+            History
+          </label>
+          <p className="mt-1 text-xs" style={{ color: 'var(--color-text)', opacity: 0.6 }}>
+            Click a step to jump back to it. Ctrl/Cmd+Z undoes, Shift+Ctrl/Cmd+Z redoes.
+          </p>
+        </div>
+        <button
+          type="button"
+          onClick={onClose}
+          className="p-2 rounded-lg transition-all hover:opacity-80"
+          style={{
+            backgroundColor: 'var(--color-surface-2)',
+            border: '1px solid var(--color-border)',
+            color: 'var(--color-text)',
+          }}
+          aria-label="Close history"
+        >
+          <X className="w-4 h-4" />
+        </button>
+      </div>
+
+      <ol className="max-h-72 overflow-y-auto space-y-1">
+        {steps
+          .map((step, stepIndex) => ({ step, stepIndex }))
+          .reverse()
+          .map(({ step, stepIndex }) => {
+            const isCurrent = stepIndex === index;
+            return (
+              <li key={stepIndex}>
+                <button
+                  type="button"
+                  onClick={() => onJump(stepIndex)}
+                  className="w-full flex items-center justify-between gap-4 px-3 py-2 rounded text-left text-sm transition-all hover:opacity-80"
+                  style={{
+                    backgroundColor: isCurrent ? 'var(--color-surface-2)' : 'transparent',
+                    border: `1px solid ${isCurrent ? accentLight : 'transparent'}`,
+                    color: 'var(--color-text)',
+                    opacity: stepIndex > index ? 0.45 : 1,
+                  }}
+                  aria-current={isCurrent ? 'step' : undefined}
+                >
+                  <span className="truncate">{step.label}</span>
+                  <span className="text-xs shrink-0" style={{ opacity: 0.6 }}>
+                    {format(step.at, 'HH:mm:ss')}
+                  </span>
+                </button>
+              </li>
+            );
+          })}
+      </ol>
+    </div>
+  );
+}
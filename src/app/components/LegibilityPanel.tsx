@@ -0,0 +1,117 @@
+import React from 'react';
+import { AlertTriangle, Check } from 'lucide-react';
+import {
+  FEED_HEIGHT,
+  FEED_WIDTH,
+  formatContrast,
+  MIN_CONTRAST,
+  MIN_FEED_FONT_SIZE,
+  textSlotLabel,
+  type PaletteFix,
+  type TextCheck,
+} from '../lib/legibility';
+import { paletteColorLabels } from '../lib/theme';
+import type { TemplateField } from '../templates/types';
+
+interface LegibilityPanelProps {
+  checks: TextCheck[] | null;
+  fields: TemplateField[];
+  accentLight: string;
+  onApplyFix: (fix: PaletteFix) => void;
+}
+
+const levelColors: Record<TextCheck['level'], string> = {
+  ok: 'var(--color-text)',
+  warn: 'var(--color-muted)',
+  fail: 'var(--color-warning)',
+};
+
+export function LegibilityPanel({ checks, fields, accentLight, onApplyFix }: LegibilityPanelProps) {
+  const flagged = (checks ?? []).filter((check) => check.level !== 'ok');
+
+  return (
+    <div>
+      <div className="flex items-center justify-between gap-4 mb-2">
+        <label className="block" style={{ color: 'var(--color-muted)', fontSize: '16px', fontWeight: '700' }}>
+          Legibility at Feed Size
+        </label>
+        <span className="text-xs" style={{ color: 'var(--color-text)', opacity: 0.6 }}>
+          {FEED_WIDTH} x {FEED_HEIGHT}, contrast {formatContrast(MIN_CONTRAST)} and {MIN_FEED_FONT_SIZE} px text
+        </span>
+      </div>
+      {checks === null ? (
+        <p className="text-xs" style={{ color: 'var(--color-text)', opacity: 0.6 }}>
+          Checking the preview...
+        </p>
+      ) : flagged.length === 0 ? (
+        <p className="flex items-center gap-2 text-xs" style={{ color: 'var(--color-text)', opacity: 0.8 }}>
+          <Check className="w-4 h-4" style={{ color: accentLight }} />
+          All {checks.length} text elements are readable in the feed.
+        </p>
+      ) : (
+        <ul className="space-y-2">
+          {flagged.map((check, index) => (
+            <li
+              key={`${check.slot}-${index}`}
+              className="flex items-start gap-3 p-3 rounded-lg text-xs"
+              style={{ backgroundColor: 'var(--color-surface-2)', color: 'var(--color-text)' }}
+            >
+              <span
+                className="shrink-0 w-10 h-10 rounded flex items-center justify-center"
+                style={{
+                  backgroundColor: check.background,
+                  color: check.foreground,
+                  border: '1px solid var(--color-border)',
+                  fontWeight: '900',
+                  fontSize: '16px',
+                }}
+                title={`${check.foreground} on ${check.background}`}
+              >
+                Aa
+              </span>
+              <span className="min-w-0 flex-1">
+                <span
+                  className="flex items-center gap-2"
+                  style={{ color: levelColors[check.level], fontWeight: '700' }}
+                >
+                  <AlertTriangle className="w-3 h-3" />
+                  {textSlotLabel(check.slot, fields)}
+                  <span style={{ color: 'var(--color-text)', opacity: 0.6, fontWeight: '400' }}>
+                    {formatContrast(check.contrast)}, {check.feedFontSize.toFixed(1)} px
+                  </span>
+                </span>
+                <span className="block truncate mt-1" style={{ opacity: 0.6 }}>
+                  "{check.text}"
+                </span>
+                {check.issues.map((issue) => (
+                  <span key={issue} className="block mt-1">
+                    {issue}
+                  </span>
+                ))}
+                {check.fixes.length > 0 ? (
+                  <span className="mt-2 flex flex-wrap gap-2">
+                    {check.fixes.map((fix) => (
+                      <button
+                        key={fix.role}
+                        type="button"
+                        onClick={() => onApplyFix(fix)}
+                        className="flex items-center gap-2 px-2 py-1 rounded transition-all hover:opacity-80"
+                        style={{ border: `1px solid ${accentLight}`, color: 'var(--color-text)' }}
+                      >
+                        <span
+                          className="w-3 h-3 rounded-sm"
+                          style={{ backgroundColor: fix.color, border: '1px solid var(--color-border)' }}
+                        ></span>
+                        Set {paletteColorLabels[fix.role]} to {fix.color} ({formatContrast(fix.contrast)})
+                      </button>
+                    ))}
+                  </span>
+                ) : null}
+              </span>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+}
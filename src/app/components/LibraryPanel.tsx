@@ -0,0 +1,226 @@
+import React, { useState } from 'react';
+import { formatDistanceToNow } from 'date-fns';
+import { Copy, FilePlus, FolderOpen, Pencil, Trash2, X } from 'lucide-react';
+import type { LibraryEntry, StorageUsage } from '../lib/library';
+import { getTemplate } from '../templates/registry';
+
+interface LibraryPanelProps {
+  entries: LibraryEntry[];
+  currentId: string;
+  usage: StorageUsage | null;
+  error: string | null;
+  accent: string;
+  accentLight: string;
+  onOpen: (id: string) => void;
+  onNew: () => void;
+  onDuplicate: (id: string) => void;
+  onRename: (id: string, name: string) => void;
+  onDelete: (id: string) => void;
+  onClose: () => void;
+}
+
+const buttonStyle: React.CSSProperties = {
+  backgroundColor: 'var(--color-surface-2)',
+  border: '1px solid var(--color-border)',
+  color: 'var(--color-text)',
+};
+
+const formatMegabytes = (bytes: number) => `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+
+export function LibraryPanel({
+  entries,
+  currentId,
+  usage,
+  error,
+  accent,
+  accentLight,
+  onOpen,
+  onNew,
+  onDuplicate,
+  onRename,
+  onDelete,
+  onClose,
+}: LibraryPanelProps) {
+  const [renamingId, setRenamingId] = useState<string | null>(null);
+  const [draftName, setDraftName] = useState('');
+
+  const startRename = (entry: LibraryEntry) => {
+    setRenamingId(entry.id);
+    setDraftName(entry.name);
+  };
+
+  const commitRename = () => {
+    if (renamingId) {
+      onRename(renamingId, draftName);
+    }
+    setRenamingId(null);
+  };
+
+  const confirmDelete = (entry: LibraryEntry) => {
+    if (window.confirm(`Delete "${entry.name}" from the library? This cannot be undone.`)) {
+      onDelete(entry.id);
+    }
+  };
+
+  return (
+    <div>
+      <div className="flex items-start justify-between gap-4 mb-4">
+        <div>
+          <label className="block" style={{ color: 'var(--color-muted)', fontSize: '16px', fontWeight: '700' }}>
+            Library
+          </label>
+          <p className="mt-1 text-xs" style={{ color: 'var(--color-text)', opacity: 0.6 }}>
+            {entries.length} saved {entries.length === 1 ? 'thumbnail' : 'thumbnails'}
+            {usage && usage.quota > 0
+              ? ` - ${formatMegabytes(usage.used)} of ${formatMegabytes(usage.quota)} browser storage used`
+              : ''}
+          </p>
+        </div>
+        <div className="flex gap-2">
+          <button
+            type="button"
+            onClick={onNew}
+            className="flex items-center gap-2 px-3 py-2 rounded-lg text-sm transition-all hover:opacity-80"
+            style={{
+              backgroundColor: accent,
+              border: `2px solid ${accentLight}`,
+              color: 'var(--color-text)',
+              fontWeight: '600',
+            }}
+          >
+            <FilePlus className="w-4 h-4" />
+            New Project
+          </button>
+          <button
+            type="button"
+            onClick={onClose}
+            className="p-2 rounded-lg transition-all hover:opacity-80"
+            style={buttonStyle}
+            aria-label="Close library"
+          >
+            <X className="w-4 h-4" />
+          </button>
+        </div>
+      </div>
+
+      {error ? (
+        <p className="mb-3 text-xs" style={{ color: 'var(--color-warning)' }}>
+          {error}
+        </p>
+      ) : null}
+
+      {entries.length === 0 ? (
+        <p className="text-sm" style={{ color: 'var(--color-text)', opacity: 0.6 }}>
+          Nothing saved yet. Edits are saved here automatically.
+        </p>
+      ) : (
+        <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-4 gap-4">
+          {entries.map((entry) => {
+            const isCurrent = entry.id === currentId;
+            return (
+              <div
+                key={entry.id}
+                className="rounded-lg overflow-hidden"
+                style={{
+                  backgroundColor: 'var(--color-tile)',
+                  border: `2px solid ${isCurrent ? accentLight : 'var(--color-border)'}`,
+                }}
+              >
+                <button
+                  type="button"
+                  onClick={() => onOpen(entry.id)}
+                  className="block w-full aspect-video"
+                  style={{ backgroundColor: 'var(--color-bg)' }}
+                  aria-label={`Open ${entry.name}`}
+                >
+                  {entry.preview ? (
+                    <img src={entry.preview} alt="" className="w-full h-full object-cover" />
+                  ) : (
+                    <span className="text-xs" style={{ color: 'var(--color-text)', opacity: 0.5 }}>
+                      No preview
+                    </span>
+                  )}
+                </button>
+                <div className="p-3">
+                  {renamingId === entry.id ? (
+                    <input
+                      type="text"
+                      value={draftName}
+                      autoFocus
+                      onChange={(e) => setDraftName(e.target.value)}
+                      onBlur={commitRename}
+                      onKeyDown={(e) => {
+                        if (e.key === 'Enter') {
+                          commitRename();
+                        } else if (e.key === 'Escape') {
+                          setRenamingId(null);
+                        }
+                      }}
+                      className="w-full px-2 py-1 rounded text-sm"
+                      style={buttonStyle}
+                    />
+                  ) : (
+                    <div className="text-sm truncate" style={{ color: 'var(--color-text)', fontWeight: '700' }}>
+                      {entry.name}
+                      {isCurrent ? (
+                        <span className="ml-2 text-xs" style={{ color: accentLight }}>
+                          (open)
+                        </span>
+                      ) : null}
+                    </div>
+                  )}
+                  <div className="mt-1 text-xs" style={{ color: 'var(--color-text)', opacity: 0.6 }}>
+                    {getTemplate(entry.templateId).name} - edited{' '}
+                    {formatDistanceToNow(entry.updatedAt, { addSuffix: true })}
+                  </div>
+                  <div className="mt-3 flex gap-2">
+                    <button
+                      type="button"
+                      onClick={() => onOpen(entry.id)}
+                      className="p-2 rounded transition-all hover:opacity-80"
+                      style={buttonStyle}
+                      aria-label={`Open ${entry.name}`}
+                      title="Open"
+                    >
+                      <FolderOpen className="w-4 h-4" />
+                    </button>
+                    <button
+                      type="button"
+                      onClick={() => onDuplicate(entry.id)}
+                      className="p-2 rounded transition-all hover:opacity-80"
+                      style={buttonStyle}
+                      aria-label={`Duplicate ${entry.name}`}
+                      title="Duplicate"
+                    >
+                      <Copy className="w-4 h-4" />
+                    </button>
+                    <button
+                      type="button"
+                      onClick={() => startRename(entry)}
+                      className="p-2 rounded transition-all hover:opacity-80"
+                      style={buttonStyle}
+                      aria-label={`Rename ${entry.name}`}
+                      title="Rename"
+                    >
+                      <Pencil className="w-4 h-4" />
+                    </button>
+                    <button
+                      type="button"
+                      onClick={() => confirmDelete(entry)}
+                      className="p-2 rounded transition-all hover:opacity-80"
+                      style={buttonStyle}
+                      aria-label={`Delete ${entry.name}`}
+                      title="Delete"
+                    >
+                      <Trash2 className="w-4 h-4" />
+                    </button>
+                  </div>
+                </div>
+              </div>
+            );
+          })}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,183 @@
+import React, { useEffect, useState } from 'react';
+import { FileUp, Plus, Trash2 } from 'lucide-react';
+import type { PricePoint } from '../types';
+import { formatPricePairs, parsePricePairs } from '../lib/price-history';
+
+type InputMode = 'table' | 'paste';
+
+interface PriceHistoryInputProps {
+  value: PricePoint[];
+  onChange: (points: PricePoint[]) => void;
+  onImportFile: (file: File) => void;
+  accent: string;
+  accentLight: string;
+}
+
+const fieldStyle: React.CSSProperties = {
+  backgroundColor: 'var(--color-surface-2)',
+  border: '1px solid var(--color-border)',
+  color: 'var(--color-text)',
+};
+
+export function PriceHistoryInput({
+  value,
+  onChange,
+  onImportFile,
+  accent,
+  accentLight,
+}: PriceHistoryInputProps) {
+  const [mode, setMode] = useState<InputMode>('table');
+  const [draft, setDraft] = useState(() => formatPricePairs(value));
+  const [invalidLines, setInvalidLines] = useState<number[]>([]);
+
+  useEffect(() => {
+    if (mode === 'table') {
+      setDraft(formatPricePairs(value));
+    }
+  }, [mode, value]);
+
+  const applyText = (text: string) => {
+    const result = parsePricePairs(text);
+    setInvalidLines(result.invalidLines);
+    if (result.points.length > 0) {
+      onChange(result.points);
+    }
+  };
+
+  const handleFileImport = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (file) {
+      onImportFile(file);
+    }
+    e.target.value = '';
+  };
+
+  const updatePoint = (index: number, patch: Partial<PricePoint>) => {
+    onChange(value.map((point, pointIndex) => (pointIndex === index ? { ...point, ...patch } : point)));
+  };
+
+  const removePoint = (index: number) => {
+    onChange(value.filter((_, pointIndex) => pointIndex !== index));
+  };
+
+  const addPoint = () => {
+    const last = value[value.length - 1];
+    onChange([...value, { date: `Point ${value.length + 1}`, price: last ? last.price : 0 }]);
+  };
+
+  const modeButtonStyle = (active: boolean): React.CSSProperties => ({
+    backgroundColor: active ? accent : 'var(--color-surface-2)',
+    border: `2px solid ${active ? accentLight : 'var(--color-border)'}`,
+    color: 'var(--color-text)',
+    fontWeight: '600',
+  });
+
+  return (
+    <div>
+      <div className="flex gap-2 mb-3">
+        <button
+          type="button"
+          onClick={() => setMode('table')}
+          className="flex-1 px-3 py-2 rounded-lg text-sm transition-all"
+          style={modeButtonStyle(mode === 'table')}
+        >
+          Table
+        </button>
+        <button
+          type="button"
+          onClick={() => setMode('paste')}
+          className="flex-1 px-3 py-2 rounded-lg text-sm transition-all"
+          style={modeButtonStyle(mode === 'paste')}
+        >
+          Paste
+        </button>
+        <label
+          className="flex items-center justify-center gap-2 px-3 py-2 rounded-lg text-sm cursor-pointer transition-all hover:opacity-80"
+          style={modeButtonStyle(false)}
+        >
+          <FileUp className="w-4 h-4" />
+          Import
+          <input
+            type="file"
+            accept=".csv,.json,.txt,text/csv,application/json"
+            onChange={handleFileImport}
+            className="hidden"
+          />
+        </label>
+      </div>
+
+      {mode === 'table' ? (
+        <div>
+          <div className="max-h-[220px] overflow-y-auto flex flex-col gap-2 pr-1">
+            {value.map((point, index) => (
+              <div key={index} className="flex gap-2">
+                <input
+                  type="text"
+                  value={point.date}
+                  onChange={(e) => updatePoint(index, { date: e.target.value })}
+                  className="flex-1 min-w-0 px-3 py-2 rounded-lg text-sm"
+                  style={fieldStyle}
+                />
+                <input
+                  type="number"
+                  min={0}
+                  step="any"
+                  value={point.price}
+                  onChange={(e) => updatePoint(index, { price: Math.max(0, Number(e.target.value) || 0) })}
+                  className="w-28 px-3 py-2 rounded-lg text-sm"
+                  style={fieldStyle}
+                />
+                <button
+                  type="button"
+                  onClick={() => removePoint(index)}
+                  className="px-2 rounded-lg transition-all hover:opacity-80"
+                  style={fieldStyle}
+                  aria-label={`Remove ${point.date}`}
+                >
+                  <Trash2 className="w-4 h-4" />
+                </button>
+              </div>
+            ))}
+          </div>
+          <button
+            type="button"
+            onClick={addPoint}
+            className="mt-3 w-full flex items-center justify-center gap-2 px-3 py-2 rounded-lg text-sm transition-all hover:opacity-80"
+            style={fieldStyle}
+          >
+            <Plus className="w-4 h-4" />
+            Add Point
+          </button>
+        </div>
+      ) : (
+        <div>
+          <textarea
+            value={draft}
+            onChange={(e) => setDraft(e.target.value)}
+            rows={8}
+            placeholder={'2024-06-01, $100\n2024-06-08, $1,250'}
+            className="w-full px-3 py-2 rounded-lg text-sm font-mono"
+            style={fieldStyle}
+          />
+          <button
+            type="button"
+            onClick={() => applyText(draft)}
+            className="mt-2 w-full px-3 py-2 rounded-lg text-sm transition-all hover:opacity-80"
+            style={{ backgroundColor: accent, color: 'var(--color-text)', fontWeight: '600' }}
+          >
+            Apply
+          </button>
+        </div>
+      )}
+
+      {invalidLines.length > 0 ? (
+        <p className="mt-2 text-xs" style={{ color: 'var(--color-warning)' }}>
+          Skipped {invalidLines.length === 1 ? 'line' : 'lines'} {invalidLines.join(', ')} (no readable price).
+        </p>
+      ) : null}
+      <p className="mt-2 text-xs" style={{ color: 'var(--color-text)', opacity: 0.6 }}>
+        One point per line as "date, price". The chart scales to these values.
+      </p>
+    </div>
+  );
+}
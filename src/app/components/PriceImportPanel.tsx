@@ -0,0 +1,225 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { Check, X } from 'lucide-react';
+import type { PricePoint } from '../types';
+import type { DecimalSeparator } from '../lib/currency';
+import {
+  deriveHeadlineValues,
+  guessColumnMapping,
+  mapImportRows,
+  type ColumnMapping,
+  type DateFormat,
+  type ImportTable,
+} from '../lib/price-import';
+
+interface PriceImportPanelProps {
+  table: ImportTable;
+  filename: string;
+  accent: string;
+  accentLight: string;
+  // Used when the file's prices carry no currency symbol, usually the one in the price field.
+  fallbackSymbol: string;
+  onApply: (points: PricePoint[], symbol: string) => void;
+  onCancel: () => void;
+}
+
+const fieldStyle: React.CSSProperties = {
+  backgroundColor: 'var(--color-surface-2)',
+  border: '1px solid var(--color-border)',
+  color: 'var(--color-text)',
+};
+
+const labelStyle: React.CSSProperties = {
+  color: 'var(--color-text)',
+  opacity: 0.75,
+};
+
+const maxReportedRows = 8;
+
+export function PriceImportPanel({
+  table,
+  filename,
+  accent,
+  accentLight,
+  fallbackSymbol,
+  onApply,
+  onCancel,
+}: PriceImportPanelProps) {
+  const [mapping, setMapping] = useState<ColumnMapping>(() => guessColumnMapping(table.headers));
+  const [dateFormat, setDateFormat] = useState<DateFormat>('auto');
+  const [decimalSeparator, setDecimalSeparator] = useState<DecimalSeparator>('.');
+  const [windowStart, setWindowStart] = useState(0);
+  const [windowEnd, setWindowEnd] = useState(0);
+
+  const result = useMemo(
+    () => mapImportRows(table, { mapping, dateFormat, decimalSeparator }),
+    [table, mapping, dateFormat, decimalSeparator]
+  );
+
+  useEffect(() => {
+    setWindowStart(0);
+    setWindowEnd(Math.max(0, result.points.length - 1));
+  }, [result.points.length]);
+
+  const windowPoints = result.points.slice(windowStart, windowEnd + 1);
+  const symbol = result.symbol ?? fallbackSymbol;
+  const headline = deriveHeadlineValues(windowPoints, symbol);
+
+  const renderColumnSelect = (
+    label: string,
+    value: number | null,
+    onChange: (value: number | null) => void,
+    optional = false
+  ) => (
+    <label className="flex flex-col gap-1 text-xs" style={labelStyle}>
+      {label}
+      <select
+        value={value === null ? '' : String(value)}
+        onChange={(e) => onChange(e.target.value === '' ? null : Number(e.target.value))}
+        className="px-3 py-2 rounded-lg text-sm"
+        style={fieldStyle}
+      >
+        {optional ? <option value="">None</option> : null}
+        {table.headers.map((header, index) => (
+          <option key={index} value={index}>
+            {header}
+          </option>
+        ))}
+      </select>
+    </label>
+  );
+
+  return (
+    <div>
+      <div className="flex items-start justify-between gap-4 mb-4">
+        <div>
+          <label className="block" style={{ color: 'var(--color-muted)', fontSize: '16px', fontWeight: '700' }}>
+            Import Price History
+          </label>
+          <p className="mt-1 text-xs" style={labelStyle}>
+            {filename} - {table.rows.length} rows, {result.points.length} usable
+          </p>
+        </div>
+        <button
+          type="button"
+          onClick={onCancel}
+          className="p-2 rounded-lg transition-all hover:opacity-80"
+          style={fieldStyle}
+          aria-label="Close importer"
+        >
+          <X className="w-4 h-4" />
+        </button>
+      </div>
+
+      <div className="grid grid-cols-2 lg:grid-cols-5 gap-3">
+        {renderColumnSelect('Date column', mapping.date, (date) => setMapping({ ...mapping, date: date ?? 0 }))}
+        {renderColumnSelect('Price column', mapping.price, (price) => setMapping({ ...mapping, price: price ?? 0 }))}
+        {renderColumnSelect('Volume column', mapping.volume, (volume) => setMapping({ ...mapping, volume }), true)}
+        <label className="flex flex-col gap-1 text-xs" style={labelStyle}>
+          Date format
+          <select
+            value={dateFormat}
+            onChange={(e) => setDateFormat(e.target.value as DateFormat)}
+            className="px-3 py-2 rounded-lg text-sm"
+            style={fieldStyle}
+          >
+            <option value="auto">Auto detect</option>
+            <option value="ymd">YYYY-MM-DD</option>
+            <option value="mdy">MM/DD/YYYY</option>
+            <option value="dmy">DD/MM/YYYY</option>
+          </select>
+        </label>
+        <label className="flex flex-col gap-1 text-xs" style={labelStyle}>
+          Number format
+          <select
+            value={decimalSeparator}
+            onChange={(e) => setDecimalSeparator(e.target.value as DecimalSeparator)}
+            className="px-3 py-2 rounded-lg text-sm"
+            style={fieldStyle}
+          >
+            <option value=".">1,234.56</option>
+            <option value=",">1.234,56</option>
+          </select>
+        </label>
+      </div>
+
+      <div className="grid grid-cols-2 gap-3 mt-3">
+        <label className="flex flex-col gap-1 text-xs" style={labelStyle}>
+          Window start
+          <select
+            value={windowStart}
+            onChange={(e) => setWindowStart(Math.min(Number(e.target.value), windowEnd))}
+            className="px-3 py-2 rounded-lg text-sm"
+            style={fieldStyle}
+          >
+            {result.points.map((point, index) => (
+              <option key={point.date} value={index}>
+                {point.date}
+              </option>
+            ))}
+          </select>
+        </label>
+        <label className="flex flex-col gap-1 text-xs" style={labelStyle}>
+          Window end
+          <select
+            value={windowEnd}
+            onChange={(e) => setWindowEnd(Math.max(Number(e.target.value), windowStart))}
+            className="px-3 py-2 rounded-lg text-sm"
+            style={fieldStyle}
+          >
+            {result.points.map((point, index) => (
+              <option key={point.date} value={index}>
+                {point.date}
+              </option>
+            ))}
+          </select>
+        </label>
+      </div>
+
+      {headline ? (
+        <p className="mt-3 text-sm" style={{ color: 'var(--color-text)' }}>
+          {windowPoints.length} points: {headline.beforePrice} to {headline.price} (
+          {windowPoints[windowPoints.length - 1].price < windowPoints[0].price ? '-' : '+'}
+          {headline.changePercent}%)
+        </p>
+      ) : (
+        <p className="mt-3 text-sm" style={{ color: 'var(--color-warning)' }}>
+          Pick a window with at least two valid points.
+        </p>
+      )}
+
+      {result.skipped.length > 0 ? (
+        <div className="mt-3 p-3 rounded-lg text-xs" style={{ ...fieldStyle, color: 'var(--color-warning)' }}>
+          <div style={{ fontWeight: '700' }}>
+            Skipped {result.skipped.length} {result.skipped.length === 1 ? 'row' : 'rows'}
+          </div>
+          <ul className="mt-1 space-y-1">
+            {result.skipped.slice(0, maxReportedRows).map((skipped) => (
+              <li key={skipped.row}>
+                Row {skipped.row}: {skipped.reason}
+              </li>
+            ))}
+            {result.skipped.length > maxReportedRows ? (
+              <li>...and {result.skipped.length - maxReportedRows} more</li>
+            ) : null}
+          </ul>
+        </div>
+      ) : null}
+
+      <button
+        type="button"
+        onClick={() => onApply(windowPoints, symbol)}
+        disabled={!headline}
+        className="mt-4 flex items-center justify-center gap-2 px-4 py-3 rounded-lg transition-all hover:opacity-80 disabled:opacity-50"
+        style={{
+          backgroundColor: accent,
+          border: `2px solid ${accentLight}`,
+          color: 'var(--color-text)',
+          fontWeight: '600',
+        }}
+      >
+        <Check className="w-5 h-5" />
+        Use This Window
+      </button>
+    </div>
+  );
+}
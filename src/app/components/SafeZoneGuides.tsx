@@ -0,0 +1,154 @@
+import React from 'react';
+import {
+  centerCropWidth,
+  guideOrder,
+  guides,
+  reservedZoneMessages,
+  reservedZones,
+  SAFE_MARGIN,
+  type GuideId,
+  type ReservedZoneId,
+  type ZoneOverlap,
+  type ZoneRect,
+} from '../lib/safe-zones';
+import type { OutputSize } from '../lib/output-sizes';
+import { textSlotLabel } from '../lib/legibility';
+import type { TemplateField } from '../templates/types';
+
+interface SafeZoneTogglesProps {
+  shown: GuideId[];
+  overlaps: ZoneOverlap[];
+  // Labels the text slots named in warnings.
+  fields: TemplateField[];
+  accentLight: string;
+  onToggle: (guide: GuideId) => void;
+}
+
+interface SafeZoneOverlayProps {
+  shown: GuideId[];
+  overlaps: ZoneOverlap[];
+  size: OutputSize;
+  duration: string;
+}
+
+const GUIDE_COLOR = 'rgba(255, 255, 255, 0.85)';
+const DIM_COLOR = 'rgba(0, 0, 0, 0.55)';
+
+const percent = (value: number) => `${value * 100}%`;
+
+const rectStyle = ({ x, y, width, height }: ZoneRect): React.CSSProperties => ({
+  position: 'absolute',
+  left: percent(x),
+  top: percent(y),
+  width: percent(width),
+  height: percent(height),
+});
+
+export function SafeZoneToggles({ shown, overlaps, fields, accentLight, onToggle }: SafeZoneTogglesProps) {
+  const hits = new Set(overlaps.map((overlap) => overlap.zone));
+  return (
+    <div>
+      <div className="flex flex-wrap items-center gap-2">
+        <span className="text-xs" style={{ color: 'var(--color-text)', opacity: 0.6 }}>
+          Guides
+        </span>
+        {guideOrder.map((guide) => {
+          const isShown = shown.includes(guide);
+          const isHit = hits.has(guide as ReservedZoneId);
+          return (
+            <button
+              key={guide}
+              type="button"
+              onClick={() => onToggle(guide)}
+              className="px-2 py-1 rounded text-xs transition-all hover:opacity-80"
+              style={{
+                backgroundColor: 'var(--color-surface-2)',
+                border: `1px solid ${isHit ? 'var(--color-warning)' : isShown ? accentLight : 'var(--color-border)'}`,
+                color: isHit ? 'var(--color-warning)' : 'var(--color-text)',
+              }}
+              title={guides[guide].description}
+              aria-pressed={isShown}
+            >
+              {guides[guide].label}
+            </button>
+          );
+        })}
+      </div>
+      {overlaps.map((overlap) => (
+        <p key={`${overlap.slot}-${overlap.zone}`} className="mt-2 text-xs" style={{ color: 'var(--color-warning)' }}>
+          {textSlotLabel(overlap.slot, fields)}: {reservedZoneMessages[overlap.zone]}
+        </p>
+      ))}
+    </div>
+  );
+}
+
+function CenterCrop({ width }: { width: number }) {
+  const side = (1 - width) / 2;
+  return (
+    <>
+      <div style={{ ...rectStyle({ x: 0, y: 0, width: side, height: 1 }), backgroundColor: DIM_COLOR }}></div>
+      <div style={{ ...rectStyle({ x: 1 - side, y: 0, width: side, height: 1 }), backgroundColor: DIM_COLOR }}></div>
+      <div style={{ ...rectStyle({ x: side, y: 0, width, height: 1 }), border: `2px dashed ${GUIDE_COLOR}` }}></div>
+    </>
+  );
+}
+
+// Drawn over the preview outside the captured node, so guides never end up in an export.
+export function SafeZoneOverlay({ shown, overlaps, size, duration }: SafeZoneOverlayProps) {
+  const hits = new Set(overlaps.map((overlap) => overlap.zone));
+  const zoneBorder = (zone: ReservedZoneId) => `2px solid ${hits.has(zone) ? 'var(--color-warning)' : GUIDE_COLOR}`;
+
+  return (
+    <div className="absolute inset-0 pointer-events-none" aria-hidden="true">
+      {shown.includes('shorts') ? <CenterCrop width={centerCropWidth(size, 9 / 16)} /> : null}
+      {shown.includes('square') ? <CenterCrop width={centerCropWidth(size, 1)} /> : null}
+      {shown.includes('thirds')
+        ? [1 / 3, 2 / 3].map((line) => (
+            <React.Fragment key={line}>
+              <div
+                style={{ ...rectStyle({ x: line, y: 0, width: 0, height: 1 }), borderLeft: `1px solid ${GUIDE_COLOR}` }}
+              ></div>
+              <div
+                style={{ ...rectStyle({ x: 0, y: line, width: 1, height: 0 }), borderTop: `1px solid ${GUIDE_COLOR}` }}
+              ></div>
+            </React.Fragment>
+          ))
+        : null}
+      {shown.includes('margins') ? (
+        <div
+          style={{
+            ...rectStyle({
+              x: SAFE_MARGIN,
+              y: SAFE_MARGIN,
+              width: 1 - SAFE_MARGIN * 2,
+              height: 1 - SAFE_MARGIN * 2,
+            }),
+            border: `2px dashed ${GUIDE_COLOR}`,
+          }}
+        ></div>
+      ) : null}
+      {shown.includes('progress') || hits.has('progress') ? (
+        <div
+          className="flex items-end"
+          style={{ ...rectStyle(reservedZones.progress), border: zoneBorder('progress'), backgroundColor: DIM_COLOR }}
+        >
+          <div style={{ width: '40%', height: '50%', backgroundColor: '#ff0000' }}></div>
+        </div>
+      ) : null}
+      {shown.includes('duration') || hits.has('duration') ? (
+        <div
+          className="flex items-end justify-end p-[1%]"
+          style={{ ...rectStyle(reservedZones.duration), border: zoneBorder('duration'), backgroundColor: DIM_COLOR }}
+        >
+          <span
+            className="px-[2%] rounded"
+            style={{ backgroundColor: 'rgba(0, 0, 0, 0.8)', color: '#ffffff', fontSize: `${size.height * 0.05}px` }}
+          >
+            {duration}
+          </span>
+        </div>
+      ) : null}
+    </div>
+  );
+}
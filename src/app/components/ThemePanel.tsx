@@ -0,0 +1,431 @@
+import React, { useEffect, useState } from 'react';
+import { Download, FolderOpen, Plus, Save, Trash2, X } from 'lucide-react';
+import type { TrendDirection } from '../types';
+import type { HistoryOptions } from '../hooks/use-project-history';
+import { downloadBlob } from '../lib/export';
+import { slugify } from '../lib/filename';
+import {
+  builtinThemes,
+  createThemeId,
+  editableTheme,
+  isBuiltinTheme,
+  MAX_GLOW,
+  MAX_GRADIENT_STOPS,
+  MIN_GLOW,
+  paletteColorLabels,
+  parseThemeFile,
+  serializeTheme,
+  toCssGradient,
+  type ChromeColors,
+  type GradientStop,
+  type PaletteColor,
+  type Theme,
+  type TrendPalette,
+} from '../lib/theme';
+
+interface ThemePanelProps {
+  theme: Theme;
+  // False while the project follows its template's built-in theme.
+  isOverride: boolean;
+  templateTheme: Theme;
+  trend: TrendDirection;
+  savedThemes: Theme[];
+  storageError: string | null;
+  onChange: (theme: Theme | null, options: HistoryOptions) => void;
+  onSave: (theme: Theme) => void;
+  onDelete: (id: string) => void;
+  onClose: () => void;
+}
+
+const chromeFields: { key: keyof ChromeColors; label: string }[] = [
+  { key: 'page', label: 'Page' },
+  { key: 'surface', label: 'Panels' },
+  { key: 'field', label: 'Fields and buttons' },
+  { key: 'tile', label: 'Cards in lists' },
+  { key: 'border', label: 'Borders' },
+  { key: 'heading', label: 'Headings' },
+  { key: 'text', label: 'Text' },
+  { key: 'warning', label: 'Warnings and errors' },
+];
+
+const trendLabels: Record<TrendDirection, string> = { up: 'Price up', down: 'Price down' };
+
+const buttonStyle: React.CSSProperties = {
+  backgroundColor: 'var(--color-surface-2)',
+  border: '1px solid var(--color-border)',
+  color: 'var(--color-text)',
+};
+
+const sectionLabelStyle = { color: 'var(--color-muted)', fontSize: '13px', fontWeight: '700' };
+
+function ColorField({ label, value, onChange }: { label: string; value: string; onChange: (color: string) => void }) {
+  return (
+    <label className="flex items-center gap-2 text-xs" style={{ color: 'var(--color-text)' }}>
+      <input
+        type="color"
+        value={value}
+        onChange={(e) => onChange(e.target.value)}
+        className="w-8 h-8 rounded cursor-pointer"
+        style={{ border: '1px solid var(--color-border)', backgroundColor: 'transparent' }}
+      />
+      <span className="flex flex-col">
+        <span>{label}</span>
+        <span style={{ opacity: 0.6 }}>{value}</span>
+      </span>
+    </label>
+  );
+}
+
+export function ThemePanel({
+  theme,
+  isOverride,
+  templateTheme,
+  trend,
+  savedThemes,
+  storageError,
+  onChange,
+  onSave,
+  onDelete,
+  onClose,
+}: ThemePanelProps) {
+  const [editingTrend, setEditingTrend] = useState<TrendDirection>(trend);
+  const [importError, setImportError] = useState<string | null>(null);
+  const palette = theme.trends[editingTrend];
+  const isSaved = savedThemes.some((saved) => saved.id === theme.id);
+  const isKnown = isSaved || (isOverride && isBuiltinTheme(theme.id));
+
+  useEffect(() => {
+    setEditingTrend(trend);
+  }, [trend]);
+
+  const edit = (patch: Partial<Theme>, options: HistoryOptions) =>
+    onChange({ ...editableTheme(theme), ...patch }, options);
+
+  const editPalette = (patch: Partial<TrendPalette>, label: string, coalesceKey: string) =>
+    edit(
+      { trends: { ...theme.trends, [editingTrend]: { ...palette, ...patch } } },
+      { label, coalesceKey: `theme.${editingTrend}.${coalesceKey}` }
+    );
+
+  const editStops = (stops: GradientStop[], label: string, coalesceKey?: string) =>
+    editPalette({ background: { ...palette.background, stops } }, label, coalesceKey ?? label);
+
+  const selectTheme = (id: string) => {
+    if (!id) {
+      onChange(null, { label: 'Use template theme' });
+      return;
+    }
+    const selected = [...builtinThemes, ...savedThemes].find((item) => item.id === id);
+    if (selected) {
+      onChange(selected, { label: `Use theme ${selected.name}` });
+    }
+  };
+
+  const saveTheme = () => {
+    const saved = isBuiltinTheme(theme.id) ? { ...theme, id: createThemeId() } : theme;
+    onSave(saved);
+    onChange(saved, { label: `Save theme ${saved.name}` });
+  };
+
+  const exportTheme = () =>
+    downloadBlob(
+      new Blob([serializeTheme(theme)], { type: 'application/json' }),
+      `${slugify(theme.name) || 'theme'}.theme.json`
+    );
+
+  const handleImport = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) {
+      return;
+    }
+    try {
+      const imported = parseThemeFile(await file.text());
+      const theme = isBuiltinTheme(imported.id) ? { ...imported, id: createThemeId() } : imported;
+      setImportError(null);
+      onSave(theme);
+      onChange(theme, { label: `Import theme ${theme.name}` });
+    } catch (error) {
+      setImportError(error instanceof Error ? error.message : 'Could not read the theme file.');
+    }
+  };
+
+  const stops = palette.background.stops;
+  const error = importError ?? storageError;
+
+  return (
+    <div>
+      <div className="flex items-start justify-between gap-4 mb-4">
+        <div>
+          <label className="block" style={{ color: 'var(--color-muted)', fontSize: '16px', fontWeight: '700' }}>
+            Theme
+          </label>
+          <p className="mt-1 text-xs" style={{ color: 'var(--color-text)', opacity: 0.6 }}>
+            Colors, glow and background used by the thumbnail and the editor. Save named themes for your channel
+            or sponsors, or share them as JSON.
+          </p>
+        </div>
+        <button
+          type="button"
+          onClick={onClose}
+          className="p-2 rounded-lg transition-all hover:opacity-80"
+          style={buttonStyle}
+          aria-label="Close theme"
+        >
+          <X className="w-4 h-4" />
+        </button>
+      </div>
+
+      <div className="flex flex-wrap items-end gap-3 mb-4">
+        <label className="flex flex-col gap-1 text-xs" style={{ color: 'var(--color-text)' }}>
+          <span style={{ opacity: 0.6 }}>Theme</span>
+          <select
+            value={isOverride ? theme.id : ''}
+            onChange={(e) => selectTheme(e.target.value)}
+            className="px-3 py-2 rounded-lg text-sm"
+            style={buttonStyle}
+          >
+            <option value="">Template default ({templateTheme.name})</option>
+            <optgroup label="Built-in">
+              {builtinThemes.map((item) => (
+                <option key={item.id} value={item.id}>
+                  {item.name}
+                </option>
+              ))}
+            </optgroup>
+            {savedThemes.length > 0 ? (
+              <optgroup label="Saved">
+                {savedThemes.map((item) => (
+                  <option key={item.id} value={item.id}>
+                    {item.name}
+                  </option>
+                ))}
+              </optgroup>
+            ) : null}
+            {isOverride && !isKnown ? <option value={theme.id}>{theme.name} (unsaved)</option> : null}
+          </select>
+        </label>
+        <label className="flex flex-col gap-1 text-xs" style={{ color: 'var(--color-text)' }}>
+          <span style={{ opacity: 0.6 }}>Name</span>
+          <input
+            type="text"
+            value={theme.name}
+            maxLength={60}
+            onChange={(e) => edit({ name: e.target.value }, { label: 'Rename theme', coalesceKey: 'theme.name' })}
+            className="px-3 py-2 rounded-lg text-sm"
+            style={buttonStyle}
+          />
+        </label>
+        <button
+          type="button"
+          onClick={saveTheme}
+          disabled={!theme.name.trim()}
+          className="flex items-center gap-2 px-3 py-2 rounded-lg text-sm transition-all hover:opacity-80 disabled:opacity-40"
+          style={buttonStyle}
+        >
+          <Save className="w-4 h-4" />
+          {isSaved ? 'Update Saved Theme' : 'Save Theme'}
+        </button>
+        {isSaved ? (
+          <button
+            type="button"
+            onClick={() => onDelete(theme.id)}
+            className="flex items-center gap-2 px-3 py-2 rounded-lg text-sm transition-all hover:opacity-80"
+            style={buttonStyle}
+            title="Remove from saved themes; the current project keeps its copy"
+          >
+            <Trash2 className="w-4 h-4" />
+            Delete
+          </button>
+        ) : null}
+        <button
+          type="button"
+          onClick={exportTheme}
+          className="flex items-center gap-2 px-3 py-2 rounded-lg text-sm transition-all hover:opacity-80"
+          style={buttonStyle}
+        >
+          <Download className="w-4 h-4" />
+          Export JSON
+        </button>
+        <label
+          className="flex items-center gap-2 px-3 py-2 rounded-lg text-sm cursor-pointer transition-all hover:opacity-80"
+          style={buttonStyle}
+        >
+          <FolderOpen className="w-4 h-4" />
+          Import JSON
+          <input type="file" accept="application/json,.json" onChange={handleImport} className="hidden" />
+        </label>
+      </div>
+
+      {error ? (
+        <p className="mb-4 text-xs" style={{ color: 'var(--color-warning)' }}>
+          {error}
+        </p>
+      ) : null}
+
+      <div className="grid gap-6 lg:grid-cols-3">
+        <div className="flex flex-col gap-3">
+          <div className="flex items-center justify-between">
+            <span style={sectionLabelStyle}>Palette</span>
+            <div className="flex gap-1">
+              {(['up', 'down'] as const).map((option) => (
+                <button
+                  key={option}
+                  type="button"
+                  onClick={() => setEditingTrend(option)}
+                  className="px-2 py-1 rounded text-xs transition-all hover:opacity-80"
+                  style={{
+                    ...buttonStyle,
+                    borderColor: editingTrend === option ? theme.trends[option].accentLight : 'var(--color-border)',
+                  }}
+                >
+                  {trendLabels[option]}
+                </button>
+              ))}
+            </div>
+          </div>
+          <div className="grid grid-cols-2 gap-3">
+            {(Object.keys(paletteColorLabels) as PaletteColor[]).map((key) => (
+              <ColorField
+                key={key}
+                label={paletteColorLabels[key]}
+                value={palette[key]}
+                onChange={(color) =>
+                  editPalette({ [key]: color }, `Edit ${paletteColorLabels[key].toLowerCase()}`, key)
+                }
+              />
+            ))}
+          </div>
+          <label className="block text-xs" style={{ color: 'var(--color-text)' }}>
+            <span className="flex justify-between">
+              <span>Glow strength</span>
+              <span>{Math.round(theme.glow * 100)}%</span>
+            </span>
+            <input
+              type="range"
+              min={MIN_GLOW * 100}
+              max={MAX_GLOW * 100}
+              step={5}
+              value={Math.round(theme.glow * 100)}
+              onChange={(e) =>
+                edit({ glow: Number(e.target.value) / 100 }, { label: 'Edit glow strength', coalesceKey: 'theme.glow' })
+              }
+              className="w-full"
+            />
+          </label>
+        </div>
+
+        <div className="flex flex-col gap-3">
+          <span style={sectionLabelStyle}>Background gradient</span>
+          <div
+            className="h-16 rounded-lg flex items-center justify-center text-xs"
+            style={{ background: toCssGradient(palette.background), border: '1px solid var(--color-border)' }}
+          >
+            <span
+              className="px-2 py-1 rounded"
+              style={{ backgroundColor: palette.accent, color: palette.onAccent, fontWeight: '700' }}
+            >
+              {trendLabels[editingTrend]}
+            </span>
+          </div>
+          <label className="block text-xs" style={{ color: 'var(--color-text)' }}>
+            <span className="flex justify-between">
+              <span>Angle</span>
+              <span>{palette.background.angle}°</span>
+            </span>
+            <input
+              type="range"
+              min={0}
+              max={359}
+              step={1}
+              value={palette.background.angle}
+              onChange={(e) =>
+                editPalette(
+                  { background: { ...palette.background, angle: Number(e.target.value) } },
+                  'Edit gradient angle',
+                  'angle'
+                )
+              }
+              className="w-full"
+            />
+          </label>
+          {stops.map((stop, index) => (
+            <div key={index} className="flex items-center gap-2 text-xs" style={{ color: 'var(--color-text)' }}>
+              <ColorField
+                label={`Stop ${index + 1}`}
+                value={stop.color}
+                onChange={(color) =>
+                  editStops(
+                    stops.map((item, itemIndex) => (itemIndex === index ? { ...item, color } : item)),
+                    'Edit gradient color',
+                    `stops.${index}.color`
+                  )
+                }
+              />
+              <input
+                type="range"
+                min={0}
+                max={100}
+                step={1}
+                value={stop.position}
+                onChange={(e) =>
+                  editStops(
+                    stops.map((item, itemIndex) =>
+                      itemIndex === index ? { ...item, position: Number(e.target.value) } : item
+                    ),
+                    'Move gradient stop',
+                    `stops.${index}.position`
+                  )
+                }
+                className="flex-1"
+                aria-label={`Stop ${index + 1} position`}
+              />
+              <span className="w-10 text-right">{stop.position}%</span>
+              <button
+                type="button"
+                onClick={() => editStops(stops.filter((_, itemIndex) => itemIndex !== index), 'Remove gradient stop')}
+                disabled={stops.length <= 2}
+                className="p-1 rounded transition-all hover:opacity-80 disabled:opacity-40"
+                style={buttonStyle}
+                aria-label={`Remove stop ${index + 1}`}
+              >
+                <Trash2 className="w-3 h-3" />
+              </button>
+            </div>
+          ))}
+          <button
+            type="button"
+            onClick={() =>
+              editStops([...stops, { color: stops[stops.length - 1].color, position: 50 }], 'Add gradient stop')
+            }
+            disabled={stops.length >= MAX_GRADIENT_STOPS}
+            className="self-start flex items-center gap-1 px-3 py-1 rounded text-xs transition-all hover:opacity-80 disabled:opacity-40"
+            style={buttonStyle}
+          >
+            <Plus className="w-3 h-3" />
+            Add stop
+          </button>
+        </div>
+
+        <div className="flex flex-col gap-3">
+          <span style={sectionLabelStyle}>Editor colors</span>
+          <div className="grid grid-cols-2 gap-3">
+            {chromeFields.map((field) => (
+              <ColorField
+                key={field.key}
+                label={field.label}
+                value={theme.chrome[field.key]}
+                onChange={(color) =>
+                  edit(
+                    { chrome: { ...theme.chrome, [field.key]: color } },
+                    { label: 'Edit editor colors', coalesceKey: `theme.chrome.${field.key}` }
+                  )
+                }
+              />
+            ))}
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
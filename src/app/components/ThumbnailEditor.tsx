@@ -1,720 +1,1749 @@
-import React, { useMemo, useRef, useState } from 'react';
-import html2canvas from 'html2canvas';
-import { toJpeg, toPng } from 'html-to-image';
-import { YoutubeThumbnail } from './YoutubeThumbnail';
-import { YoutubeThumbnailImpact } from './YoutubeThumbnailImpact';
-import { Upload, Download, RefreshCw, ArrowUp, ArrowDown } from 'lucide-react';
-
-type TrendDirection = 'up' | 'down';
-type TemplateVariant = 'classic' | 'impact';
-
-type ExportFormat = 'png' | 'jpeg';
-
-type TrendPalette = {
-  accent: string;
-  accentSoft: string;
-  accentLight: string;
-};
+import React, { useCallback, useEffect, useMemo, useRef, useState } from 'react';
+import { zipSync } from 'fflate';
+import { PriceHistoryInput } from './PriceHistoryInput';
+import { PriceImportPanel } from './PriceImportPanel';
+import { FieldPanel } from './FieldPanel';
+import { LibraryPanel } from './LibraryPanel';
+import { HistoryPanel } from './HistoryPanel';
+import { BatchPanel } from './BatchPanel';
+import { FilenamePatternInput } from './FilenamePatternInput';
+import { ThumbnailFrame } from './ThumbnailFrame';
+import { CaptureStage } from './CaptureStage';
+import { CardCropEditor } from './CardCropEditor';
+import { ExportProgress } from './ExportProgress';
+import { ExportReportPanel } from './ExportReportPanel';
+import { ThemePanel } from './ThemePanel';
+import { LegibilityPanel } from './LegibilityPanel';
+import { FeedPreviewPanel } from './FeedPreviewPanel';
+import { SafeZoneOverlay, SafeZoneToggles } from './SafeZoneGuides';
+import type { ThumbnailFrameProps } from './ThumbnailFrame';
+import {
+  Download,
+  RefreshCw,
+  Save,
+  FolderOpen,
+  ArrowUp,
+  ArrowDown,
+  FileSpreadsheet,
+  AlertTriangle,
+  Library,
+  Undo2,
+  Redo2,
+  History,
+  Layers,
+  Package,
+  Copy,
+  Activity,
+  Palette,
+  MonitorPlay,
+} from 'lucide-react';
+import { format as formatDate } from 'date-fns';
+import { toast } from 'sonner';
+import type { ExportFormat, ExportRenderer, ImageCrop, PricePoint, TrendDirection } from '../types';
+import { detectTrend } from '../lib/price-history';
+import { formatPercent, parseMoney } from '../lib/currency';
+import { analyzePriceChange, findPriceMismatches } from '../lib/price-math';
+import { fillMissingContent, getTemplate, templates } from '../templates/registry';
+import {
+  createDefaultProject,
+  parseProjectFile,
+  serializeProject,
+  type ExportSettings,
+  type ProjectState,
+} from '../lib/project';
+import { deriveHeadlineValues, parseImportFile, type ImportTable } from '../lib/price-import';
+import {
+  blobToDataUrl,
+  canCopyImages,
+  captureThumbnail,
+  copyImageToClipboard,
+  downloadBlob,
+  downloadDataUrl,
+  exportFormats,
+  exportRenderers,
+  formatFileSize,
+  isFormatSupported,
+  isRemoteUrl,
+  prepareImageForCapture,
+  resolveDisplayImage,
+  resolveImageForCapture,
+  runExportStage,
+  waitForFonts,
+  type EncodeOptions,
+  type ExportControl,
+} from '../lib/export';
+import { useExportEstimate } from '../hooks/use-export-estimate';
+import { useExportJobs } from '../hooks/use-export-jobs';
+import { buildFilenameTokens, fileExtension, renderFilename, uniqueFilename } from '../lib/filename';
+import {
+  exportScales,
+  formatOutputSize,
+  getDesignSize,
+  getOutputSize,
+  getPixelRatio,
+  MAX_CUSTOM_WIDTH,
+  MIN_CUSTOM_WIDTH,
+  outputSizes,
+  scaleOutputSize,
+  type OutputSize,
+} from '../lib/output-sizes';
+import { useCaptureStage } from '../hooks/use-capture-stage';
+import { useSourceResolution } from '../hooks/use-source-resolution';
+import { defaultImageCrop } from '../lib/image-crop';
+import { DEFAULT_PROXY_ENDPOINT, imageProxyKinds, type ImageProxyKind } from '../lib/image-proxy';
+import { hasImageInput, readImageInput, validateImageFile, type ImageInput } from '../lib/image-input';
+import { useProjectLibrary, type LibraryStatus } from '../hooks/use-project-library';
+import { useProjectHistory, type HistoryOptions } from '../hooks/use-project-history';
+import { useSavedThemes } from '../hooks/use-saved-themes';
+import { useLegibility } from '../hooks/use-legibility';
+import { useCompetitorThumbnails } from '../hooks/use-competitor-thumbnails';
+import { useZoneOverlaps } from '../hooks/use-zone-overlaps';
+import { chromeVariables, getBuiltinTheme, paletteColorLabels, setPaletteColor, type Theme } from '../lib/theme';
+import { FEED_WIDTH, type PaletteFix } from '../lib/legibility';
+import type { FeedDetails } from '../lib/feed-preview';
+import { reservedZoneMessages, type GuideId } from '../lib/safe-zones';
 
-const trendPalette: Record<TrendDirection, TrendPalette> = {
-  up: {
-    accent: '#aa781d',
-    accentSoft: '#4c402b',
-    accentLight: '#eed093',
-  },
-  down: {
-    accent: '#b42318',
-    accentSoft: '#5f1b15',
-    accentLight: '#ffb4a2',
-  },
+const describeLibraryStatus = (status: LibraryStatus, lastSavedAt: number | null) => {
+  switch (status) {
+    case 'loading':
+      return 'Opening library...';
+    case 'saving':
+      return 'Saving...';
+    case 'error':
+      return 'Autosave failed';
+    case 'unavailable':
+      return 'Autosave unavailable';
+    default:
+      return lastSavedAt ? `All changes saved at ${formatDate(lastSavedAt, 'HH:mm')}` : 'Not saved yet';
+  }
 };
 
-const isDataUrl = (value: string) => value.startsWith('data:') || value.startsWith('blob:');
-const isRemoteUrl = (value: string) => /^https?:\/\//i.test(value);
-const isProxyUrl = (value: string) =>
-  value.includes('images.weserv.nl/?url=') || value.includes('wsrv.nl/?url=');
+// Tall sizes are shown scaled down so the preview fits on screen; exports stay at full size.
+const PREVIEW_MAX_HEIGHT = 720;
 
-const buildProxyUrl = (value: string) => {
-  const stripped = value.replace(/^https?:\/\//i, '');
-  return `https://images.weserv.nl/?url=${encodeURIComponent(stripped)}`;
+const toolbarButtonStyle: React.CSSProperties = {
+  backgroundColor: 'var(--color-surface-2)',
+  border: '2px solid var(--color-border)',
+  color: 'var(--color-text)',
 };
 
-const blobToDataUrl = (blob: Blob) =>
-  new Promise<string>((resolve, reject) => {
-    const reader = new FileReader();
-    reader.onload = () => resolve(reader.result as string);
-    reader.onerror = () => reject(reader.error);
-    reader.readAsDataURL(blob);
-  });
+type PendingPriceImport = {
+  table: ImportTable;
+  filename: string;
+};
 
-const waitForImages = async (root: HTMLElement) => {
-  const images = Array.from(root.querySelectorAll('img'));
-  if (images.length === 0) {
-    return;
-  }
+export function ThumbnailEditor() {
+  const history = useProjectHistory(createDefaultProject);
+  const { project, update, undo, redo, reset: resetHistory } = history;
+  const [priceImport, setPriceImport] = useState<PendingPriceImport | null>(null);
+  const [priceImportError, setPriceImportError] = useState<string | null>(null);
+  const [embedImageOnSave, setEmbedImageOnSave] = useState(true);
+  const [isSavingProject, setIsSavingProject] = useState(false);
+  const [projectError, setProjectError] = useState<string | null>(null);
+  const [downloadWarning, setDownloadWarning] = useState<string | null>(null);
+  const [isLibraryOpen, setIsLibraryOpen] = useState(false);
+  const [isHistoryOpen, setIsHistoryOpen] = useState(false);
+  const [isBatchOpen, setIsBatchOpen] = useState(false);
+  const { jobs: stageJobs, stageRef, runStaged } = useCaptureStage();
+  const [customWidthDraft, setCustomWidthDraft] = useState<string | null>(null);
+  const [isCopying, setIsCopying] = useState(false);
+  const [isReportOpen, setIsReportOpen] = useState(false);
+  const [isThemeOpen, setIsThemeOpen] = useState(false);
+  const savedThemes = useSavedThemes();
+  const [isFeedOpen, setIsFeedOpen] = useState(false);
+  const competitors = useCompetitorThumbnails();
+  const [shownGuides, setShownGuides] = useState<GuideId[]>([]);
+  const exportJobs = useExportJobs(() => setIsReportOpen(true));
+  const reportFramesRef = useRef<{ id: number; frames: Record<string, ThumbnailFrameProps> } | null>(null);
+  const exportActionsRef = useRef({ download: () => {}, copy: () => {}, exportAll: () => {} });
+  const [imageInputError, setImageInputError] = useState<string | null>(null);
+  const [dropTarget, setDropTarget] = useState<'editor' | 'preview' | null>(null);
+  const dragDepthRef = useRef(0);
+  const previewBoxRef = useRef<HTMLDivElement>(null);
+  const applyImageInputRef = useRef<(input: ImageInput) => void>(() => undefined);
+  const previewRef = useRef<HTMLDivElement>(null);
+  const loadProject = useCallback((loaded: ProjectState) => resetHistory(loaded, 'Open project'), [resetHistory]);
+  const library = useProjectLibrary({ project, loadProject, previewRef });
+
+  useEffect(() => {
+    const handleKeyDown = (event: KeyboardEvent) => {
+      if (event.code === 'KeyC' && event.altKey && event.shiftKey && !event.ctrlKey && !event.metaKey) {
+        event.preventDefault();
+        exportActionsRef.current.copy();
+        return;
+      }
+      if (!(event.ctrlKey || event.metaKey) || event.altKey) {
+        return;
+      }
+      const key = event.key.toLowerCase();
+      if (key === 'z') {
+        event.preventDefault();
+        if (event.shiftKey) {
+          redo();
+        } else {
+          undo();
+        }
+      } else if (key === 'y' && !event.shiftKey) {
+        event.preventDefault();
+        redo();
+      }
+    };
+
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [undo, redo]);
 
-  await Promise.all(
-    images.map((img) =>
-      img.complete && img.naturalWidth
-        ? Promise.resolve()
-        : new Promise<void>((resolve) => {
-            const done = () => {
-              img.removeEventListener('load', done);
-              img.removeEventListener('error', done);
-              resolve();
-            };
-            img.addEventListener('load', done);
-            img.addEventListener('error', done);
-          })
-    )
+  useEffect(() => {
+    const handlePaste = (event: ClipboardEvent) => {
+      const input = event.clipboardData ? readImageInput(event.clipboardData) : null;
+      const target = event.target as HTMLElement | null;
+      const isEditable =
+        target instanceof HTMLInputElement || target instanceof HTMLTextAreaElement || Boolean(target?.isContentEditable);
+      // Pasted URLs belong to whatever text field has focus; only image data always becomes the card.
+      if (!input || (input.kind === 'url' && isEditable)) {
+        return;
+      }
+      event.preventDefault();
+      applyImageInputRef.current(input);
+    };
+
+    window.addEventListener('paste', handlePaste);
+    return () => window.removeEventListener('paste', handlePaste);
+  }, []);
+
+  const {
+    templateId,
+    trend,
+    autoTrend,
+    manualChange,
+    values: content,
+    imageCrop,
+    priceHistory,
+    exportSettings,
+    theme: themeOverride,
+  } = project;
+  const {
+    format: exportFormat,
+    proxy,
+    filenamePattern,
+    quality,
+    fitToBudget,
+    sizeId,
+    scale: exportScale,
+    customWidth,
+    renderer,
+  } = exportSettings;
+  const template = getTemplate(templateId);
+  const outputSize = getOutputSize(sizeId);
+  const previewScale = Math.min(1, PREVIEW_MAX_HEIGHT / outputSize.height);
+  const pixelRatio = getPixelRatio(outputSize, exportScale, customWidth);
+  const exportPixels = scaleOutputSize(outputSize, pixelRatio);
+  const encodeOptions = useMemo(
+    () => ({ format: exportFormat, quality, fitToBudget, pixelRatio, renderer }),
+    [exportFormat, quality, fitToBudget, pixelRatio, renderer]
   );
-};
+  const { cardImage, beforePrice, price, changePercent } = content;
+  const priceChange = useMemo(() => analyzePriceChange(beforePrice, price), [beforePrice, price]);
+  const displayChangePercent =
+    !manualChange && priceChange.changePercent !== null ? formatPercent(priceChange.changePercent) : changePercent;
+  const detectedTrend = autoTrend ? priceChange.trend ?? detectTrend(priceHistory, trend) : trend;
+  const activeTrend = template.trends.includes(detectedTrend) ? detectedTrend : template.trends[0];
+  const priceMismatches = findPriceMismatches(priceChange, {
+    beforePrice,
+    price,
+    changePercent: manualChange ? changePercent : null,
+    trend: activeTrend,
+  });
+  const activeTheme = themeOverride ?? getBuiltinTheme(template.defaultThemeId);
+  const currentPalette = activeTheme.trends[activeTrend];
 
-const prepareImageForCapture = async (value: string, proxyEnabled: boolean) => {
-  const trimmed = value.trim();
-  if (!trimmed || isDataUrl(trimmed) || trimmed.startsWith('blob:')) {
-    return trimmed;
-  }
+  useEffect(() => {
+    const root = document.documentElement;
+    Object.entries(chromeVariables(activeTheme.chrome)).forEach(([name, value]) =>
+      root.style.setProperty(name, value)
+    );
+  }, [activeTheme.chrome]);
 
-  if (!isRemoteUrl(trimmed)) {
-    return trimmed;
-  }
+  const filenameTokens = buildFilenameTokens({
+    values: content,
+    trend: activeTrend,
+    templateId: template.id,
+    format: exportFormat,
+    sizeId: outputSize.id,
+    changePercent: displayChangePercent,
+  });
+  const displayCardImage = useMemo(() => resolveDisplayImage(cardImage, proxy), [cardImage, proxy]);
+  const previewValues = useMemo(
+    () => ({ ...content, cardImage: displayCardImage, changePercent: displayChangePercent }),
+    [content, displayCardImage, displayChangePercent]
+  );
+  const previewRevision = useMemo(
+    () =>
+      JSON.stringify([template.id, outputSize.id, activeTrend, previewValues, imageCrop, priceHistory, activeTheme]),
+    [template.id, outputSize.id, activeTrend, previewValues, imageCrop, priceHistory, activeTheme]
+  );
+  const estimate = useExportEstimate(previewRef, encodeOptions, previewRevision);
+  const sourceResolution = useSourceResolution(
+    previewRef,
+    (outputSize.width / getDesignSize(outputSize).width) * pixelRatio * imageCrop.zoom,
+    previewRevision
+  );
+  const legibility = useLegibility(previewRef, FEED_WIDTH / getDesignSize(outputSize).width, previewRevision);
+  const zoneOverlaps = useZoneOverlaps(previewRef, previewRevision);
+  const sourceUpscale = sourceResolution
+    ? Math.max(
+        sourceResolution.requiredWidth / sourceResolution.naturalWidth,
+        sourceResolution.requiredHeight / sourceResolution.naturalHeight
+      )
+    : 1;
+  const isLossyFormat = exportFormats[exportFormat].lossy;
 
-  const candidateUrls = proxyEnabled ? [buildProxyUrl(trimmed), trimmed] : [trimmed];
+  const updateProject = (patch: Partial<ProjectState>, options: HistoryOptions) => {
+    update((current) => ({ ...current, ...patch }), options);
+  };
 
-  for (const candidate of candidateUrls) {
-    try {
-      const response = await fetch(candidate, { mode: 'cors' });
-      if (!response.ok) {
-        continue;
+  const updateContent = (key: string, value: string, options?: Partial<HistoryOptions>) => {
+    const field = template.fields.find((item) => item.key === key);
+    const isTyped = field !== undefined && field.type !== 'image' && field.type !== 'enum';
+    // A new card image starts uncropped.
+    const resetsCrop = key === 'cardImage';
+    update(
+      (current) => ({
+        ...current,
+        values: { ...current.values, [key]: value },
+        imageCrop: resetsCrop ? defaultImageCrop : current.imageCrop,
+      }),
+      {
+        label: `Edit ${field?.label ?? key}`,
+        coalesceKey: isTyped ? `values.${key}` : undefined,
+        boundary: /\s$/.test(value),
+        ...options,
       }
-      const blob = await response.blob();
-      return await blobToDataUrl(blob);
-    } catch (error) {
-      continue;
-    }
-  }
+    );
+  };
 
-  return trimmed;
-};
+  const updateImageCrop = (crop: ImageCrop, done: boolean) =>
+    update((current) => ({ ...current, imageCrop: crop }), {
+      label: 'Crop card image',
+      coalesceKey: 'imageCrop',
+      boundary: done,
+    });
 
-const downloadDataUrl = (dataUrl: string, filename: string) => {
-  const link = document.createElement('a');
-  link.download = filename;
-  link.href = dataUrl;
-  link.click();
-};
+  const updateExportSettings = (patch: Partial<ExportSettings>, options: HistoryOptions) => {
+    update((current) => ({ ...current, exportSettings: { ...current.exportSettings, ...patch } }), options);
+  };
 
-const exportWithHtmlToImage = async (node: HTMLElement, format: ExportFormat) => {
-  const options = {
-    cacheBust: true,
-    pixelRatio: 1,
-    width: 1280,
-    height: 720,
-    backgroundColor: null as string | null,
-    fetchRequestInit: {
-      mode: 'cors' as RequestMode,
-      cache: 'no-cache' as RequestCache,
-    },
+  const updateTheme = (theme: Theme | null, options: HistoryOptions) =>
+    update((current) => ({ ...current, theme }), options);
+
+  const updateFeedDetails = (patch: Partial<FeedDetails>) => {
+    const [key] = Object.keys(patch);
+    update((current) => ({ ...current, feed: { ...current.feed, ...patch } }), {
+      label: 'Edit feed preview details',
+      coalesceKey: `feed.${key}`,
+    });
   };
 
-  if (format === 'jpeg') {
-    return toJpeg(node, { ...options, quality: 0.92 });
-  }
+  const toggleGuide = (guide: GuideId) =>
+    setShownGuides((current) =>
+      current.includes(guide) ? current.filter((item) => item !== guide) : [...current, guide]
+    );
 
-  return toPng(node, options);
-};
+  const applyLegibilityFix = (fix: PaletteFix) =>
+    updateTheme(setPaletteColor(activeTheme, activeTrend, fix.role, fix.color), {
+      label: `Raise contrast of ${paletteColorLabels[fix.role].toLowerCase()}`,
+    });
 
-const exportWithHtml2Canvas = async (node: HTMLElement, format: ExportFormat) => {
-  const canvas = await html2canvas(node, {
-    backgroundColor: null,
-    useCORS: true,
-    scale: 1,
-    width: 1280,
-    height: 720,
-  });
+  const changeFilenamePattern = (pattern: string) =>
+    updateExportSettings({ filenamePattern: pattern }, { label: 'Edit file name', coalesceKey: 'filenamePattern' });
 
-  const mimeType = format === 'jpeg' ? 'image/jpeg' : 'image/png';
-  const quality = format === 'jpeg' ? 0.92 : undefined;
+  const commitCustomWidth = () => {
+    if (customWidthDraft === null) {
+      return;
+    }
+    const parsed = Math.round(Number(customWidthDraft));
+    setCustomWidthDraft(null);
+    if (!Number.isFinite(parsed) || parsed <= 0) {
+      return;
+    }
+    const width = Math.min(MAX_CUSTOM_WIDTH, Math.max(MIN_CUSTOM_WIDTH, parsed));
+    updateExportSettings({ customWidth: width }, { label: `Export at ${width}px wide` });
+  };
 
-  if (canvas.toBlob) {
-    const blob = await new Promise<Blob | null>((resolve) => canvas.toBlob(resolve, mimeType, quality));
-    if (blob) {
-      return await blobToDataUrl(blob);
+  const selectTemplate = (id: string) => {
+    const next = getTemplate(id);
+    update(
+      (current) => ({
+        ...current,
+        templateId: next.id,
+        values: fillMissingContent(current.values, next),
+      }),
+      { label: `Switch to ${next.name}` }
+    );
+  };
+
+  const loadImageFile = (key: string, file: File) => {
+    const error = validateImageFile(file);
+    setImageInputError(error);
+    if (error) {
+      return;
     }
-  }
+    const reader = new FileReader();
+    reader.onload = (event) => {
+      if (event.target?.result) {
+        updateContent(key, event.target.result as string);
+      }
+    };
+    reader.readAsDataURL(file);
+  };
 
-  return canvas.toDataURL(mimeType, quality);
-};
+  const handleImageUpload = (key: string, e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (file) {
+      loadImageFile(key, file);
+    }
+  };
 
-const formatFilename = (trend: TrendDirection, format: ExportFormat, template: TemplateVariant) =>
-  `pokemon-thumbnail-${template}-${trend}.${format === 'jpeg' ? 'jpg' : 'png'}`;
+  const applyImageInput = (input: ImageInput) => {
+    if (input.kind === 'file') {
+      loadImageFile('cardImage', input.file);
+    } else {
+      setImageInputError(null);
+      updateContent('cardImage', input.url);
+    }
+  };
+  applyImageInputRef.current = applyImageInput;
 
-export function ThumbnailEditor() {
-  const [trend, setTrend] = useState<TrendDirection>('up');
-  const [template, setTemplate] = useState<TemplateVariant>('classic');
-  const [cardImage, setCardImage] = useState(
-    'https://images.unsplash.com/photo-1606502281004-f86cf1282af5?w=400&h=600&fit=crop'
-  );
-  const [title, setTitle] = useState('WEEKLY PRICE SHOCK');
-  const [subtitle, setSubtitle] = useState('POKEMON CARD WATCH');
-  const [price, setPrice] = useState('$1,250');
-  const [beforePrice, setBeforePrice] = useState('$100');
-  const [changePercent, setChangePercent] = useState('375');
-  const [timeframe, setTimeframe] = useState('IN 7 DAYS');
-  const [useProxy, setUseProxy] = useState(true);
-  const [exportFormat, setExportFormat] = useState<ExportFormat>('png');
-  const [isDownloading, setIsDownloading] = useState(false);
-  const previewRef = useRef<HTMLDivElement>(null);
+  const handleDragEnter = (e: React.DragEvent<HTMLDivElement>) => {
+    if (hasImageInput(e.dataTransfer)) {
+      dragDepthRef.current += 1;
+    }
+  };
+
+  const handleDragOver = (e: React.DragEvent<HTMLDivElement>) => {
+    if (!hasImageInput(e.dataTransfer)) {
+      return;
+    }
+    // Drop zones inside the editor take their own files.
+    if ((e.target as Element).closest('[data-drop-zone]')) {
+      setDropTarget(null);
+      return;
+    }
+    e.preventDefault();
+    e.dataTransfer.dropEffect = 'copy';
+    setDropTarget(previewBoxRef.current?.contains(e.target as Node) ? 'preview' : 'editor');
+  };
 
-  const currentPalette = trendPalette[trend];
+  const handleDragLeave = (e: React.DragEvent<HTMLDivElement>) => {
+    if (!hasImageInput(e.dataTransfer)) {
+      return;
+    }
+    dragDepthRef.current = Math.max(0, dragDepthRef.current - 1);
+    if (dragDepthRef.current === 0) {
+      setDropTarget(null);
+    }
+  };
 
-  const displayCardImage = useMemo(() => {
-    const trimmed = cardImage.trim();
-    if (!trimmed) {
-      return trimmed;
+  const handleDrop = (e: React.DragEvent<HTMLDivElement>) => {
+    if (!hasImageInput(e.dataTransfer)) {
+      return;
     }
-    if (!useProxy || isDataUrl(trimmed) || isProxyUrl(trimmed)) {
-      return trimmed;
+    dragDepthRef.current = 0;
+    setDropTarget(null);
+    if ((e.target as Element).closest('[data-drop-zone]')) {
+      return;
     }
-    if (isRemoteUrl(trimmed)) {
-      return buildProxyUrl(trimmed);
+    e.preventDefault();
+    const input = readImageInput(e.dataTransfer);
+    if (input) {
+      applyImageInput(input);
+    } else {
+      setImageInputError('Drop an image file or an image link.');
     }
-    return trimmed;
-  }, [cardImage, useProxy]);
+  };
 
-  const handleImageUpload = (e: React.ChangeEvent<HTMLInputElement>) => {
+  const handlePriceFileImport = (file: File) => {
+    const reader = new FileReader();
+    reader.onload = (event) => {
+      try {
+        const table = parseImportFile(String(event.target?.result ?? ''), file.name);
+        setPriceImport({ table, filename: file.name });
+        setPriceImportError(null);
+      } catch (error) {
+        setPriceImport(null);
+        setPriceImportError(error instanceof Error ? error.message : 'Could not read the file.');
+      }
+    };
+    reader.readAsText(file);
+  };
+
+  const handlePriceFileInput = (e: React.ChangeEvent<HTMLInputElement>) => {
     const file = e.target.files?.[0];
     if (file) {
-      const reader = new FileReader();
-      reader.onload = (event) => {
-        if (event.target?.result) {
-          setCardImage(event.target.result as string);
-        }
-      };
-      reader.readAsDataURL(file);
+      handlePriceFileImport(file);
+    }
+    e.target.value = '';
+  };
+
+  const applyPriceImport = (points: PricePoint[], symbol: string) => {
+    const headline = deriveHeadlineValues(points, symbol);
+    update(
+      (current) => ({
+        ...current,
+        priceHistory: points,
+        autoTrend: true,
+        manualChange: false,
+        values: headline ? { ...current.values, ...headline } : current.values,
+      }),
+      { label: 'Import price history' }
+    );
+    setPriceImport(null);
+  };
+
+  // Renders a snapshot of the project offscreen with the card image resolved for capture, so the live
+  // preview and editor state are never touched and edits made meanwhile are kept.
+  const captureSnapshot = async <T,>(
+    sizes: OutputSize[],
+    control: ExportControl,
+    run: (nodes: HTMLElement[]) => Promise<T>
+  ) => {
+    const snapshot = {
+      template,
+      theme: activeTheme,
+      trend: activeTrend,
+      priceHistory,
+      crop: imageCrop,
+      values: previewValues,
+    };
+    if (control.report) {
+      const frames = Object.fromEntries(sizes.map((size) => [size.id, { ...snapshot, size }]));
+      reportFramesRef.current = { id: control.report.id, frames };
     }
+    await waitForFonts(control);
+    const prepared = await runExportStage(
+      'images',
+      () => resolveImageForCapture(cardImage, proxy, control.signal),
+      control
+    );
+    control.report?.sources.push(prepared.report);
+    const values = { ...snapshot.values, cardImage: prepared.src || snapshot.values.cardImage };
+    control.onStage?.('render');
+    return runStaged(
+      sizes.map((size) => ({ ...snapshot, values, size, key: size.id })),
+      run
+    );
   };
 
-  const downloadThumbnail = async () => {
-    if (!previewRef.current || isDownloading) {
+  const imageHint = 'Enable the image proxy or upload the image instead of using a URL.';
+
+  const downloadThumbnail = () => {
+    const filename = `${renderFilename(filenamePattern, filenameTokens)}.${fileExtension(exportFormat)}`;
+    return exportJobs.run(
+      'Download',
+      async (control) => {
+        const encoded = await captureSnapshot([outputSize], control, ([node]) =>
+          captureThumbnail(node, encodeOptions, control)
+        );
+        downloadBlob(encoded.blob, filename);
+        setDownloadWarning(
+          encoded.overBudget
+            ? `The file is ${formatFileSize(encoded.blob.size)}, over YouTube's 2 MB limit. Try JPG or WebP with auto-fit.`
+            : null
+        );
+      },
+      { retry: () => exportActionsRef.current.download(), hint: imageHint }
+    );
+  };
+
+  const copyThumbnail = () => {
+    if (isCopying) {
+      return;
+    }
+    if (!canCopyImages()) {
+      toast.error("This browser can't copy images.", { description: 'Use Download instead.' });
       return;
     }
 
-    setIsDownloading(true);
+    setIsCopying(true);
+    return exportJobs.run(
+      'Copy',
+      async (control) => {
+        try {
+          // Clipboards only take PNG, so the copy ignores the export format but keeps the resolution.
+          const pngOptions: EncodeOptions = { format: 'png', quality: 1, fitToBudget: false, pixelRatio };
+          const blob = captureSnapshot([outputSize], control, ([node]) =>
+            captureThumbnail(node, pngOptions, control)
+          ).then((encoded) => encoded.blob);
+          try {
+            await copyImageToClipboard(blob);
+          } catch (error) {
+            // Surface the capture failure rather than the clipboard's generic rejection of it.
+            await blob;
+            throw error instanceof DOMException && error.name === 'NotAllowedError'
+              ? new Error('The browser blocked clipboard access. Allow it for this site or use Download.')
+              : error;
+          }
+          toast.success('Copied the thumbnail as PNG.');
+        } finally {
+          setIsCopying(false);
+        }
+      },
+      { retry: () => exportActionsRef.current.copy(), hint: imageHint }
+    );
+  };
 
-    const originalImage = cardImage;
-    let shouldRestore = false;
+  const exportAllSizes = () => {
+    const pattern = filenamePattern.includes('{size}') ? filenamePattern : `${filenamePattern}-{size}`;
+    const extension = fileExtension(exportFormat);
+    const tokens = filenameTokens;
+    return exportJobs.run(
+      'Export all sizes',
+      async (control) => {
+        const files: Record<string, Uint8Array> = {};
+        const taken = new Set<string>();
+        const overBudget: string[] = [];
+        await captureSnapshot(outputSizes, control, async (nodes) => {
+          for (let index = 0; index < outputSizes.length; index += 1) {
+            const size = outputSizes[index];
+            const encoded = await captureThumbnail(nodes[index], encodeOptions, control);
+            const name = renderFilename(pattern, { ...tokens, size: size.id });
+            files[uniqueFilename(name, extension, taken)] = new Uint8Array(await encoded.blob.arrayBuffer());
+            if (encoded.overBudget) {
+              overBudget.push(size.name);
+            }
+          }
+        });
 
-    try {
-      if (document.fonts && document.fonts.ready) {
-        await document.fonts.ready;
-      }
+        const archive = zipSync(files, { level: 0 });
+        const archiveName = renderFilename(filenamePattern, { ...tokens, size: 'all-sizes' });
+        downloadBlob(new Blob([archive as BlobPart], { type: 'application/zip' }), `${archiveName}.zip`);
+        setDownloadWarning(
+          overBudget.length > 0 ? `Over the 2 MB limit: ${overBudget.join(', ')}. Try JPG or WebP with auto-fit.` : null
+        );
+      },
+      { retry: () => exportActionsRef.current.exportAll(), hint: imageHint }
+    );
+  };
+  exportActionsRef.current = { download: downloadThumbnail, copy: copyThumbnail, exportAll: exportAllSizes };
 
-      const preparedImage = await prepareImageForCapture(cardImage, useProxy);
-      if (preparedImage && preparedImage !== cardImage) {
-        setCardImage(preparedImage);
-        shouldRestore = true;
-        await new Promise<void>((resolve) => requestAnimationFrame(() => resolve()));
-      }
+  const toggleManualChange = (enabled: boolean) => {
+    update(
+      (current) => ({
+        ...current,
+        manualChange: enabled,
+        values: enabled ? { ...current.values, changePercent: displayChangePercent } : current.values,
+      }),
+      { label: enabled ? 'Override change percent' : 'Compute change percent' }
+    );
+  };
 
-      if (previewRef.current) {
-        await waitForImages(previewRef.current);
-      }
+  const fieldWarnings: Partial<Record<string, string[]>> = {};
+  priceMismatches.forEach((mismatch) => {
+    fieldWarnings[mismatch.field] = [...(fieldWarnings[mismatch.field] ?? []), mismatch.message];
+  });
+  if (imageInputError) {
+    fieldWarnings.cardImage = [...(fieldWarnings.cardImage ?? []), imageInputError];
+  }
+  zoneOverlaps.forEach((overlap) => {
+    fieldWarnings[overlap.slot] = [...(fieldWarnings[overlap.slot] ?? []), reservedZoneMessages[overlap.zone]];
+  });
+  legibility?.forEach((check) => {
+    if (check.level !== 'ok') {
+      fieldWarnings[check.slot] = [...(fieldWarnings[check.slot] ?? []), ...check.issues];
+    }
+  });
+
+  const fieldAddons: Partial<Record<string, React.ReactNode>> = {
+    cardImage: (
+      <>
+        {displayCardImage ? (
+          <CardCropEditor src={displayCardImage} crop={imageCrop} onChange={updateImageCrop} />
+        ) : null}
+        <label className="mt-3 flex items-center gap-2 text-xs" style={{ color: 'var(--color-text)', opacity: 0.75 }}>
+          Image proxy for URL images
+          <select
+            value={proxy.kind}
+            onChange={(e) => {
+              const kind = e.target.value as ImageProxyKind;
+              updateExportSettings(
+                { proxy: { ...proxy, kind } },
+                { label: `Use ${imageProxyKinds[kind].label} image proxy` }
+              );
+            }}
+            className="flex-1 px-2 py-1 rounded text-xs"
+            style={{
+              backgroundColor: 'var(--color-surface-2)',
+              border: '1px solid var(--color-border)',
+              color: 'var(--color-text)',
+            }}
+          >
+            {(Object.keys(imageProxyKinds) as ImageProxyKind[]).map((kind) => (
+              <option key={kind} value={kind}>
+                {imageProxyKinds[kind].label}
+              </option>
+            ))}
+          </select>
+        </label>
+        {proxy.kind === 'self-hosted' ? (
+          <input
+            type="text"
+            value={proxy.endpoint}
+            onChange={(e) =>
+              updateExportSettings(
+                { proxy: { ...proxy, endpoint: e.target.value } },
+                { label: 'Edit proxy endpoint', coalesceKey: 'proxy.endpoint' }
+              )
+            }
+            placeholder={DEFAULT_PROXY_ENDPOINT}
+            aria-label="Proxy endpoint"
+            spellCheck={false}
+            className="mt-2 w-full px-3 py-2 rounded-lg text-xs"
+            style={{
+              backgroundColor: 'var(--color-surface-2)',
+              border: '1px solid var(--color-border)',
+              color: 'var(--color-text)',
+            }}
+          />
+        ) : null}
+        <p className="mt-1 text-xs" style={{ color: 'var(--color-text)', opacity: 0.6 }}>
+          {imageProxyKinds[proxy.kind].description}
+        </p>
+        <p className="mt-2 text-xs" style={{ color: 'var(--color-text)', opacity: 0.6 }}>
+          Uploading a file avoids CORS issues during download. You can also drop an image anywhere on the page or
+          paste one with Ctrl/Cmd+V.
+        </p>
+        <label
+          className="mt-3 flex items-center justify-center gap-2 px-4 py-3 rounded-lg cursor-pointer transition-all hover:opacity-80"
+          style={{
+            backgroundColor: 'var(--color-surface-2)',
+            border: '2px solid var(--color-border)',
+            color: 'var(--color-text)',
+          }}
+        >
+          <FileSpreadsheet className="w-5 h-5" />
+          <span style={{ fontWeight: '600' }}>Import Prices</span>
+          <input
+            type="file"
+            accept=".csv,.json,.txt,text/csv,application/json"
+            onChange={handlePriceFileInput}
+            className="hidden"
+          />
+        </label>
+        {priceImportError ? (
+          <p className="mt-2 text-xs" style={{ color: 'var(--color-warning)' }}>
+            {priceImportError}
+          </p>
+        ) : null}
+      </>
+    ),
+    changePercent: (
+      <>
+        <label
+          className="mt-3 flex items-center gap-2 text-xs"
+          style={{ color: 'var(--color-text)', opacity: 0.75 }}
+        >
+          <input
+            type="checkbox"
+            checked={manualChange}
+            onChange={(e) => toggleManualChange(e.target.checked)}
+          />
+          Override the computed value.
+        </label>
+        <p className="mt-2 text-xs" style={{ color: 'var(--color-text)', opacity: 0.6 }}>
+          {manualChange
+            ? 'Enter the number without the plus or minus sign.'
+            : 'Calculated from Before Price and Price Tag.'}
+        </p>
+      </>
+    ),
+  };
 
-      const filename = formatFilename(trend, exportFormat, template);
+  const saveProject = async () => {
+    if (isSavingProject) {
+      return;
+    }
 
-      try {
-        const dataUrl = await exportWithHtmlToImage(previewRef.current, exportFormat);
-        downloadDataUrl(dataUrl, filename);
-        return;
-      } catch (error) {
-        console.warn('html-to-image export failed, falling back to html2canvas', error);
+    setIsSavingProject(true);
+    setProjectError(null);
+
+    // Same time limit as an export's image step; aborting afterwards stops any fetch still running.
+    const controller = new AbortController();
+    try {
+      let snapshot = project;
+      if (embedImageOnSave && isRemoteUrl(cardImage.trim())) {
+        const embeddedImage = await runExportStage(
+          'images',
+          () => prepareImageForCapture(cardImage, proxy, controller.signal),
+          { signal: controller.signal }
+        );
+        snapshot = { ...project, values: { ...project.values, cardImage: embeddedImage } };
       }
 
-      const fallbackUrl = await exportWithHtml2Canvas(previewRef.current, exportFormat);
-      downloadDataUrl(fallbackUrl, filename);
+      const blob = new Blob([serializeProject(snapshot)], { type: 'application/json' });
+      downloadDataUrl(await blobToDataUrl(blob), `pokemon-thumbnail-project-${template.id}.json`);
     } catch (error) {
-      const message = error instanceof Error ? error.message : 'Unknown error';
-      console.error('Thumbnail export failed', error);
-      alert(
-        `Download failed. Enable the image proxy or upload the image instead of using a URL. (${message})`
-      );
+      setProjectError(error instanceof Error ? error.message : 'Could not save the project.');
     } finally {
-      if (shouldRestore) {
-        setCardImage(originalImage);
-      }
-      setIsDownloading(false);
+      controller.abort();
+      setIsSavingProject(false);
     }
   };
 
+  const handleProjectOpen = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) {
+      return;
+    }
+
+    const reader = new FileReader();
+    reader.onload = (event) => {
+      try {
+        const opened = parseProjectFile(String(event.target?.result ?? ''));
+        update(() => opened, { label: `Open ${file.name}` });
+        library.detachEntry();
+        setProjectError(null);
+      } catch (error) {
+        setProjectError(error instanceof Error ? error.message : 'Could not open the project.');
+      }
+    };
+    reader.readAsText(file);
+  };
+
   const handleReset = () => {
-    setTrend('up');
-    setTemplate('classic');
-    setCardImage('https://images.unsplash.com/photo-1606502281004-f86cf1282af5?w=400&h=600&fit=crop');
-    setTitle('WEEKLY PRICE SHOCK');
-    setSubtitle('POKEMON CARD WATCH');
-    setPrice('$1,250');
-    setBeforePrice('$100');
-    setChangePercent('375');
-    setTimeframe('IN 7 DAYS');
-    setUseProxy(true);
-    setExportFormat('png');
+    update(() => createDefaultProject(), { label: 'Reset' });
   };
 
   return (
-    <div className="min-h-screen p-8" style={{ backgroundColor: '#070707' }}>
-      <div className="max-w-[1400px] mx-auto">
-        <div className="mb-8">
-          <h1
-            className="mb-2"
-            style={{
-              fontSize: '48px',
-              color: '#eed093',
-              fontWeight: '900',
-              fontFamily: 'var(--font-display)',
-              letterSpacing: '-0.02em',
-            }}
-          >
-            Weekly Pokemon Price Thumbnail Studio
-          </h1>
-          <p style={{ fontSize: '18px', color: '#f9f9f9', opacity: 0.7 }}>
-            Craft click-through-ready thumbnails for price spikes and drops.
+    <div
+      className="min-h-screen p-8"
+      style={{ backgroundColor: 'var(--color-bg)' }}
+      onDragEnter={handleDragEnter}
+      onDragOver={handleDragOver}
+      onDragLeave={handleDragLeave}
+      onDrop={handleDrop}
+    >
+      {dropTarget === 'editor' ? (
+        <div
+          className="fixed inset-4 z-50 flex items-center justify-center rounded-2xl pointer-events-none"
+          style={{ border: `3px dashed ${currentPalette.accentLight}`, backgroundColor: 'rgba(7, 7, 7, 0.7)' }}
+        >
+          <p style={{ color: 'var(--color-muted)', fontSize: '24px', fontWeight: '800' }}>
+            Drop to use as the card image
           </p>
         </div>
-
-        <div className="grid grid-cols-1 lg:grid-cols-4 gap-6 mb-8">
-          <div
-            className="p-6 rounded-xl"
-            style={{
-              backgroundColor: '#131312',
-              border: '2px solid #4c402b',
-            }}
-          >
-            <label className="block mb-3" style={{ color: '#eed093', fontSize: '16px', fontWeight: '700' }}>
-              Pokemon Card Image
-            </label>
-            <label
-              className="flex items-center justify-center gap-2 px-4 py-3 rounded-lg cursor-pointer transition-all hover:opacity-80"
-              style={{ backgroundColor: currentPalette.accent, color: '#f9f9f9' }}
-            >
-              <Upload className="w-5 h-5" />
-              <span style={{ fontWeight: '600' }}>Upload Image</span>
-              <input type="file" accept="image/*" onChange={handleImageUpload} className="hidden" />
-            </label>
-            <div className="mt-4">
-              <input
-                type="text"
-                value={cardImage}
-                onChange={(e) => setCardImage(e.target.value)}
-                placeholder="Or paste image URL..."
-                className="w-full px-3 py-2 rounded-lg text-sm"
-                style={{
-                  backgroundColor: '#262524',
-                  border: '1px solid #4c402b',
-                  color: '#f9f9f9',
-                }}
-              />
-              <label
-                className="mt-3 flex items-center gap-2 text-xs"
-                style={{ color: '#f9f9f9', opacity: 0.75 }}
-              >
-                <input
-                  type="checkbox"
-                  checked={useProxy}
-                  onChange={(e) => setUseProxy(e.target.checked)}
-                />
-                Use image proxy for URL images (recommended for downloads).
-              </label>
-              <p className="mt-2 text-xs" style={{ color: '#f9f9f9', opacity: 0.6 }}>
-                Uploading a file avoids CORS issues during download.
-              </p>
-            </div>
-          </div>
-
-          {template === 'classic' ? (
-            <div
-              className="p-6 rounded-xl"
+      ) : null}
+      <div className="max-w-[1400px] mx-auto">
+        <div className="mb-8 flex flex-wrap items-start justify-between gap-4">
+          <div>
+            <h1
+              className="mb-2"
               style={{
-                backgroundColor: '#131312',
-                border: '2px solid #4c402b',
+                fontSize: '48px',
+                color: 'var(--color-muted)',
+                fontWeight: '900',
+                fontFamily: 'var(--font-display)',
+                letterSpacing: '-0.02em',
               }}
             >
-              <label className="block mb-3" style={{ color: '#eed093', fontSize: '16px', fontWeight: '700' }}>
-                Main Title
-              </label>
-              <input
-                type="text"
-                value={title}
-                onChange={(e) => setTitle(e.target.value)}
-                className="w-full px-4 py-3 rounded-lg"
+              Weekly Pokemon Price Thumbnail Studio
+            </h1>
+            <p style={{ fontSize: '18px', color: 'var(--color-text)', opacity: 0.7 }}>
+              Craft click-through-ready thumbnails for price spikes and drops.
+            </p>
+          </div>
+          <div className="flex flex-col items-end gap-2">
+            <div className="flex gap-2">
+              <button
+                type="button"
+                onClick={undo}
+                disabled={!history.canUndo}
+                className="p-2 rounded-lg transition-all hover:opacity-80 disabled:opacity-40"
+                style={toolbarButtonStyle}
+                aria-label="Undo"
+                title="Undo (Ctrl/Cmd+Z)"
+              >
+                <Undo2 className="w-5 h-5" />
+              </button>
+              <button
+                type="button"
+                onClick={redo}
+                disabled={!history.canRedo}
+                className="p-2 rounded-lg transition-all hover:opacity-80 disabled:opacity-40"
+                style={toolbarButtonStyle}
+                aria-label="Redo"
+                title="Redo (Shift+Ctrl/Cmd+Z)"
+              >
+                <Redo2 className="w-5 h-5" />
+              </button>
+              <button
+                type="button"
+                onClick={() => setIsHistoryOpen((open) => !open)}
+                className="flex items-center gap-2 px-4 py-2 rounded-lg transition-all hover:opacity-80"
                 style={{
-                  backgroundColor: '#262524',
-                  border: '2px solid #4c402b',
-                  color: '#f9f9f9',
-                  fontSize: '16px',
+                  backgroundColor: isHistoryOpen ? currentPalette.accent : 'var(--color-surface-2)',
+                  border: `2px solid ${isHistoryOpen ? currentPalette.accentLight : 'var(--color-border)'}`,
+                  color: 'var(--color-text)',
                   fontWeight: '600',
                 }}
-              />
-            </div>
-          ) : null}
-
-          {template === 'classic' ? (
-            <div
-              className="p-6 rounded-xl"
-              style={{
-                backgroundColor: '#131312',
-                border: '2px solid #4c402b',
-              }}
-            >
-              <label className="block mb-3" style={{ color: '#eed093', fontSize: '16px', fontWeight: '700' }}>
-                Subtitle
-              </label>
-              <input
-                type="text"
-                value={subtitle}
-                onChange={(e) => setSubtitle(e.target.value)}
-                className="w-full px-4 py-3 rounded-lg"
+              >
+                <History className="w-5 h-5" />
+                History
+              </button>
+              <button
+                type="button"
+                onClick={() => setIsBatchOpen((open) => !open)}
+                className="flex items-center gap-2 px-4 py-2 rounded-lg transition-all hover:opacity-80"
                 style={{
-                  backgroundColor: '#262524',
-                  border: '2px solid #4c402b',
-                  color: '#f9f9f9',
-                  fontSize: '16px',
+                  backgroundColor: isBatchOpen ? currentPalette.accent : 'var(--color-surface-2)',
+                  border: `2px solid ${isBatchOpen ? currentPalette.accentLight : 'var(--color-border)'}`,
+                  color: 'var(--color-text)',
                   fontWeight: '600',
                 }}
-              />
-            </div>
-          ) : null}
-
-          <div
-            className="p-6 rounded-xl"
-            style={{
-              backgroundColor: '#131312',
-              border: '2px solid #4c402b',
-            }}
-          >
-            <label className="block mb-3" style={{ color: '#eed093', fontSize: '16px', fontWeight: '700' }}>
-              Thumbnail Style
-            </label>
-            <div className="flex gap-3">
+              >
+                <Layers className="w-5 h-5" />
+                Batch
+              </button>
               <button
                 type="button"
-                onClick={() => setTemplate('classic')}
-                className="flex-1 px-4 py-3 rounded-lg transition-all"
+                onClick={() => setIsReportOpen((open) => !open)}
+                className="flex items-center gap-2 px-4 py-2 rounded-lg transition-all hover:opacity-80"
                 style={{
-                  backgroundColor: template === 'classic' ? currentPalette.accent : '#262524',
-                  border: `2px solid ${template === 'classic' ? currentPalette.accentLight : '#4c402b'}`,
-                  color: '#f9f9f9',
+                  backgroundColor: isReportOpen ? currentPalette.accent : 'var(--color-surface-2)',
+                  border: `2px solid ${isReportOpen ? currentPalette.accentLight : 'var(--color-border)'}`,
+                  color: 'var(--color-text)',
                   fontWeight: '600',
                 }}
               >
-                Classic
+                <Activity className="w-5 h-5" />
+                Export Report
               </button>
               <button
                 type="button"
-                onClick={() => setTemplate('impact')}
-                className="flex-1 px-4 py-3 rounded-lg transition-all"
+                onClick={() => setIsThemeOpen((open) => !open)}
+                className="flex items-center gap-2 px-4 py-2 rounded-lg transition-all hover:opacity-80"
                 style={{
-                  backgroundColor: template === 'impact' ? currentPalette.accent : '#262524',
-                  border: `2px solid ${template === 'impact' ? currentPalette.accentLight : '#4c402b'}`,
-                  color: '#f9f9f9',
+                  backgroundColor: isThemeOpen ? currentPalette.accent : 'var(--color-surface-2)',
+                  border: `2px solid ${isThemeOpen ? currentPalette.accentLight : 'var(--color-border)'}`,
+                  color: 'var(--color-text)',
                   fontWeight: '600',
                 }}
               >
-                CTR Boost
+                <Palette className="w-5 h-5" />
+                Theme
               </button>
-            </div>
-          </div>
-
-          <div
-            className="p-6 rounded-xl"
-            style={{
-              backgroundColor: '#131312',
-              border: '2px solid #4c402b',
-            }}
-          >
-            <label className="block mb-3" style={{ color: '#eed093', fontSize: '16px', fontWeight: '700' }}>
-              Trend Direction
-            </label>
-            <div className="flex gap-3">
               <button
                 type="button"
-                onClick={() => setTrend('up')}
-                className="flex-1 flex items-center justify-center gap-2 px-4 py-3 rounded-lg transition-all"
+                onClick={() => setIsFeedOpen((open) => !open)}
+                className="flex items-center gap-2 px-4 py-2 rounded-lg transition-all hover:opacity-80"
                 style={{
-                  backgroundColor: trend === 'up' ? trendPalette.up.accent : '#262524',
-                  border: `2px solid ${trend === 'up' ? trendPalette.up.accentLight : trendPalette.up.accentSoft}`,
-                  color: '#f9f9f9',
+                  backgroundColor: isFeedOpen ? currentPalette.accent : 'var(--color-surface-2)',
+                  border: `2px solid ${isFeedOpen ? currentPalette.accentLight : 'var(--color-border)'}`,
+                  color: 'var(--color-text)',
                   fontWeight: '600',
                 }}
               >
-                <ArrowUp className="w-4 h-4" />
-                Price Up
+                <MonitorPlay className="w-5 h-5" />
+                Feed Preview
               </button>
               <button
                 type="button"
-                onClick={() => setTrend('down')}
-                className="flex-1 flex items-center justify-center gap-2 px-4 py-3 rounded-lg transition-all"
+                onClick={() => setIsLibraryOpen((open) => !open)}
+                className="flex items-center gap-2 px-4 py-2 rounded-lg transition-all hover:opacity-80"
                 style={{
-                  backgroundColor: trend === 'down' ? trendPalette.down.accent : '#262524',
-                  border: `2px solid ${trend === 'down' ? trendPalette.down.accentLight : trendPalette.down.accentSoft}`,
-                  color: '#f9f9f9',
+                  backgroundColor: isLibraryOpen ? currentPalette.accent : 'var(--color-surface-2)',
+                  border: `2px solid ${isLibraryOpen ? currentPalette.accentLight : 'var(--color-border)'}`,
+                  color: 'var(--color-text)',
                   fontWeight: '600',
                 }}
               >
-                <ArrowDown className="w-4 h-4" />
-                Price Down
+                <Library className="w-5 h-5" />
+                Library
               </button>
             </div>
+            <p
+              className="text-xs"
+              style={{ color: library.status === 'error' ? 'var(--color-warning)' : 'var(--color-text)', opacity: 0.7 }}
+              title={library.error ?? undefined}
+            >
+              {describeLibraryStatus(library.status, library.lastSavedAt)}
+            </p>
           </div>
+        </div>
 
+        {isLibraryOpen ? (
           <div
-            className="p-6 rounded-xl"
+            className="mb-6 p-6 rounded-xl"
             style={{
-              backgroundColor: '#131312',
-              border: '2px solid #4c402b',
+              backgroundColor: 'var(--color-surface)',
+              border: '2px solid var(--color-border)',
             }}
           >
-            <label className="block mb-3" style={{ color: '#eed093', fontSize: '16px', fontWeight: '700' }}>
-              Before Price
-            </label>
-            <input
-              type="text"
-              value={beforePrice}
-              onChange={(e) => setBeforePrice(e.target.value)}
-              className="w-full px-4 py-3 rounded-lg"
-              style={{
-                backgroundColor: '#262524',
-                border: '2px solid #4c402b',
-                color: '#f9f9f9',
-                fontSize: '16px',
-                fontWeight: '600',
-              }}
+            <LibraryPanel
+              entries={library.entries}
+              currentId={library.currentId}
+              usage={library.usage}
+              error={library.error}
+              accent={currentPalette.accent}
+              accentLight={currentPalette.accentLight}
+              onOpen={library.openEntry}
+              onNew={library.newProject}
+              onDuplicate={library.duplicate}
+              onRename={library.rename}
+              onDelete={library.remove}
+              onClose={() => setIsLibraryOpen(false)}
             />
           </div>
+        ) : null}
 
+        {isBatchOpen ? (
           <div
-            className="p-6 rounded-xl"
+            className="mb-6 p-6 rounded-xl"
             style={{
-              backgroundColor: '#131312',
-              border: '2px solid #4c402b',
+              backgroundColor: 'var(--color-surface)',
+              border: '2px solid var(--color-border)',
             }}
           >
-            <label className="block mb-3" style={{ color: '#eed093', fontSize: '16px', fontWeight: '700' }}>
-              Price Tag
-            </label>
-            <input
-              type="text"
-              value={price}
-              onChange={(e) => setPrice(e.target.value)}
-              className="w-full px-4 py-3 rounded-lg"
-              style={{
-                backgroundColor: '#262524',
-                border: '2px solid #4c402b',
-                color: '#f9f9f9',
-                fontSize: '16px',
-                fontWeight: '600',
-              }}
+            <BatchPanel
+              encodeOptions={encodeOptions}
+              size={outputSize}
+              proxy={proxy}
+              theme={themeOverride}
+              filenamePattern={filenamePattern}
+              onFilenamePatternChange={changeFilenamePattern}
+              exportJobs={exportJobs}
+              accent={currentPalette.accent}
+              accentLight={currentPalette.accentLight}
+              onClose={() => setIsBatchOpen(false)}
             />
           </div>
+        ) : null}
 
+        {isHistoryOpen ? (
           <div
-            className="p-6 rounded-xl"
+            className="mb-6 p-6 rounded-xl"
             style={{
-              backgroundColor: '#131312',
-              border: '2px solid #4c402b',
+              backgroundColor: 'var(--color-surface)',
+              border: '2px solid var(--color-border)',
             }}
           >
-            <label className="block mb-3" style={{ color: '#eed093', fontSize: '16px', fontWeight: '700' }}>
-              Change Percent
-            </label>
-            <input
-              type="text"
-              value={changePercent}
-              onChange={(e) => setChangePercent(e.target.value)}
-              className="w-full px-4 py-3 rounded-lg"
-              style={{
-                backgroundColor: '#262524',
-                border: '2px solid #4c402b',
-                color: '#f9f9f9',
-                fontSize: '16px',
-                fontWeight: '600',
-              }}
+            <HistoryPanel
+              steps={history.steps}
+              index={history.index}
+              accentLight={currentPalette.accentLight}
+              onJump={history.jumpTo}
+              onClose={() => setIsHistoryOpen(false)}
             />
-            <p className="mt-2 text-xs" style={{ color: '#f9f9f9', opacity: 0.6 }}>
-              Enter the number without the plus or minus sign.
-            </p>
           </div>
+        ) : null}
 
-          {template === 'classic' ? (
-            <div
-              className="p-6 rounded-xl"
-              style={{
-                backgroundColor: '#131312',
-                border: '2px solid #4c402b',
-              }}
-            >
-              <label className="block mb-3" style={{ color: '#eed093', fontSize: '16px', fontWeight: '700' }}>
-                Timeframe Text
-              </label>
-              <input
-                type="text"
-                value={timeframe}
-                onChange={(e) => setTimeframe(e.target.value)}
-                className="w-full px-4 py-3 rounded-lg"
-                style={{
-                  backgroundColor: '#262524',
-                  border: '2px solid #4c402b',
-                  color: '#f9f9f9',
-                  fontSize: '16px',
-                  fontWeight: '600',
-                }}
-              />
+        {isFeedOpen ? (
+          <div
+            className="mb-6 p-6 rounded-xl"
+            style={{
+              backgroundColor: 'var(--color-surface)',
+              border: '2px solid var(--color-border)',
+            }}
+          >
+            <FeedPreviewPanel
+              template={template}
+              values={previewValues}
+              trend={activeTrend}
+              priceHistory={priceHistory}
+              crop={imageCrop}
+              theme={activeTheme}
+              details={project.feed}
+              competitors={competitors.items}
+              competitorError={competitors.error}
+              accentLight={currentPalette.accentLight}
+              onDetailsChange={updateFeedDetails}
+              onAddCompetitors={competitors.add}
+              onUpdateCompetitor={competitors.update}
+              onRemoveCompetitor={competitors.remove}
+              onClose={() => setIsFeedOpen(false)}
+            />
+          </div>
+        ) : null}
+
+        {isThemeOpen ? (
+          <div
+            className="mb-6 p-6 rounded-xl"
+            style={{
+              backgroundColor: 'var(--color-surface)',
+              border: '2px solid var(--color-border)',
+            }}
+          >
+            <ThemePanel
+              theme={activeTheme}
+              isOverride={themeOverride !== null}
+              templateTheme={getBuiltinTheme(template.defaultThemeId)}
+              trend={activeTrend}
+              savedThemes={savedThemes.themes}
+              storageError={savedThemes.error}
+              onChange={updateTheme}
+              onSave={savedThemes.save}
+              onDelete={savedThemes.remove}
+              onClose={() => setIsThemeOpen(false)}
+            />
+          </div>
+        ) : null}
+
+        {isReportOpen ? (
+          <div
+            className="mb-6 p-6 rounded-xl"
+            style={{
+              backgroundColor: 'var(--color-surface)',
+              border: '2px solid var(--color-border)',
+            }}
+          >
+            <ExportReportPanel
+              report={exportJobs.report}
+              frames={
+                exportJobs.report && reportFramesRef.current?.id === exportJobs.report.id
+                  ? reportFramesRef.current.frames
+                  : null
+              }
+              accentLight={currentPalette.accentLight}
+              onClose={() => setIsReportOpen(false)}
+            />
+          </div>
+        ) : null}
+
+        {priceImport ? (
+          <div
+            className="mb-6 p-6 rounded-xl"
+            style={{
+              backgroundColor: 'var(--color-surface)',
+              border: `2px solid ${currentPalette.accent}`,
+            }}
+          >
+            <PriceImportPanel
+              key={priceImport.filename}
+              table={priceImport.table}
+              filename={priceImport.filename}
+              accent={currentPalette.accent}
+              accentLight={currentPalette.accentLight}
+              fallbackSymbol={parseMoney(price)?.symbol ?? '$'}
+              onApply={applyPriceImport}
+              onCancel={() => setPriceImport(null)}
+            />
+          </div>
+        ) : null}
+
+        <div className="grid grid-cols-1 lg:grid-cols-4 gap-6 mb-8">
+          <div
+            className="p-6 rounded-xl"
+            style={{
+              backgroundColor: 'var(--color-surface)',
+              border: '2px solid var(--color-border)',
+            }}
+          >
+            <label className="block mb-3" style={{ color: 'var(--color-muted)', fontSize: '16px', fontWeight: '700' }}>
+              Thumbnail Style
+            </label>
+            <div className="flex gap-3">
+              {templates.map((option) => (
+                <button
+                  key={option.id}
+                  type="button"
+                  onClick={() => selectTemplate(option.id)}
+                  className="flex-1 px-4 py-3 rounded-lg transition-all"
+                  style={{
+                    backgroundColor: option.id === template.id ? currentPalette.accent : 'var(--color-surface-2)',
+                    border: `2px solid ${option.id === template.id ? currentPalette.accentLight : 'var(--color-border)'}`,
+                    color: 'var(--color-text)',
+                    fontWeight: '600',
+                  }}
+                >
+                  {option.name}
+                </button>
+              ))}
             </div>
-          ) : null}
+          </div>
 
           <div
             className="p-6 rounded-xl"
             style={{
-              backgroundColor: '#131312',
-              border: '2px solid #4c402b',
+              backgroundColor: 'var(--color-surface)',
+              border: '2px solid var(--color-border)',
             }}
           >
-            <label className="block mb-3" style={{ color: '#eed093', fontSize: '16px', fontWeight: '700' }}>
-              Export Format
+            <label className="block mb-3" style={{ color: 'var(--color-muted)', fontSize: '16px', fontWeight: '700' }}>
+              Trend Direction
             </label>
             <div className="flex gap-3">
               <button
                 type="button"
-                onClick={() => setExportFormat('png')}
-                className="flex-1 px-4 py-3 rounded-lg transition-all"
+                onClick={() => {
+                  updateProject({ trend: 'up', autoTrend: false }, { label: 'Set trend to up' });
+                }}
+                className="flex-1 flex items-center justify-center gap-2 px-4 py-3 rounded-lg transition-all disabled:opacity-40"
+                disabled={!template.trends.includes('up')}
                 style={{
-                  backgroundColor: exportFormat === 'png' ? currentPalette.accent : '#262524',
-                  border: `2px solid ${exportFormat === 'png' ? currentPalette.accentLight : '#4c402b'}`,
-                  color: '#f9f9f9',
+                  backgroundColor: activeTrend === 'up' ? activeTheme.trends.up.accent : 'var(--color-surface-2)',
+                  border: `2px solid ${activeTrend === 'up' ? activeTheme.trends.up.accentLight : activeTheme.trends.up.accentSoft}`,
+                  color: 'var(--color-text)',
                   fontWeight: '600',
                 }}
               >
-                PNG
+                <ArrowUp className="w-4 h-4" />
+                Price Up
               </button>
               <button
                 type="button"
-                onClick={() => setExportFormat('jpeg')}
-                className="flex-1 px-4 py-3 rounded-lg transition-all"
+                onClick={() => {
+                  updateProject({ trend: 'down', autoTrend: false }, { label: 'Set trend to down' });
+                }}
+                className="flex-1 flex items-center justify-center gap-2 px-4 py-3 rounded-lg transition-all disabled:opacity-40"
+                disabled={!template.trends.includes('down')}
                 style={{
-                  backgroundColor: exportFormat === 'jpeg' ? currentPalette.accent : '#262524',
-                  border: `2px solid ${exportFormat === 'jpeg' ? currentPalette.accentLight : '#4c402b'}`,
-                  color: '#f9f9f9',
+                  backgroundColor: activeTrend === 'down' ? activeTheme.trends.down.accent : 'var(--color-surface-2)',
+                  border: `2px solid ${activeTrend === 'down' ? activeTheme.trends.down.accentLight : activeTheme.trends.down.accentSoft}`,
+                  color: 'var(--color-text)',
                   fontWeight: '600',
                 }}
               >
-                JPG
+                <ArrowDown className="w-4 h-4" />
+                Price Down
               </button>
             </div>
+            <label
+              className="mt-3 flex items-center gap-2 text-xs"
+              style={{ color: 'var(--color-text)', opacity: 0.75 }}
+            >
+              <input
+                type="checkbox"
+                checked={autoTrend}
+                onChange={(e) =>
+                  updateProject(
+                    { autoTrend: e.target.checked },
+                    { label: e.target.checked ? 'Pick trend from prices' : 'Pick trend manually' }
+                  )
+                }
+              />
+              Pick direction from the prices.
+            </label>
+            {(fieldWarnings.trend ?? []).map((warning) => (
+              <p
+                key={warning}
+                className="mt-2 flex items-start gap-1 text-xs"
+                style={{ color: 'var(--color-warning)' }}
+              >
+                <AlertTriangle className="w-3 h-3 mt-[2px] shrink-0" />
+                {warning}
+              </p>
+            ))}
+          </div>
+
+          <div
+            className="p-6 rounded-xl lg:col-span-2"
+            style={{
+              backgroundColor: 'var(--color-surface)',
+              border: '2px solid var(--color-border)',
+            }}
+          >
+            <label className="block mb-3" style={{ color: 'var(--color-muted)', fontSize: '16px', fontWeight: '700' }}>
+              Price History
+            </label>
+            <PriceHistoryInput
+              value={priceHistory}
+              onChange={(points) =>
+                updateProject({ priceHistory: points }, { label: 'Edit price history', coalesceKey: 'priceHistory' })
+              }
+              onImportFile={handlePriceFileImport}
+              accent={currentPalette.accent}
+              accentLight={currentPalette.accentLight}
+            />
+          </div>
+
+          <FieldPanel
+            fields={template.fields}
+            values={{ ...content, changePercent: displayChangePercent }}
+            onChange={updateContent}
+            onImageUpload={handleImageUpload}
+            accent={currentPalette.accent}
+            accentLight={currentPalette.accentLight}
+            readOnly={{ changePercent: !manualChange }}
+            addons={fieldAddons}
+            warnings={fieldWarnings}
+          />
+
+          <div
+            className="p-6 rounded-xl"
+            style={{
+              backgroundColor: 'var(--color-surface)',
+              border: '2px solid var(--color-border)',
+            }}
+          >
+            <label className="block mb-3" style={{ color: 'var(--color-muted)', fontSize: '16px', fontWeight: '700' }}>
+              Output Size
+            </label>
+            <div className="grid grid-cols-2 gap-3">
+              {outputSizes.map((size) => (
+                <button
+                  key={size.id}
+                  type="button"
+                  onClick={() => updateExportSettings({ sizeId: size.id }, { label: `Resize for ${size.name}` })}
+                  className="px-3 py-2 rounded-lg text-left transition-all"
+                  style={{
+                    backgroundColor: outputSize.id === size.id ? currentPalette.accent : 'var(--color-surface-2)',
+                    border: `2px solid ${outputSize.id === size.id ? currentPalette.accentLight : 'var(--color-border)'}`,
+                    color: 'var(--color-text)',
+                  }}
+                >
+                  <span className="block text-sm" style={{ fontWeight: '600' }}>
+                    {size.name}
+                  </span>
+                  <span className="block text-xs" style={{ opacity: 0.7 }}>
+                    {formatOutputSize(size)}
+                  </span>
+                </button>
+              ))}
+            </div>
+            <label
+              className="block mt-5 mb-3"
+              style={{ color: 'var(--color-muted)', fontSize: '16px', fontWeight: '700' }}
+            >
+              Resolution
+            </label>
+            <div className="grid grid-cols-4 gap-2">
+              {exportScales.map((scale) => {
+                const selected = customWidth === null && exportScale === scale;
+                return (
+                  <button
+                    key={scale}
+                    type="button"
+                    onClick={() => updateExportSettings({ scale, customWidth: null }, { label: `Export at ${scale}x` })}
+                    className="px-3 py-2 rounded-lg text-sm transition-all"
+                    style={{
+                      backgroundColor: selected ? currentPalette.accent : 'var(--color-surface-2)',
+                      border: `2px solid ${selected ? currentPalette.accentLight : 'var(--color-border)'}`,
+                      color: 'var(--color-text)',
+                      fontWeight: '600',
+                    }}
+                  >
+                    {scale}x
+                  </button>
+                );
+              })}
+              <button
+                type="button"
+                onClick={() =>
+                  customWidth === null &&
+                  updateExportSettings({ customWidth: exportPixels.width }, { label: 'Export at a custom size' })
+                }
+                className="px-3 py-2 rounded-lg text-sm transition-all"
+                style={{
+                  backgroundColor: customWidth !== null ? currentPalette.accent : 'var(--color-surface-2)',
+                  border: `2px solid ${customWidth !== null ? currentPalette.accentLight : 'var(--color-border)'}`,
+                  color: 'var(--color-text)',
+                  fontWeight: '600',
+                }}
+              >
+                Custom
+              </button>
+            </div>
+            {customWidth !== null ? (
+              <label
+                className="mt-3 flex items-center gap-2 text-xs"
+                style={{ color: 'var(--color-text)', opacity: 0.75 }}
+              >
+                Width
+                <input
+                  type="number"
+                  min={MIN_CUSTOM_WIDTH}
+                  max={MAX_CUSTOM_WIDTH}
+                  step={1}
+                  value={customWidthDraft ?? String(customWidth)}
+                  onChange={(e) => setCustomWidthDraft(e.target.value)}
+                  onBlur={commitCustomWidth}
+                  onKeyDown={(e) => {
+                    if (e.key === 'Enter') {
+                      commitCustomWidth();
+                    }
+                  }}
+                  className="w-24 px-2 py-1 rounded text-sm"
+                  style={{
+                    backgroundColor: 'var(--color-surface-2)',
+                    border: '1px solid var(--color-border)',
+                    color: 'var(--color-text)',
+                  }}
+                />
+                px, height follows the output size.
+              </label>
+            ) : null}
+            <p className="mt-2 text-xs" style={{ color: 'var(--color-text)', opacity: 0.75 }}>
+              Exports at {formatOutputSize(exportPixels)}.
+            </p>
+            {sourceResolution && sourceUpscale > 1.05 ? (
+              <p className="mt-1 text-xs" style={{ color: 'var(--color-warning)' }}>
+                The card image is {sourceResolution.naturalWidth} x {sourceResolution.naturalHeight} but this export
+                draws it at about {sourceResolution.requiredWidth} x {sourceResolution.requiredHeight}, so it will look
+                soft. Use a larger image or a lower resolution.
+              </p>
+            ) : null}
+            <label
+              className="block mt-5 mb-3"
+              style={{ color: 'var(--color-muted)', fontSize: '16px', fontWeight: '700' }}
+            >
+              Export Format
+            </label>
+            <div className="grid grid-cols-2 gap-3">
+              {(Object.keys(exportFormats) as ExportFormat[]).map((format) => {
+                const supported = isFormatSupported(format);
+                return (
+                  <button
+                    key={format}
+                    type="button"
+                    onClick={() => updateExportSettings({ format }, { label: `Export as ${exportFormats[format].label}` })}
+                    disabled={!supported}
+                    title={supported ? undefined : 'Not supported by this browser'}
+                    className="px-4 py-3 rounded-lg transition-all disabled:opacity-40"
+                    style={{
+                      backgroundColor: exportFormat === format ? currentPalette.accent : 'var(--color-surface-2)',
+                      border: `2px solid ${exportFormat === format ? currentPalette.accentLight : 'var(--color-border)'}`,
+                      color: 'var(--color-text)',
+                      fontWeight: '600',
+                    }}
+                  >
+                    {exportFormats[format].label}
+                  </button>
+                );
+              })}
+            </div>
+            {!isFormatSupported(exportFormat) ? (
+              <p className="mt-2 text-xs" style={{ color: 'var(--color-warning)' }}>
+                This browser cannot export {exportFormats[exportFormat].label}. Pick another format.
+              </p>
+            ) : null}
+            <label
+              className="mt-4 flex items-center justify-between text-xs"
+              style={{ color: 'var(--color-text)', opacity: isLossyFormat ? 0.75 : 0.4 }}
+            >
+              <span>Quality</span>
+              <span>{isLossyFormat ? `${Math.round(quality * 100)}%` : 'Lossless'}</span>
+            </label>
+            <input
+              type="range"
+              min={10}
+              max={100}
+              step={1}
+              value={Math.round(quality * 100)}
+              disabled={!isLossyFormat}
+              onChange={(e) =>
+                updateExportSettings(
+                  { quality: Number(e.target.value) / 100 },
+                  { label: 'Change export quality', coalesceKey: 'quality' }
+                )
+              }
+              className="w-full disabled:opacity-40"
+              aria-label="Export quality"
+            />
+            <label
+              className="mt-2 flex items-center gap-2 text-xs"
+              style={{ color: 'var(--color-text)', opacity: isLossyFormat ? 0.75 : 0.4 }}
+            >
+              <input
+                type="checkbox"
+                checked={fitToBudget}
+                disabled={!isLossyFormat}
+                onChange={(e) =>
+                  updateExportSettings(
+                    { fitToBudget: e.target.checked },
+                    { label: e.target.checked ? 'Auto-fit under 2 MB' : 'Stop auto-fitting size' }
+                  )
+                }
+              />
+              Auto-fit under 2 MB (lowers quality only when needed).
+            </label>
+            <p
+              className="mt-2 text-xs"
+              style={{
+                color: estimate.overBudget || estimate.error ? 'var(--color-warning)' : 'var(--color-text)',
+                opacity: estimate.pending ? 0.5 : 0.85,
+              }}
+            >
+              {estimate.error
+                ? `Size estimate unavailable: ${estimate.error}`
+                : estimate.bytes === null
+                  ? 'Estimating file size...'
+                  : `Estimated ${formatFileSize(estimate.bytes)}${
+                      fitToBudget && estimate.quality !== null ? ` at ${Math.round(estimate.quality * 100)}% quality` : ''
+                    }${estimate.overBudget ? ", over YouTube's 2 MB limit" : ''}`}
+            </p>
+            <label
+              className="mt-3 flex items-center gap-2 text-xs"
+              style={{ color: 'var(--color-text)', opacity: 0.75 }}
+            >
+              Renderer
+              <select
+                value={renderer}
+                onChange={(e) => {
+                  const next = e.target.value as ExportRenderer;
+                  updateExportSettings({ renderer: next }, { label: `Render with ${exportRenderers[next].label}` });
+                }}
+                className="flex-1 px-2 py-1 rounded text-xs"
+                style={{
+                  backgroundColor: 'var(--color-surface-2)',
+                  border: '1px solid var(--color-border)',
+                  color: 'var(--color-text)',
+                }}
+              >
+                {(Object.keys(exportRenderers) as ExportRenderer[]).map((option) => (
+                  <option key={option} value={option}>
+                    {exportRenderers[option].label}
+                  </option>
+                ))}
+              </select>
+            </label>
+            <p className="mt-1 text-xs" style={{ color: 'var(--color-text)', opacity: 0.6 }}>
+              {exportRenderers[renderer].description}.
+            </p>
+            <label
+              className="block mt-5 mb-2"
+              style={{ color: 'var(--color-muted)', fontSize: '14px', fontWeight: '700' }}
+            >
+              File Name
+            </label>
+            <FilenamePatternInput
+              value={filenamePattern}
+              onChange={changeFilenamePattern}
+              tokens={filenameTokens}
+              extension={fileExtension(exportFormat)}
+            />
+            <input
+              type="text"
+              value={content.cardName ?? ''}
+              onChange={(e) =>
+                updateContent('cardName', e.target.value, { label: 'Edit card name', coalesceKey: 'values.cardName' })
+              }
+              placeholder="Card name for {card}, e.g. Charizard Base Set"
+              className="mt-3 w-full px-3 py-2 rounded-lg text-sm"
+              style={{
+                backgroundColor: 'var(--color-surface-2)',
+                border: '1px solid var(--color-border)',
+                color: 'var(--color-text)',
+              }}
+            />
           </div>
 
           <div
             className="p-6 rounded-xl flex flex-col gap-3"
             style={{
-              backgroundColor: '#131312',
-              border: '2px solid #4c402b',
+              backgroundColor: 'var(--color-surface)',
+              border: '2px solid var(--color-border)',
             }}
           >
-            <label className="block mb-1" style={{ color: '#eed093', fontSize: '16px', fontWeight: '700' }}>
+            <label className="block mb-1" style={{ color: 'var(--color-muted)', fontSize: '16px', fontWeight: '700' }}>
               Actions
             </label>
             <button
               onClick={downloadThumbnail}
               className="flex items-center justify-center gap-2 px-4 py-3 rounded-lg transition-all hover:opacity-80"
-              style={{ backgroundColor: currentPalette.accent, color: '#f9f9f9', fontWeight: '600' }}
-              disabled={isDownloading}
+              style={{ backgroundColor: currentPalette.accent, color: 'var(--color-text)', fontWeight: '600' }}
             >
               <Download className="w-5 h-5" />
-              {isDownloading ? 'Preparing...' : 'Download'}
+              Download
+            </button>
+            <button
+              onClick={copyThumbnail}
+              className="flex items-center justify-center gap-2 px-4 py-3 rounded-lg transition-all hover:opacity-80"
+              style={{
+                backgroundColor: 'var(--color-surface-2)',
+                border: `2px solid ${currentPalette.accentLight}`,
+                color: 'var(--color-text)',
+                fontWeight: '600',
+              }}
+              disabled={isCopying}
+              title="Copy as PNG (Alt+Shift+C)"
+            >
+              <Copy className="w-5 h-5" />
+              {isCopying ? 'Copying...' : 'Copy Image'}
+            </button>
+            <button
+              onClick={exportAllSizes}
+              className="flex items-center justify-center gap-2 px-4 py-3 rounded-lg transition-all hover:opacity-80"
+              style={{
+                backgroundColor: 'var(--color-surface-2)',
+                border: `2px solid ${currentPalette.accentLight}`,
+                color: 'var(--color-text)',
+                fontWeight: '600',
+              }}
+            >
+              <Package className="w-5 h-5" />
+              Export All {outputSizes.length} Sizes
             </button>
             <button
               onClick={handleReset}
               className="flex items-center justify-center gap-2 px-4 py-3 rounded-lg transition-all hover:opacity-80"
               style={{
-                backgroundColor: '#262524',
-                border: '2px solid #4c402b',
-                color: '#f9f9f9',
+                backgroundColor: 'var(--color-surface-2)',
+                border: '2px solid var(--color-border)',
+                color: 'var(--color-text)',
                 fontWeight: '600',
               }}
             >
               <RefreshCw className="w-5 h-5" />
               Reset
             </button>
+            <ExportProgress
+              jobs={exportJobs.jobs}
+              accent={currentPalette.accentLight}
+              onCancel={exportJobs.cancel}
+            />
+            {downloadWarning ? (
+              <p className="text-xs" style={{ color: 'var(--color-warning)' }}>
+                {downloadWarning}
+              </p>
+            ) : null}
+          </div>
+
+          <div
+            className="p-6 rounded-xl flex flex-col gap-3"
+            style={{
+              backgroundColor: 'var(--color-surface)',
+              border: '2px solid var(--color-border)',
+            }}
+          >
+            <label className="block mb-1" style={{ color: 'var(--color-muted)', fontSize: '16px', fontWeight: '700' }}>
+              Project
+            </label>
+            <button
+              onClick={saveProject}
+              className="flex items-center justify-center gap-2 px-4 py-3 rounded-lg transition-all hover:opacity-80"
+              style={{ backgroundColor: currentPalette.accent, color: 'var(--color-text)', fontWeight: '600' }}
+              disabled={isSavingProject}
+            >
+              <Save className="w-5 h-5" />
+              {isSavingProject ? 'Saving...' : 'Save Project'}
+            </button>
+            <label
+              className="flex items-center justify-center gap-2 px-4 py-3 rounded-lg cursor-pointer transition-all hover:opacity-80"
+              style={{
+                backgroundColor: 'var(--color-surface-2)',
+                border: '2px solid var(--color-border)',
+                color: 'var(--color-text)',
+                fontWeight: '600',
+              }}
+            >
+              <FolderOpen className="w-5 h-5" />
+              Open Project
+              <input type="file" accept=".json,application/json" onChange={handleProjectOpen} className="hidden" />
+            </label>
+            <label className="flex items-center gap-2 text-xs" style={{ color: 'var(--color-text)', opacity: 0.75 }}>
+              <input
+                type="checkbox"
+                checked={embedImageOnSave}
+                onChange={(e) => setEmbedImageOnSave(e.target.checked)}
+              />
+              Embed the card image in the project file.
+            </label>
+            {projectError ? (
+              <p className="text-xs" style={{ color: 'var(--color-warning)' }}>
+                {projectError}
+              </p>
+            ) : null}
           </div>
         </div>
 
         <div
           className="rounded-2xl p-8"
           style={{
-            backgroundColor: '#131312',
-            border: '3px solid #4c402b',
+            backgroundColor: 'var(--color-surface)',
+            border: '3px solid var(--color-border)',
           }}
         >
           <div className="mb-6">
-            <h2 style={{ fontSize: '24px', color: '#eed093', fontWeight: '800' }}>
-              Preview (1280 x 720)
+            <h2 style={{ fontSize: '24px', color: 'var(--color-muted)', fontWeight: '800' }}>
+              Preview ({formatOutputSize(outputSize)})
             </h2>
-            <p style={{ fontSize: '14px', color: '#f9f9f9', opacity: 0.6, marginTop: '4px' }}>
-              This is the exact export size for YouTube thumbnails.
+            <p style={{ fontSize: '14px', color: 'var(--color-text)', opacity: 0.6, marginTop: '4px' }}>
+              This is the exact export size for {outputSize.name}
+              {previewScale < 1 ? `, shown at ${Math.round(previewScale * 100)}%.` : '.'}
             </p>
+            <div className="mt-3">
+              <SafeZoneToggles
+                shown={shownGuides}
+                overlaps={zoneOverlaps}
+                fields={template.fields}
+                accentLight={currentPalette.accentLight}
+                onToggle={toggleGuide}
+              />
+            </div>
           </div>
 
           <div className="flex justify-center">
             <div
+              ref={previewBoxRef}
               className="inline-block rounded-xl overflow-hidden shadow-2xl"
-              style={{ boxShadow: `0 20px 60px ${currentPalette.accentSoft}` }}
+              style={{
+                boxShadow: `0 20px 60px ${currentPalette.accentSoft}`,
+                outline: dropTarget === 'preview' ? `4px dashed ${currentPalette.accentLight}` : undefined,
+                outlineOffset: '4px',
+              }}
             >
-              <div ref={previewRef}>
-                {template === 'classic' ? (
-                  <YoutubeThumbnail
-                    cardImage={displayCardImage}
-                    title={title}
-                    subtitle={subtitle}
-                    price={price}
-                    changePercent={changePercent}
-                    timeframe={timeframe}
-                    trend={trend}
-                  />
-                ) : (
-                  <YoutubeThumbnailImpact
-                    cardImage={displayCardImage}
-                    title={title}
-                    subtitle={subtitle}
-                    price={price}
-                    beforePrice={beforePrice}
-                    changePercent={changePercent}
-                    timeframe={timeframe}
-                    trend={trend}
+              <div
+                style={{ width: outputSize.width * previewScale, height: outputSize.height * previewScale }}
+              >
+                <div
+                  className="relative"
+                  style={
+                    previewScale < 1 ? { transform: `scale(${previewScale})`, transformOrigin: 'top left' } : undefined
+                  }
+                >
+                  <div ref={previewRef}>
+                    <ThumbnailFrame
+                      template={template}
+                      values={previewValues}
+                      trend={activeTrend}
+                      priceHistory={priceHistory}
+                      size={outputSize}
+                      crop={imageCrop}
+                      theme={activeTheme}
+                    />
+                  </div>
+                  <SafeZoneOverlay
+                    shown={shownGuides}
+                    overlaps={zoneOverlaps}
+                    size={outputSize}
+                    duration={project.feed.duration}
                   />
-                )}
+                </div>
               </div>
             </div>
           </div>
+
+          <div className="mt-6">
+            <LegibilityPanel
+              checks={legibility}
+              fields={template.fields}
+              accentLight={currentPalette.accentLight}
+              onApplyFix={applyLegibilityFix}
+            />
+          </div>
         </div>
 
         <div
           className="mt-8 p-6 rounded-xl"
           style={{
-            backgroundColor: '#131312',
-            border: '2px solid #4c402b',
+            backgroundColor: 'var(--color-surface)',
+            border: '2px solid var(--color-border)',
           }}
         >
-          <h3 className="mb-4" style={{ fontSize: '20px', color: '#eed093', fontWeight: '700' }}>
+          <h3 className="mb-4" style={{ fontSize: '20px', color: 'var(--color-muted)', fontWeight: '700' }}>
             Tips for High-CTR Thumbnails
           </h3>
-          <ul className="space-y-2" style={{ color: '#f9f9f9', opacity: 0.8 }}>
+          <ul className="space-y-2" style={{ color: 'var(--color-text)', opacity: 0.8 }}>
             <li>Use high-quality Pokemon card images (400 x 600 or larger).</li>
             <li>Keep titles short and bold (3-5 words reads best).</li>
             <li>Match the change percent to the biggest weekly move.</li>
             <li>Test readability at small size before publishing.</li>
-            <li>Export as PNG for crisp text and gradients.</li>
+            <li>Export as PNG for crisp text and gradients, or WebP with auto-fit to stay under 2 MB.</li>
           </ul>
         </div>
+
+        <CaptureStage stageRef={stageRef} jobs={stageJobs} />
       </div>
     </div>
   );
@@ -0,0 +1,52 @@
+import React from 'react';
+import type { ImageCrop, PricePoint, TrendDirection } from '../types';
+import type { ThumbnailTemplate, ThumbnailValues } from '../templates/types';
+import { getDesignSize, getLayout, type OutputSize } from '../lib/output-sizes';
+import { defaultImageCrop } from '../lib/image-crop';
+import { getBuiltinTheme, type Theme } from '../lib/theme';
+
+export interface ThumbnailFrameProps {
+  template: ThumbnailTemplate;
+  values: ThumbnailValues;
+  trend: TrendDirection;
+  priceHistory: PricePoint[];
+  size: OutputSize;
+  crop?: ImageCrop;
+  theme?: Theme | null;
+}
+
+// Renders a template at its design size for the layout and scales it to the exact output pixels.
+export function ThumbnailFrame({
+  template,
+  values,
+  trend,
+  priceHistory,
+  size,
+  crop = defaultImageCrop,
+  theme,
+}: ThumbnailFrameProps) {
+  const TemplateComponent = template.component;
+  const design = getDesignSize(size);
+  const scale = size.width / design.width;
+
+  return (
+    <div className="relative overflow-hidden" style={{ width: size.width, height: size.height }}>
+      <div
+        style={
+          scale === 1 ? undefined : { transform: `scale(${scale})`, transformOrigin: 'top left', width: design.width }
+        }
+      >
+        <TemplateComponent
+          values={values}
+          trend={trend}
+          priceHistory={priceHistory}
+          crop={crop}
+          layout={getLayout(size)}
+          width={design.width}
+          height={design.height}
+          theme={theme ?? getBuiltinTheme(template.defaultThemeId)}
+        />
+      </div>
+    </div>
+  );
+}
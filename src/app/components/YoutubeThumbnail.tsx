@@ -1,8 +1,15 @@
-import React from 'react';
+import React, { useId } from 'react';
 import { AreaChart, Area, XAxis, YAxis, ResponsiveContainer, ReferenceLine } from 'recharts';
 import { AlertCircle, ArrowUp, ArrowDown } from 'lucide-react';
+import type { ImageCrop, PricePoint, ThumbnailLayout, TrendDirection } from '../types';
+import { getChartDomain, toChartData } from '../lib/price-history';
+import { getBuiltinTheme, glowColor, toCssGradient, type Theme } from '../lib/theme';
+import type { TextBox } from '../lib/text-fit';
+import { CardImage } from './CardImage';
+import { FitText } from './FitText';
+import { useStaticRender } from './static-render';
 
-type TrendDirection = 'up' | 'down';
+export type ChartCurve = 'monotone' | 'linear' | 'step';
 
 interface YoutubeThumbnailProps {
   cardImage?: string;
@@ -12,6 +19,13 @@ interface YoutubeThumbnailProps {
   changePercent?: string;
   timeframe?: string;
   trend?: TrendDirection;
+  priceHistory?: PricePoint[];
+  chartCurve?: ChartCurve;
+  cardCrop?: ImageCrop;
+  layout?: ThumbnailLayout;
+  width?: number;
+  height?: number;
+  theme?: Theme;
 }
 
 const upChartData = [20, 22, 19, 25, 23, 28, 32, 45, 55, 72, 95].map((value, index) => ({
@@ -24,36 +38,9 @@ const downChartData = [95, 88, 82, 76, 69, 63, 58, 50, 42, 33, 22].map((value, i
   value,
 }));
 
-const trendTheme: Record<TrendDirection, {
-  accent: string;
-  accentLight: string;
-  accentSoft: string;
-  accentShadow: string;
-  accentGlow: string;
-  background: string;
-  badgeText: string;
-  trendLabel: string;
-}> = {
-  up: {
-    accent: '#aa781d',
-    accentLight: '#eed093',
-    accentSoft: '#4c402b',
-    accentShadow: 'rgba(170, 120, 29, 0.6)',
-    accentGlow: 'rgba(238, 208, 147, 0.3)',
-    background: 'linear-gradient(145deg, #070707 0%, #131312 50%, #0a0a0a 100%)',
-    badgeText: 'PRICE ALERT',
-    trendLabel: 'RISING FAST',
-  },
-  down: {
-    accent: '#b42318',
-    accentLight: '#ffb4a2',
-    accentSoft: '#5f1b15',
-    accentShadow: 'rgba(180, 35, 24, 0.6)',
-    accentGlow: 'rgba(255, 180, 162, 0.35)',
-    background: 'linear-gradient(145deg, #0b0505 0%, #170c0c 50%, #090505 100%)',
-    badgeText: 'PRICE DROP',
-    trendLabel: 'DROPPING FAST',
-  },
+const trendCopy: Record<TrendDirection, { badgeText: string; trendLabel: string }> = {
+  up: { badgeText: 'PRICE ALERT', trendLabel: 'RISING FAST' },
+  down: { badgeText: 'PRICE DROP', trendLabel: 'DROPPING FAST' },
 };
 
 export function YoutubeThumbnail({
@@ -64,259 +51,319 @@ export function YoutubeThumbnail({
   changePercent = '375',
   timeframe = 'IN 7 DAYS',
   trend = 'up',
+  priceHistory = [],
+  chartCurve = 'monotone',
+  cardCrop,
+  layout = 'landscape',
+  width = 1280,
+  height = 720,
+  theme = getBuiltinTheme('classic'),
 }: YoutubeThumbnailProps) {
-  const theme = trendTheme[trend];
+  const palette = theme.trends[trend];
+  const copy = trendCopy[trend];
+  const accentShadow = glowColor(theme, palette.accent, 0.6);
+  const accentGlow = glowColor(theme, palette.accentLight, 0.3);
+  const glowOpacity = (base: number) => Math.min(1, base * theme.glow);
+  const background = toCssGradient(palette.background);
   const ArrowIcon = trend === 'down' ? ArrowDown : ArrowUp;
-  const chartData = trend === 'down' ? downChartData : upChartData;
-  const referenceLineValue = trend === 'down' ? 80 : 20;
+  const hasHistory = priceHistory.length > 1;
+  const chartData = hasHistory ? toChartData(priceHistory) : trend === 'down' ? downChartData : upChartData;
+  const chartDomain = hasHistory ? getChartDomain(priceHistory) : [0, 100];
+  const referenceLineValue = hasHistory ? priceHistory[0].price : trend === 'down' ? 80 : 20;
   const normalizedChange = changePercent.trim().replace(/^[+-]/, '').replace(/%/g, '') || '0';
   const changeText = `${trend === 'down' ? '-' : '+'}${normalizedChange}%`;
+  const isStacked = layout === 'stacked';
+  const isStatic = useStaticRender();
+  // SVG ids are document-wide and the feed, batch grid and capture stage show several thumbnails at once.
+  // The colons are dropped to keep the url(#…) references plain.
+  const svgId = useId().replace(/:/g, '');
+  const chartHeight = isStacked ? Math.round(height * 0.16) : 320;
+  const cardHeight = isStacked ? Math.round(height * 0.42) : 560;
+  const cardWidth = isStacked ? Math.round(cardHeight / 1.4) : 400;
+  // The text column is what the p-12 padding, the gap and the 420px card column leave.
+  const columnWidth = isStacked ? width - 96 : width - 548;
+  const textBoxes: Record<'title' | 'subtitle' | 'changePercent' | 'timeframe' | 'price', TextBox> = {
+    title: { width: columnWidth, height: 116, minSize: 32, maxSize: 52, maxLines: 2 },
+    subtitle: { width: columnWidth, height: 34, minSize: 18, maxSize: 28 },
+    changePercent: { width: 260, height: 40, minSize: 24, maxSize: 40 },
+    timeframe: { width: 260, height: 22, minSize: 12, maxSize: 18 },
+    price: { width: Math.round(cardWidth * 0.7), height: 48, minSize: 28, maxSize: 48 },
+  };
 
-  return (
-    <div
-      className="relative w-[1280px] h-[720px] overflow-hidden"
-      style={{ background: theme.background }}
-    >
-      <div className="absolute top-0 left-0 w-full h-full">
-        <div
-          className="absolute top-[-20%] left-[-10%] w-[600px] h-[600px] rounded-full opacity-20 blur-[120px]"
-          style={{ background: `radial-gradient(circle, ${theme.accent} 0%, transparent 70%)` }}
-        ></div>
-        <div
-          className="absolute bottom-[-20%] right-[-10%] w-[500px] h-[500px] rounded-full opacity-15 blur-[100px]"
-          style={{ background: `radial-gradient(circle, ${theme.accentLight} 0%, transparent 70%)` }}
-        ></div>
-        <div
-          className="absolute top-[20%] right-[35%] w-[200px] h-[200px] rounded-full opacity-60 blur-[70px]"
+  const badge = (
+    <div className={`flex items-center gap-3 ${isStacked ? 'justify-center' : 'mb-6'}`}>
+      <div
+        className="flex items-center gap-2 px-6 py-4 rounded-full border-[3px] shadow-2xl animate-pulse"
+        data-palette-bg="surface"
+        style={{
+          backgroundColor: palette.surface,
+          borderColor: palette.accent,
+          boxShadow: `0 0 40px ${accentShadow}, 0 0 80px ${accentGlow}`,
+        }}
+      >
+        <AlertCircle className="w-8 h-8" style={{ color: palette.accentLight }} />
+        <span
+          className="tracking-wider"
+          data-text-slot="badge"
+          data-palette-fg="accentLight"
           style={{
-            background: `radial-gradient(circle, ${theme.accentLight} 0%, transparent 60%)`,
+            color: palette.accentLight,
+            fontSize: '24px',
+            fontFamily: 'var(--font-display)',
+            fontWeight: '900',
+            letterSpacing: '0.1em',
+            textTransform: 'uppercase',
           }}
-        ></div>
+        >
+          {copy.badgeText}
+        </span>
       </div>
+    </div>
+  );
 
-      <div className="relative z-10 flex h-full gap-8 p-12">
-        <div className="flex-1 flex flex-col justify-center">
-          <div className="flex items-center gap-3 mb-6">
-            <div
-              className="flex items-center gap-2 px-6 py-4 rounded-full border-[3px] shadow-2xl animate-pulse"
+  const chart = (
+    <div className={`relative ${isStacked ? 'w-full' : 'mb-6'}`}>
+      <div
+        className="absolute top-0 left-0 z-10 px-8 py-5 rounded-xl"
+        data-palette-bg="accent"
+        style={{
+          backgroundColor: palette.accent,
+          border: `3px solid ${palette.accentLight}`,
+          boxShadow: `0 12px 40px ${accentShadow}, 0 0 60px ${accentGlow}`,
+        }}
+      >
+        <div className="flex items-center gap-3">
+          <ArrowIcon className="w-10 h-10" style={{ color: palette.onAccent, strokeWidth: 4 }} />
+          <div>
+            <FitText
+              text={changeText}
+              box={textBoxes.changePercent}
+              data-text-slot="changePercent"
+              data-palette-fg="onAccent"
               style={{
-                backgroundColor: '#131312',
-                borderColor: theme.accent,
-                boxShadow: `0 0 40px ${theme.accentShadow}, 0 0 80px ${theme.accentGlow}`,
+                color: palette.onAccent,
+                fontWeight: '900',
+                fontFamily: 'var(--font-display)',
+                lineHeight: 1,
               }}
-            >
-              <AlertCircle className="w-8 h-8" style={{ color: theme.accentLight }} />
-              <span
-                className="tracking-wider"
-                style={{
-                  color: theme.accentLight,
-                  fontSize: '24px',
-                  fontFamily: 'var(--font-display)',
-                  fontWeight: '900',
-                  letterSpacing: '0.1em',
-                  textTransform: 'uppercase',
-                }}
-              >
-                {theme.badgeText}
-              </span>
-            </div>
-          </div>
-
-          <div className="relative mb-6">
-            <div
-              className="absolute top-0 left-0 z-10 px-8 py-5 rounded-xl"
+            />
+            <FitText
+              text={timeframe}
+              box={textBoxes.timeframe}
+              data-text-slot="timeframe"
+              data-palette-fg="onAccent"
               style={{
-                backgroundColor: theme.accent,
-                border: `3px solid ${theme.accentLight}`,
-                boxShadow: `0 12px 40px ${theme.accentShadow}, 0 0 60px ${theme.accentGlow}`,
+                color: palette.onAccent,
+                fontWeight: '800',
+                marginTop: '2px',
+                fontFamily: 'var(--font-body)',
+                textTransform: 'uppercase',
+                letterSpacing: '0.08em',
               }}
-            >
-              <div className="flex items-center gap-3">
-                <ArrowIcon className="w-10 h-10" style={{ color: '#f9f9f9', strokeWidth: 4 }} />
-                <div>
-                  <div
-                    style={{
-                      fontSize: '40px',
-                      color: '#f9f9f9',
-                      fontWeight: '900',
-                      fontFamily: 'var(--font-display)',
-                      lineHeight: 1,
-                    }}
-                  >
-                    {changeText}
-                  </div>
-                  <div
-                    style={{
-                      fontSize: '18px',
-                      color: '#f9f9f9',
-                      fontWeight: '800',
-                      marginTop: '2px',
-                      fontFamily: 'var(--font-body)',
-                      textTransform: 'uppercase',
-                      letterSpacing: '0.08em',
-                    }}
-                  >
-                    {timeframe}
-                  </div>
-                </div>
-              </div>
-            </div>
-
-            <ResponsiveContainer width="100%" height={320}>
-              <AreaChart data={chartData} margin={{ top: 20, right: 20, bottom: 0, left: 0 }}>
-                <defs>
-                  <linearGradient id={`chartGradient-${trend}`} x1="0" y1="0" x2="0" y2="1">
-                    <stop offset="0%" stopColor={theme.accentLight} stopOpacity={0.6} />
-                    <stop offset="50%" stopColor={theme.accent} stopOpacity={0.3} />
-                    <stop offset="100%" stopColor={theme.accent} stopOpacity={0} />
-                  </linearGradient>
-                  <filter id={`glow-${trend}`}>
-                    <feGaussianBlur stdDeviation="3" result="coloredBlur" />
-                    <feMerge>
-                      <feMergeNode in="coloredBlur" />
-                      <feMergeNode in="SourceGraphic" />
-                    </feMerge>
-                  </filter>
-                </defs>
-                <XAxis dataKey="time" hide={true} />
-                <YAxis hide={true} domain={[0, 100]} />
-                <Area
-                  type="monotone"
-                  dataKey="value"
-                  stroke={theme.accentLight}
-                  strokeWidth={4}
-                  fill={`url(#chartGradient-${trend})`}
-                  filter={`url(#glow-${trend})`}
-                />
-                <ReferenceLine
-                  y={referenceLineValue}
-                  stroke={theme.accentSoft}
-                  strokeDasharray="6 6"
-                  strokeWidth={2}
-                  opacity={0.5}
-                />
-              </AreaChart>
-            </ResponsiveContainer>
+            />
           </div>
+        </div>
+      </div>
 
-          <div className="flex items-center gap-4">
-            <div>
-              <div
-                style={{
-                  fontSize: '52px',
-                  color: '#f9f9f9',
-                  fontWeight: '900',
-                  fontFamily: 'var(--font-display)',
-                  lineHeight: '1.1',
-                  textShadow: `0 4px 12px rgba(0, 0, 0, 0.9), 0 0 20px ${theme.accentGlow}`,
-                  textTransform: 'uppercase',
-                  letterSpacing: '-0.02em',
-                }}
-              >
-                {title}
-              </div>
-              <div className="flex items-center gap-2 mt-2">
-                <div
-                  style={{
-                    fontSize: '28px',
-                    color: theme.accentLight,
-                    fontWeight: '900',
-                    fontFamily: 'var(--font-display)',
-                    textShadow: '0 2px 8px rgba(0, 0, 0, 0.8)',
-                    textTransform: 'uppercase',
-                    letterSpacing: '0.05em',
-                  }}
-                >
-                  {subtitle}
-                </div>
-              </div>
-            </div>
-          </div>
+      <ResponsiveContainer width="100%" height={chartHeight}>
+        <AreaChart data={chartData} margin={{ top: 20, right: 20, bottom: 0, left: 0 }}>
+          <defs>
+            <linearGradient id={`chartGradient-${svgId}`} x1="0" y1="0" x2="0" y2="1">
+              <stop offset="0%" stopColor={palette.accentLight} stopOpacity={0.6} />
+              <stop offset="50%" stopColor={palette.accent} stopOpacity={0.3} />
+              <stop offset="100%" stopColor={palette.accent} stopOpacity={0} />
+            </linearGradient>
+            <filter id={`glow-${svgId}`}>
+              <feGaussianBlur stdDeviation="3" result="coloredBlur" />
+              <feMerge>
+                <feMergeNode in="coloredBlur" />
+                <feMergeNode in="SourceGraphic" />
+              </feMerge>
+            </filter>
+          </defs>
+          <XAxis dataKey="time" hide={true} />
+          <YAxis hide={true} domain={chartDomain} />
+          <Area
+            isAnimationActive={!isStatic}
+            type={chartCurve}
+            dataKey="value"
+            stroke={palette.accentLight}
+            strokeWidth={4}
+            fill={`url(#chartGradient-${svgId})`}
+            filter={`url(#glow-${svgId})`}
+          />
+          <ReferenceLine
+            y={referenceLineValue}
+            stroke={palette.accentSoft}
+            strokeDasharray="6 6"
+            strokeWidth={2}
+            opacity={0.5}
+          />
+        </AreaChart>
+      </ResponsiveContainer>
+    </div>
+  );
+
+  const titleBlock = (
+    <div className={`flex items-center gap-4 ${isStacked ? 'justify-center text-center' : ''}`}>
+      <div>
+        <FitText
+          text={title}
+          box={textBoxes.title}
+          data-text-slot="title"
+          data-palette-fg="text"
+          style={{
+            color: palette.text,
+            fontWeight: '900',
+            fontFamily: 'var(--font-display)',
+            lineHeight: '1.1',
+            textShadow: `0 4px 12px rgba(0, 0, 0, 0.9), 0 0 20px ${accentGlow}`,
+            textTransform: 'uppercase',
+            letterSpacing: '-0.02em',
+          }}
+        />
+        <div className={`flex items-center gap-2 mt-2 ${isStacked ? 'justify-center' : ''}`}>
+          <FitText
+            text={subtitle}
+            box={textBoxes.subtitle}
+            data-text-slot="subtitle"
+            data-palette-fg="accentLight"
+            style={{
+              color: palette.accentLight,
+              fontWeight: '900',
+              fontFamily: 'var(--font-display)',
+              textShadow: '0 2px 8px rgba(0, 0, 0, 0.8)',
+              textTransform: 'uppercase',
+              letterSpacing: '0.05em',
+            }}
+          />
         </div>
+      </div>
+    </div>
+  );
 
-        <div className="w-[420px] flex items-center justify-center">
-          <div className="relative">
-            <div
-              className="absolute inset-0 rounded-3xl blur-3xl opacity-85"
-              style={{
-                background: `linear-gradient(135deg, ${theme.accent} 0%, ${theme.accentLight} 100%)`,
-                transform: 'scale(1.15)',
-              }}
-            ></div>
-            <div
-              className="absolute inset-0 rounded-3xl blur-xl opacity-50"
-              style={{
-                background: `radial-gradient(circle, ${theme.accentLight} 0%, transparent 70%)`,
-                transform: 'scale(1.2)',
-              }}
-            ></div>
+  const card = (
+    <div className="relative">
+      <div
+        className="absolute inset-0 rounded-3xl blur-3xl"
+        style={{
+          opacity: glowOpacity(0.85),
+          background: `linear-gradient(135deg, ${palette.accent} 0%, ${palette.accentLight} 100%)`,
+          transform: 'scale(1.15)',
+        }}
+      ></div>
+      <div
+        className="absolute inset-0 rounded-3xl blur-xl"
+        style={{
+          opacity: glowOpacity(0.5),
+          background: `radial-gradient(circle, ${palette.accentLight} 0%, transparent 70%)`,
+          transform: 'scale(1.2)',
+        }}
+      ></div>
 
-            <div
-              className="relative rounded-3xl overflow-hidden shadow-2xl"
-              style={{
-                border: `5px solid ${theme.accent}`,
-                boxShadow: `0 25px 80px rgba(0, 0, 0, 0.9), 0 0 60px ${theme.accentShadow}, inset 0 0 20px ${theme.accentGlow}`,
-              }}
-            >
-              <img
-                src={cardImage}
-                alt="Pokemon Card"
-                crossOrigin="anonymous"
-                referrerPolicy="no-referrer"
-                className="w-full h-auto"
-                style={{
-                  width: '400px',
-                  height: '560px',
-                  objectFit: 'cover',
-                }}
-              />
-            </div>
+      <div
+        className="relative rounded-3xl overflow-hidden shadow-2xl"
+        style={{
+          border: `5px solid ${palette.accent}`,
+          boxShadow: `0 25px 80px rgba(0, 0, 0, 0.9), 0 0 60px ${accentShadow}, inset 0 0 20px ${accentGlow}`,
+        }}
+      >
+        <CardImage src={cardImage} width={cardWidth} height={cardHeight} crop={cardCrop} />
+      </div>
 
-            <div
-              className="absolute -top-8 -left-8 px-10 py-6 rounded-2xl -rotate-6 shadow-2xl"
-              style={{
-                backgroundColor: theme.accent,
-                border: `4px solid ${theme.accentLight}`,
-                boxShadow: `0 12px 40px rgba(0, 0, 0, 0.95), 0 0 60px ${theme.accentGlow}`,
-              }}
-            >
-              <div
-                style={{
-                  fontSize: '48px',
-                  color: '#f9f9f9',
-                  fontWeight: '900',
-                  fontFamily: 'var(--font-display)',
-                  lineHeight: '1',
-                  textShadow: '0 4px 8px rgba(0, 0, 0, 0.5)',
-                }}
-              >
-                {price}
-              </div>
-              <div className="flex items-center gap-1 mt-1">
-                <ArrowIcon className="w-5 h-5" style={{ color: '#f9f9f9', strokeWidth: 4 }} />
-                <span
-                  style={{
-                    fontSize: '16px',
-                    color: '#f9f9f9',
-                    fontWeight: '800',
-                    fontFamily: 'var(--font-body)',
-                    textTransform: 'uppercase',
-                    letterSpacing: '0.1em',
-                  }}
-                >
-                  {theme.trendLabel}
-                </span>
-              </div>
-            </div>
-          </div>
+      <div
+        className="absolute -top-8 -left-8 px-10 py-6 rounded-2xl -rotate-6 shadow-2xl"
+        data-palette-bg="accent"
+        style={{
+          backgroundColor: palette.accent,
+          border: `4px solid ${palette.accentLight}`,
+          boxShadow: `0 12px 40px rgba(0, 0, 0, 0.95), 0 0 60px ${accentGlow}`,
+        }}
+      >
+        <FitText
+          text={price}
+          box={textBoxes.price}
+          data-text-slot="price"
+          data-palette-fg="onAccent"
+          style={{
+            color: palette.onAccent,
+            fontWeight: '900',
+            fontFamily: 'var(--font-display)',
+            lineHeight: '1',
+            textShadow: '0 4px 8px rgba(0, 0, 0, 0.5)',
+          }}
+        />
+        <div className="flex items-center gap-1 mt-1">
+          <ArrowIcon className="w-5 h-5" style={{ color: palette.onAccent, strokeWidth: 4 }} />
+          <span
+            data-text-slot="trendLabel"
+            data-palette-fg="onAccent"
+            style={{
+              fontSize: '16px',
+              color: palette.onAccent,
+              fontWeight: '800',
+              fontFamily: 'var(--font-body)',
+              textTransform: 'uppercase',
+              letterSpacing: '0.1em',
+            }}
+          >
+            {copy.trendLabel}
+          </span>
         </div>
       </div>
+    </div>
+  );
+
+  return (
+    <div className="relative overflow-hidden" data-palette-bg="background" style={{ width, height, background }}>
+      <div className="absolute top-0 left-0 w-full h-full">
+        <div
+          className="absolute top-[-20%] left-[-10%] w-[600px] h-[600px] rounded-full blur-[120px]"
+          style={{
+            opacity: glowOpacity(0.2),
+            background: `radial-gradient(circle, ${palette.accent} 0%, transparent 70%)`,
+          }}
+        ></div>
+        <div
+          className="absolute bottom-[-20%] right-[-10%] w-[500px] h-[500px] rounded-full blur-[100px]"
+          style={{
+            opacity: glowOpacity(0.15),
+            background: `radial-gradient(circle, ${palette.accentLight} 0%, transparent 70%)`,
+          }}
+        ></div>
+        <div
+          className="absolute top-[20%] right-[35%] w-[200px] h-[200px] rounded-full blur-[70px]"
+          style={{
+            opacity: glowOpacity(0.6),
+            background: `radial-gradient(circle, ${palette.accentLight} 0%, transparent 60%)`,
+          }}
+        ></div>
+      </div>
+
+      {isStacked ? (
+        <div className="relative z-10 flex flex-col justify-between items-center h-full gap-6 p-12">
+          {badge}
+          <div className="flex-1 flex items-center justify-center">{card}</div>
+          {chart}
+          {titleBlock}
+        </div>
+      ) : (
+        <div className="relative z-10 flex h-full gap-8 p-12">
+          <div className="flex-1 flex flex-col justify-center">
+            {badge}
+            {chart}
+            {titleBlock}
+          </div>
+
+          <div className="w-[420px] flex items-center justify-center">{card}</div>
+        </div>
+      )}
 
       <div
         className="absolute top-0 left-0 right-0 h-3"
         style={{
-          background: `linear-gradient(90deg, ${theme.accent} 0%, ${theme.accentLight} 30%, ${theme.accent} 50%, ${theme.accentLight} 70%, ${theme.accent} 100%)`,
-          boxShadow: `0 0 20px ${theme.accentGlow}`,
+          background: `linear-gradient(90deg, ${palette.accent} 0%, ${palette.accentLight} 30%, ${palette.accent} 50%, ${palette.accentLight} 70%, ${palette.accent} 100%)`,
+          boxShadow: `0 0 20px ${accentGlow}`,
         }}
       ></div>
     </div>
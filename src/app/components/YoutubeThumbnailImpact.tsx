@@ -1,8 +1,13 @@
-import React from 'react';
+import React, { useId } from 'react';
 import { AreaChart, Area, XAxis, YAxis, ResponsiveContainer } from 'recharts';
 import { ArrowUp, ArrowDown, ArrowRight } from 'lucide-react';
-
-type TrendDirection = 'up' | 'down';
+import type { ImageCrop, PricePoint, ThumbnailLayout, TrendDirection } from '../types';
+import { getChartDomain, toChartData } from '../lib/price-history';
+import { getBuiltinTheme, glowColor, toCssGradient, withAlpha, type Theme } from '../lib/theme';
+import type { TextBox } from '../lib/text-fit';
+import { CardImage } from './CardImage';
+import { FitText } from './FitText';
+import { useStaticRender } from './static-render';
 
 interface YoutubeThumbnailImpactProps {
   cardImage?: string;
@@ -13,6 +18,14 @@ interface YoutubeThumbnailImpactProps {
   changePercent?: string;
   timeframe?: string;
   trend?: TrendDirection;
+  priceHistory?: PricePoint[];
+  cardTilt?: number;
+  cardBorderColor?: string;
+  cardCrop?: ImageCrop;
+  layout?: ThumbnailLayout;
+  width?: number;
+  height?: number;
+  theme?: Theme;
 }
 
 const spikeUpData = [12, 20, 14, 35, 22, 60, 30, 78, 42, 92, 98].map((value, index) => ({
@@ -25,34 +38,6 @@ const spikeDownData = [92, 78, 88, 60, 72, 38, 55, 32, 48, 16, 6].map((value, in
   value,
 }));
 
-type ImpactTheme = {
-  accent: string;
-  accentBright: string;
-  accentSoft: string;
-  accentGlow: string;
-  background: string;
-  percentGlow: string;
-};
-
-const impactTheme: Record<TrendDirection, ImpactTheme> = {
-  up: {
-    accent: '#39ff7a',
-    accentBright: '#18d85c',
-    accentSoft: 'rgba(12, 59, 31, 0.8)',
-    accentGlow: 'rgba(57, 255, 122, 0.45)',
-    background: 'linear-gradient(135deg, #050807 0%, #0b1411 45%, #050807 100%)',
-    percentGlow: '0 0 30px rgba(57, 255, 122, 0.7)',
-  },
-  down: {
-    accent: '#ff4b4b',
-    accentBright: '#ff2d2d',
-    accentSoft: 'rgba(82, 16, 16, 0.8)',
-    accentGlow: 'rgba(255, 75, 75, 0.45)',
-    background: 'linear-gradient(135deg, #080505 0%, #160a0a 45%, #080505 100%)',
-    percentGlow: '0 0 30px rgba(255, 75, 75, 0.7)',
-  },
-};
-
 export function YoutubeThumbnailImpact({
   cardImage = 'https://images.unsplash.com/photo-1606502281004-f86cf1282af5?w=400&h=600&fit=crop',
   title = 'UP 362%',
@@ -62,158 +47,207 @@ export function YoutubeThumbnailImpact({
   changePercent = '362',
   timeframe = 'IN 7 DAYS',
   trend = 'up',
+  priceHistory = [],
+  cardTilt = -6,
+  cardBorderColor = 'rgba(255, 255, 255, 0.95)',
+  cardCrop,
+  layout = 'landscape',
+  width = 1280,
+  height = 720,
+  theme = getBuiltinTheme('neon'),
 }: YoutubeThumbnailImpactProps) {
-  const theme = impactTheme[trend];
+  const palette = theme.trends[trend];
+  const accentGlow = glowColor(theme, palette.accent, 0.45);
+  const percentGlow = `0 0 30px ${glowColor(theme, palette.accent, 0.7)}`;
+  const glowOpacity = (base: number) => Math.min(1, base * theme.glow);
+  const cardGlow = withAlpha(palette.accentLight, 0.25);
   const ArrowIcon = trend === 'down' ? ArrowDown : ArrowUp;
-  const chartData = trend === 'down' ? spikeDownData : spikeUpData;
+  const hasHistory = priceHistory.length > 1;
+  const chartData = hasHistory ? toChartData(priceHistory) : trend === 'down' ? spikeDownData : spikeUpData;
+  const chartDomain = hasHistory ? getChartDomain(priceHistory) : [0, 100];
   const normalizedChange = changePercent.trim().replace(/^[+-]/, '').replace(/%/g, '') || '0';
   const changeText = `${trend === 'down' ? '-' : '+'}${normalizedChange}%`;
+  const isStacked = layout === 'stacked';
+  const isStatic = useStaticRender();
+  // Unique per instance, so another thumbnail on the page cannot lend this one its gradient.
+  const svgId = useId().replace(/:/g, '');
+  const cardHeight = isStacked ? Math.round(height * 0.45) : 660;
+  const cardWidth = isStacked ? Math.round(cardHeight * 0.7) : 460;
+  const chartHeight = isStacked ? Math.round(height * 0.14) : 240;
+  // The landscape headline may spill past its 560px column, up to about 600px, before it nears the card.
+  const headlineWidth = isStacked ? width - 96 : 600;
+  // The price row also holds the arrow, two gaps and each box's px-8 padding.
+  const priceRowWidth = headlineWidth - 208;
+  const textBoxes: Record<'changePercent' | 'beforePrice' | 'price', TextBox> = {
+    changePercent: { width: headlineWidth - 128, height: 110, minSize: 56, maxSize: 114 },
+    beforePrice: { width: Math.round(priceRowWidth * 0.45), height: 72, minSize: 32, maxSize: 60 },
+    price: { width: Math.round(priceRowWidth * 0.55), height: 87, minSize: 36, maxSize: 72 },
+  };
+
+  const chart = (
+    <ResponsiveContainer width="100%" height="100%">
+      <AreaChart data={chartData} margin={{ top: 10, right: 10, bottom: 0, left: 0 }}>
+        <defs>
+          <linearGradient id={`impactGradient-${svgId}`} x1="0" y1="0" x2="0" y2="1">
+            <stop offset="0%" stopColor={palette.accent} stopOpacity={0.65} />
+            <stop offset="100%" stopColor={palette.accent} stopOpacity={0} />
+          </linearGradient>
+        </defs>
+        <XAxis dataKey="time" hide={true} />
+        <YAxis hide={true} domain={chartDomain} />
+        <Area
+          isAnimationActive={!isStatic}
+          type="linear"
+          dataKey="value"
+          stroke={palette.accent}
+          strokeWidth={10}
+          fill={`url(#impactGradient-${svgId})`}
+          dot={false}
+        />
+      </AreaChart>
+    </ResponsiveContainer>
+  );
+
+  const headline = (
+    <>
+      <div
+        className="relative z-10 flex items-center justify-center gap-4"
+        style={{ marginTop: isStacked ? `-${Math.round(chartHeight * 0.35)}px` : '8px' }}
+      >
+        <ArrowIcon className="w-28 h-28" style={{ color: palette.accent, strokeWidth: 5 }} />
+        <FitText
+          text={changeText}
+          box={textBoxes.changePercent}
+          data-text-slot="changePercent"
+          data-palette-fg="accent"
+          style={{
+            color: palette.accent,
+            fontWeight: '900',
+            fontFamily: 'var(--font-display)',
+            lineHeight: 0.95,
+            textShadow: `0 10px 24px rgba(0, 0, 0, 0.75), ${percentGlow}`,
+          }}
+        />
+      </div>
+
+      <div className="relative z-10 flex items-center justify-center gap-4" style={{ marginTop: '-2px' }}>
+        <FitText
+          text={beforePrice}
+          box={textBoxes.beforePrice}
+          className="px-8 py-5 rounded-xl"
+          data-text-slot="beforePrice"
+          data-palette-fg="surface"
+          data-palette-bg="text"
+          style={{
+            backgroundColor: palette.text,
+            color: palette.surface,
+            fontWeight: '900',
+            fontFamily: 'var(--font-display)',
+            boxShadow: `0 14px 24px rgba(0, 0, 0, 0.65), 0 0 22px ${accentGlow}`,
+          }}
+        />
+        <ArrowRight className="w-12 h-12" style={{ color: palette.accent, strokeWidth: 5 }} />
+        <FitText
+          text={price}
+          box={textBoxes.price}
+          className="px-8 py-5 rounded-xl"
+          data-text-slot="price"
+          data-palette-fg="onAccent"
+          data-palette-bg="accent"
+          style={{
+            backgroundColor: palette.accent,
+            color: palette.onAccent,
+            fontWeight: '900',
+            fontFamily: 'var(--font-display)',
+            boxShadow: `0 14px 26px rgba(0, 0, 0, 0.65), 0 0 30px ${accentGlow}`,
+          }}
+        />
+      </div>
+    </>
+  );
+
+  const card = (
+    <div
+      className="relative"
+      style={{
+        transform: `rotate(${cardTilt}deg) scale(1.1)`,
+        transformOrigin: 'center',
+      }}
+    >
+      <div
+        className="absolute inset-[-8%] rounded-[36px]"
+        style={{
+          opacity: glowOpacity(0.7),
+          background: `radial-gradient(circle, ${cardGlow} 0%, rgba(5, 10, 8, 0.05) 55%, transparent 70%)`,
+          filter: 'blur(12px)',
+        }}
+      ></div>
+      <div
+        className="absolute inset-0 rounded-[32px]"
+        style={{
+          border: `10px solid ${cardBorderColor}`,
+          boxShadow: `0 0 40px ${accentGlow}, 0 30px 80px rgba(0, 0, 0, 0.8)`,
+          transform: 'scale(1.03)',
+        }}
+      ></div>
+      <div
+        className="relative rounded-[28px] overflow-hidden"
+        style={{
+          border: `8px solid ${cardBorderColor}`,
+        }}
+      >
+        <CardImage src={cardImage} width={cardWidth} height={cardHeight} crop={cardCrop} />
+      </div>
+    </div>
+  );
 
   return (
     <div
-      className="relative w-[1280px] h-[720px] overflow-hidden"
-      style={{ background: theme.background }}
+      className="relative overflow-hidden"
+      data-palette-bg="background"
+      style={{ width, height, background: toCssGradient(palette.background) }}
     >
       <div className="absolute inset-0">
         <div
-          className="absolute -top-[20%] left-[-10%] w-[650px] h-[650px] rounded-full blur-[160px] opacity-70"
-          style={{ background: theme.accentGlow }}
+          className="absolute -top-[20%] left-[-10%] w-[650px] h-[650px] rounded-full blur-[160px]"
+          style={{ opacity: glowOpacity(0.7), background: accentGlow }}
         ></div>
         <div
-          className="absolute bottom-[-30%] right-[-10%] w-[520px] h-[520px] rounded-full blur-[140px] opacity-60"
-          style={{ background: theme.accentGlow }}
+          className="absolute bottom-[-30%] right-[-10%] w-[520px] h-[520px] rounded-full blur-[140px]"
+          style={{ opacity: glowOpacity(0.6), background: accentGlow }}
         ></div>
       </div>
 
-      <div className="relative z-10 flex h-full">
-        <div className="flex-1 flex items-center pl-12 pr-16">
-          <div
-            className="relative flex flex-col gap-2"
-            style={{
-              transform: 'translateY(120px) scale(1.12)',
-              transformOrigin: 'left center',
-              alignItems: 'center',
-              width: '560px',
-            }}
-          >
-            <div className="absolute -top-[260px] left-0 w-[640px] h-[240px] opacity-90 z-0">
-              <ResponsiveContainer width="100%" height="100%">
-                <AreaChart data={chartData} margin={{ top: 10, right: 10, bottom: 0, left: 0 }}>
-                  <defs>
-                    <linearGradient id={`impactGradient-${trend}`} x1="0" y1="0" x2="0" y2="1">
-                      <stop offset="0%" stopColor={theme.accent} stopOpacity={0.65} />
-                      <stop offset="100%" stopColor={theme.accent} stopOpacity={0} />
-                    </linearGradient>
-                  </defs>
-                  <XAxis dataKey="time" hide={true} />
-                  <YAxis hide={true} domain={[0, 100]} />
-                  <Area
-                    type="linear"
-                    dataKey="value"
-                    stroke={theme.accent}
-                  strokeWidth={10}
-                    fill={`url(#impactGradient-${trend})`}
-                    dot={false}
-                  />
-                </AreaChart>
-              </ResponsiveContainer>
-            </div>
-
-            <div
-              className="relative z-10 flex items-center justify-center gap-4"
-              style={{ marginTop: '8px' }}
-            >
-              <ArrowIcon className="w-28 h-28" style={{ color: theme.accent, strokeWidth: 5 }} />
-              <div
-                style={{
-                  fontSize: '114px',
-                  color: theme.accent,
-                  fontWeight: '900',
-                  fontFamily: 'var(--font-display)',
-                  lineHeight: 0.95,
-                  textShadow: `0 10px 24px rgba(0, 0, 0, 0.75), ${theme.percentGlow}`,
-                }}
-              >
-                {changeText}
-              </div>
-            </div>
-
-            <div className="relative z-10 flex items-center justify-center gap-4" style={{ marginTop: '-2px' }}>
-              <div
-                className="px-8 py-5 rounded-xl"
-                style={{
-                  backgroundColor: '#f9f9f9',
-                  color: '#111',
-                  fontWeight: '900',
-                  fontFamily: 'var(--font-display)',
-                  fontSize: '60px',
-                  boxShadow: `0 14px 24px rgba(0, 0, 0, 0.65), 0 0 22px ${theme.accentGlow}`,
-                }}
-              >
-                {beforePrice}
-              </div>
-              <ArrowRight className="w-12 h-12" style={{ color: theme.accent, strokeWidth: 5 }} />
-              <div
-                className="px-8 py-5 rounded-xl"
-                style={{
-                  backgroundColor: theme.accent,
-                  color: '#061008',
-                  fontWeight: '900',
-                  fontFamily: 'var(--font-display)',
-                  fontSize: '72px',
-                  boxShadow: `0 14px 26px rgba(0, 0, 0, 0.65), 0 0 30px ${theme.accentGlow}`,
-                }}
-              >
-                {price}
-              </div>
+      {isStacked ? (
+        <div className="relative z-10 flex flex-col items-center h-full px-12 py-16">
+          <div className="flex-1 flex items-center justify-center">{card}</div>
+          <div className="relative flex flex-col items-center gap-2 w-full">
+            <div className="w-full opacity-90 z-0" style={{ height: chartHeight }}>
+              {chart}
             </div>
+            {headline}
           </div>
         </div>
-
-        <div className="w-[520px] flex items-center justify-center pr-10">
-          <div
-            className="relative"
-            style={{
-              transform: 'rotate(-6deg) scale(1.1)',
-              transformOrigin: 'center',
-            }}
-          >
+      ) : (
+        <div className="relative z-10 flex h-full">
+          <div className="flex-1 flex items-center pl-12 pr-16">
             <div
-              className="absolute inset-[-8%] rounded-[36px] opacity-70"
+              className="relative flex flex-col gap-2"
               style={{
-                background: 'radial-gradient(circle, rgba(24, 216, 92, 0.25) 0%, rgba(5, 10, 8, 0.05) 55%, transparent 70%)',
-                filter: 'blur(12px)',
-              }}
-            ></div>
-            <div
-              className="absolute inset-0 rounded-[32px]"
-              style={{
-                border: '10px solid rgba(255, 255, 255, 0.95)',
-                boxShadow: `0 0 40px ${theme.accentGlow}, 0 30px 80px rgba(0, 0, 0, 0.8)`,
-                transform: 'scale(1.03)',
-              }}
-            ></div>
-            <div
-              className="relative rounded-[28px] overflow-hidden"
-              style={{
-                border: '8px solid rgba(255, 255, 255, 0.95)',
+                transform: 'translateY(120px) scale(1.12)',
+                transformOrigin: 'left center',
+                alignItems: 'center',
+                width: '560px',
               }}
             >
-              <img
-                src={cardImage}
-                alt="Pokemon Card"
-                crossOrigin="anonymous"
-                referrerPolicy="no-referrer"
-                style={{
-                  width: '460px',
-                  height: '660px',
-                  objectFit: 'cover',
-                }}
-              />
+              <div className="absolute -top-[260px] left-0 w-[640px] h-[240px] opacity-90 z-0">{chart}</div>
+              {headline}
             </div>
           </div>
+
+          <div className="w-[520px] flex items-center justify-center pr-10">{card}</div>
         </div>
-      </div>
+      )}
     </div>
   );
 }
@@ -0,0 +1,6 @@
+import { createContext, useContext } from 'react';
+
+// True while a thumbnail is rendered offscreen for export, where chart animations would only delay the capture.
+export const StaticRenderContext = createContext(false);
+
+export const useStaticRender = () => useContext(StaticRenderContext);
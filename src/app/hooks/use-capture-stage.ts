@@ -0,0 +1,44 @@
+import { useCallback, useRef, useState } from 'react';
+import type { ThumbnailFrameProps } from '../components/ThumbnailFrame';
+
+// Charts render without animation on the stage; this covers layout measurement and first paint.
+const RENDER_SETTLE_MS = 400;
+
+const wait = (ms: number) => new Promise<void>((resolve) => window.setTimeout(resolve, ms));
+
+export type StagedThumbnail = ThumbnailFrameProps & { key: string };
+
+export type CaptureStageJob = {
+  id: number;
+  items: StagedThumbnail[];
+};
+
+// Mounts snapshots of thumbnails offscreen so they can be captured at full size without touching the
+// live preview. Each call gets its own job, so several captures can run at once.
+export function useCaptureStage() {
+  const [jobs, setJobs] = useState<CaptureStageJob[]>([]);
+  const stageRef = useRef<HTMLDivElement>(null);
+  const nextJobId = useRef(0);
+
+  const runStaged = useCallback(
+    async <T,>(items: StagedThumbnail[], run: (nodes: HTMLElement[]) => Promise<T>) => {
+      nextJobId.current += 1;
+      const id = nextJobId.current;
+      setJobs((current) => [...current, { id, items }]);
+      try {
+        await wait(RENDER_SETTLE_MS);
+        const group = stageRef.current?.querySelector(`[data-stage-job="${id}"]`);
+        const nodes = Array.from(group?.children ?? []) as HTMLElement[];
+        if (nodes.length !== items.length) {
+          throw new Error('The thumbnails did not finish rendering.');
+        }
+        return await run(nodes);
+      } finally {
+        setJobs((current) => current.filter((job) => job.id !== id));
+      }
+    },
+    []
+  );
+
+  return { jobs, stageRef, runStaged };
+}
@@ -0,0 +1,64 @@
+import { useCallback, useEffect, useRef, useState } from 'react';
+import { MAX_COMPETITORS, type CompetitorThumbnail } from '../lib/feed-preview';
+import { validateImageFile } from '../lib/image-input';
+
+const titleFromFilename = (name: string) =>
+  name
+    .replace(/\.[^.]+$/, '')
+    .replace(/[-_]+/g, ' ')
+    .trim() || 'Competitor video';
+
+// Competitor thumbnails for the feed preview. They stay in memory for the session and are not saved
+// with the project.
+export function useCompetitorThumbnails() {
+  const [items, setItems] = useState<CompetitorThumbnail[]>([]);
+  const [error, setError] = useState<string | null>(null);
+  const urls = useRef(new Set<string>());
+  const shown = useRef(0);
+  const nextId = useRef(0);
+
+  // Object URLs are released once their thumbnail is gone from the committed list, whether it was removed
+  // or did not fit, so the updates below stay free of side effects.
+  useEffect(() => {
+    shown.current = items.length;
+    const kept = new Set(items.map((item) => item.src));
+    urls.current.forEach((url) => {
+      if (!kept.has(url)) {
+        URL.revokeObjectURL(url);
+        urls.current.delete(url);
+      }
+    });
+  }, [items]);
+
+  useEffect(() => {
+    const created = urls.current;
+    return () => created.forEach((url) => URL.revokeObjectURL(url));
+  }, []);
+
+  const add = useCallback((files: File[]) => {
+    const problems = files.map(validateImageFile).filter((problem): problem is string => problem !== null);
+    const added = files
+      .filter((file) => validateImageFile(file) === null)
+      .map((file) => {
+        const src = URL.createObjectURL(file);
+        urls.current.add(src);
+        nextId.current += 1;
+        return { id: `competitor-${nextId.current}`, src, title: titleFromFilename(file.name), channelName: '' };
+      });
+    if (shown.current + added.length > MAX_COMPETITORS) {
+      problems.push(`Up to ${MAX_COMPETITORS} competitor thumbnails fit in the preview.`);
+    }
+    setItems((current) => [...current, ...added].slice(0, MAX_COMPETITORS));
+    setError(problems[0] ?? null);
+  }, []);
+
+  const update = useCallback((id: string, patch: Partial<Omit<CompetitorThumbnail, 'id' | 'src'>>) => {
+    setItems((current) => current.map((item) => (item.id === id ? { ...item, ...patch } : item)));
+  }, []);
+
+  const remove = useCallback((id: string) => {
+    setItems((current) => current.filter((item) => item.id !== id));
+  }, []);
+
+  return { items, error, add, update, remove };
+}
@@ -0,0 +1,70 @@
+import { useEffect, useState, type RefObject } from 'react';
+import { captureThumbnail, type EncodeOptions } from '../lib/export';
+
+const ESTIMATE_DELAY = 1200;
+
+export type ExportEstimate = {
+  bytes: number | null;
+  quality: number | null;
+  overBudget: boolean;
+  pending: boolean;
+  error: string | null;
+};
+
+const initialEstimate: ExportEstimate = {
+  bytes: null,
+  quality: null,
+  overBudget: false,
+  pending: true,
+  error: null,
+};
+
+// Re-encodes the live preview after edits settle. `revision` should change whenever the preview does.
+export function useExportEstimate(nodeRef: RefObject<HTMLElement | null>, options: EncodeOptions, revision: string) {
+  const [estimate, setEstimate] = useState<ExportEstimate>(initialEstimate);
+  const { format, quality, fitToBudget, pixelRatio, renderer } = options;
+
+  useEffect(() => {
+    let cancelled = false;
+    setEstimate((current) => ({ ...current, pending: true }));
+
+    const timer = window.setTimeout(async () => {
+      if (!nodeRef.current) {
+        return;
+      }
+      try {
+        const encoded = await captureThumbnail(nodeRef.current, {
+          format,
+          quality,
+          fitToBudget,
+          pixelRatio,
+          renderer,
+        });
+        if (!cancelled) {
+          setEstimate({
+            bytes: encoded.blob.size,
+            quality: encoded.quality,
+            overBudget: encoded.overBudget,
+            pending: false,
+            error: null,
+          });
+        }
+      } catch (error) {
+        if (!cancelled) {
+          setEstimate({
+            ...initialEstimate,
+            pending: false,
+            error: error instanceof Error ? error.message : 'Could not estimate the file size.',
+          });
+        }
+      }
+    }, ESTIMATE_DELAY);
+
+    return () => {
+      cancelled = true;
+      window.clearTimeout(timer);
+    };
+  }, [nodeRef, format, quality, fitToBudget, pixelRatio, renderer, revision]);
+
+  return estimate;
+}
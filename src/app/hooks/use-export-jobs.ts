@@ -0,0 +1,83 @@
+import { useCallback, useRef, useState } from 'react';
+import { toast } from 'sonner';
+import { ExportError, exportStages, isExportCancelled, type ExportControl, type ExportStage } from '../lib/export';
+import { createExportReport, type ExportReport } from '../lib/export-report';
+
+export type ExportJob = {
+  id: number;
+  label: string;
+  stage: ExportStage;
+};
+
+export type ExportTask = (control: Required<ExportControl>) => Promise<void>;
+
+type RunOptions = {
+  // Called from the error toast; usually starts the same action again with the current settings.
+  retry: () => void;
+  hint?: string;
+};
+
+const describeFailure = (error: unknown, hint?: string) => {
+  const message = error instanceof Error ? error.message : 'Unknown error';
+  if (!(error instanceof ExportError)) {
+    return message;
+  }
+  const step = exportStages[error.stage].label;
+  const detail = error.reason === 'timeout' ? message : `${step} failed: ${message}`;
+  return hint && (error.stage === 'images' || error.stage === 'render') ? `${detail} ${hint}` : detail;
+};
+
+// Tracks running exports with their current step and an AbortController each, and reports failures as
+// toasts that can start the export again. The report of the latest export is kept for diagnostics.
+export function useExportJobs(onShowReport: () => void) {
+  const [jobs, setJobs] = useState<ExportJob[]>([]);
+  const [report, setReport] = useState<ExportReport | null>(null);
+  const showReport = useRef(onShowReport);
+  showReport.current = onShowReport;
+  const controllers = useRef(new Map<number, AbortController>());
+  const nextJobId = useRef(0);
+
+  const run = useCallback(async (label: string, task: ExportTask, { retry, hint }: RunOptions) => {
+    nextJobId.current += 1;
+    const id = nextJobId.current;
+    const controller = new AbortController();
+    const jobReport = createExportReport(label);
+    controllers.current.set(id, controller);
+    setReport(jobReport);
+    setJobs((current) => [...current, { id, label, stage: 'fonts' }]);
+    const onStage = (stage: ExportStage) =>
+      setJobs((current) => current.map((job) => (job.id === id ? { ...job, stage } : job)));
+
+    try {
+      await task({ signal: controller.signal, onStage, report: jobReport });
+      jobReport.outcome = 'done';
+    } catch (error) {
+      if (isExportCancelled(error)) {
+        jobReport.outcome = 'cancelled';
+        toast(`${label} cancelled.`);
+        return;
+      }
+      console.error(`${label} failed`, error);
+      jobReport.outcome = 'failed';
+      jobReport.error = describeFailure(error, hint);
+      toast.error(`${label} failed`, {
+        description: jobReport.error,
+        duration: 10000,
+        action: { label: 'Retry', onClick: retry },
+        cancel: { label: 'Report', onClick: () => showReport.current() },
+      });
+    } finally {
+      jobReport.finishedAt = Date.now();
+      // Reports are filled in as the export runs; a new object makes the panel show the final state.
+      setReport((current) => (current?.id === jobReport.id ? { ...jobReport } : current));
+      controllers.current.delete(id);
+      setJobs((current) => current.filter((job) => job.id !== id));
+    }
+  }, []);
+
+  const cancel = useCallback((id: number) => controllers.current.get(id)?.abort(), []);
+
+  return { jobs, report, run, cancel };
+}
+
+export type ExportJobs = ReturnType<typeof useExportJobs>;
@@ -0,0 +1,17 @@
+import { useEffect, useState, type RefObject } from 'react';
+import { analyzeLegibility, type TextCheck } from '../lib/legibility';
+
+// Re-checks the rendered preview's text after every change to it. `feedScale` is the feed width over
+// the template's CSS width.
+export function useLegibility(nodeRef: RefObject<HTMLElement | null>, feedScale: number, revision: string) {
+  const [checks, setChecks] = useState<TextCheck[] | null>(null);
+
+  useEffect(() => {
+    const node = nodeRef.current;
+    if (node) {
+      setChecks(analyzeLegibility(node, feedScale));
+    }
+  }, [nodeRef, feedScale, revision]);
+
+  return checks;
+}
@@ -0,0 +1,31 @@
+import { useEffect, useState } from 'react';
+import { clearTextMeasurements } from '../lib/text-fit';
+
+// Re-renders once web fonts finish loading, so text measured against a fallback face is fitted again.
+export function useLoadedFonts() {
+  const [version, setVersion] = useState(0);
+
+  useEffect(() => {
+    const fonts = typeof document === 'undefined' ? undefined : document.fonts;
+    if (!fonts) {
+      return;
+    }
+    let cancelled = false;
+    const refresh = () => {
+      if (!cancelled) {
+        clearTextMeasurements();
+        setVersion((current) => current + 1);
+      }
+    };
+    if (fonts.status === 'loading') {
+      fonts.ready.then(refresh);
+    }
+    fonts.addEventListener('loadingdone', refresh);
+    return () => {
+      cancelled = true;
+      fonts.removeEventListener('loadingdone', refresh);
+    };
+  }, []);
+
+  return version;
+}
@@ -0,0 +1,116 @@
+import { useCallback, useState } from 'react';
+import type { ProjectState } from '../lib/project';
+
+const HISTORY_LIMIT = 100;
+const COALESCE_WINDOW = 1500;
+
+export type HistoryStep = {
+  label: string;
+  at: number;
+};
+
+export type HistoryOptions = {
+  label: string;
+  // Consecutive edits with the same key merge into one step until a boundary edit closes it.
+  coalesceKey?: string;
+  boundary?: boolean;
+  // Transient changes replace the current step without adding one.
+  record?: boolean;
+};
+
+type HistoryEntry = HistoryStep & {
+  project: ProjectState;
+  coalesceKey?: string;
+  sealed: boolean;
+};
+
+type HistoryState = {
+  entries: HistoryEntry[];
+  index: number;
+};
+
+const startHistory = (project: ProjectState, label: string): HistoryState => ({
+  entries: [{ project, label, at: Date.now(), sealed: true }],
+  index: 0,
+});
+
+export function useProjectHistory(createInitial: () => ProjectState) {
+  const [history, setHistory] = useState<HistoryState>(() => startHistory(createInitial(), 'Start'));
+
+  const update = useCallback(
+    (updater: (current: ProjectState) => ProjectState, options: HistoryOptions) => {
+      const now = Date.now();
+      setHistory((current) => {
+        const present = current.entries[current.index];
+        const project = updater(present.project);
+        if (project === present.project) {
+          return current;
+        }
+
+        if (options.record === false) {
+          const entries = [...current.entries];
+          entries[current.index] = { ...present, project };
+          return { ...current, entries };
+        }
+
+        const canMerge =
+          options.coalesceKey !== undefined &&
+          present.coalesceKey === options.coalesceKey &&
+          !present.sealed &&
+          current.index === current.entries.length - 1 &&
+          now - present.at < COALESCE_WINDOW;
+
+        const step: HistoryEntry = {
+          project,
+          label: options.label,
+          at: now,
+          coalesceKey: options.coalesceKey,
+          sealed: options.coalesceKey === undefined || options.boundary === true,
+        };
+
+        if (canMerge) {
+          const entries = [...current.entries];
+          entries[current.index] = step;
+          return { ...current, entries };
+        }
+
+        const entries = [...current.entries.slice(0, current.index + 1), step].slice(-HISTORY_LIMIT);
+        return { entries, index: entries.length - 1 };
+      });
+    },
+    []
+  );
+
+  const move = useCallback((target: (current: HistoryState) => number) => {
+    setHistory((current) => {
+      const index = Math.max(0, Math.min(target(current), current.entries.length - 1));
+      if (index === current.index) {
+        return current;
+      }
+      const entries = [...current.entries];
+      entries[index] = { ...entries[index], sealed: true };
+      return { entries, index };
+    });
+  }, []);
+
+  const jumpTo = useCallback((index: number) => move(() => index), [move]);
+  const undo = useCallback(() => move((current) => current.index - 1), [move]);
+  const redo = useCallback(() => move((current) => current.index + 1), [move]);
+
+  const reset = useCallback((project: ProjectState, label: string) => {
+    setHistory(startHistory(project, label));
+  }, []);
+
+  return {
+    project: history.entries[history.index].project,
+    steps: history.entries as HistoryStep[],
+    index: history.index,
+    canUndo: history.index > 0,
+    canRedo: history.index < history.entries.length - 1,
+    update,
+    undo,
+    redo,
+    jumpTo,
+    reset,
+  };
+}
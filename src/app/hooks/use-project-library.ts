@@ -0,0 +1,284 @@
+import { useCallback, useEffect, useRef, useState, type RefObject } from 'react';
+import { toJpeg } from 'html-to-image';
+import {
+  createEntryId,
+  deleteEntry,
+  duplicateEntry,
+  getEntry,
+  getStorageUsage,
+  isQuotaError,
+  listEntries,
+  putEntry,
+  renameEntry,
+  requestPersistentStorage,
+  type LibraryEntry,
+  type StorageUsage,
+} from '../lib/library';
+import {
+  createDefaultProject,
+  createProjectDocument,
+  projectFromDocument,
+  type ProjectState,
+} from '../lib/project';
+
+export type LibraryStatus = 'loading' | 'idle' | 'saving' | 'saved' | 'error' | 'unavailable';
+
+const AUTOSAVE_DELAY = 1000;
+const PREVIEW_INTERVAL = 8000;
+const CURRENT_PROJECT_KEY = 'pokemon-thumbnail-studio:current-project';
+
+const QUOTA_MESSAGE = 'Browser storage is full. Delete old projects from the Library to keep autosaving.';
+
+const PREVIEW_WIDTH = 320;
+
+const capturePreview = async (node: HTMLElement | null) => {
+  if (!node || node.offsetWidth === 0) {
+    return null;
+  }
+  try {
+    return await toJpeg(node, {
+      width: node.offsetWidth,
+      height: node.offsetHeight,
+      canvasWidth: PREVIEW_WIDTH,
+      canvasHeight: Math.round((PREVIEW_WIDTH * node.offsetHeight) / node.offsetWidth),
+      pixelRatio: 1,
+      quality: 0.7,
+    });
+  } catch (error) {
+    return null;
+  }
+};
+
+const rememberCurrentProject = (id: string) => {
+  try {
+    localStorage.setItem(CURRENT_PROJECT_KEY, id);
+  } catch (error) {
+    // Remembering the last project is a convenience; autosave still works without it.
+  }
+};
+
+// The estimate is informational and can throw on its own, so it never fails a load or a save.
+const readStorageUsage = () => getStorageUsage().catch(() => null);
+
+const describeError = (error: unknown, fallback: string) =>
+  isQuotaError(error) ? QUOTA_MESSAGE : error instanceof Error ? error.message : fallback;
+
+type ProjectLibraryOptions = {
+  project: ProjectState;
+  loadProject: (project: ProjectState) => void;
+  previewRef: RefObject<HTMLElement | null>;
+};
+
+export function useProjectLibrary({ project, loadProject, previewRef }: ProjectLibraryOptions) {
+  const [entries, setEntries] = useState<LibraryEntry[]>([]);
+  const [currentId, setCurrentId] = useState<string>(createEntryId);
+  const [status, setStatus] = useState<LibraryStatus>('loading');
+  const [error, setError] = useState<string | null>(null);
+  const [lastSavedAt, setLastSavedAt] = useState<number | null>(null);
+  const [usage, setUsage] = useState<StorageUsage | null>(null);
+  const currentEntry = useRef<LibraryEntry | null>(null);
+  const persistedState = useRef(JSON.stringify(project));
+  const lastPreviewAt = useRef(0);
+
+  const refresh = useCallback(async () => {
+    setEntries(await listEntries());
+    setUsage(await readStorageUsage());
+  }, []);
+
+  const applyEntry = useCallback(
+    (entry: LibraryEntry) => {
+      const loaded = projectFromDocument(entry.document);
+      persistedState.current = JSON.stringify(loaded);
+      currentEntry.current = entry;
+      lastPreviewAt.current = 0;
+      setCurrentId(entry.id);
+      setLastSavedAt(entry.updatedAt);
+      rememberCurrentProject(entry.id);
+      loadProject(loaded);
+    },
+    [loadProject]
+  );
+
+  useEffect(() => {
+    let cancelled = false;
+
+    (async () => {
+      try {
+        const all = await listEntries();
+        if (cancelled) {
+          return;
+        }
+        let rememberedId: string | null = null;
+        try {
+          rememberedId = localStorage.getItem(CURRENT_PROJECT_KEY);
+        } catch (error) {
+          rememberedId = null;
+        }
+        const latest = all.find((entry) => entry.id === rememberedId) ?? all[0];
+        if (latest) {
+          applyEntry(latest);
+        }
+        setEntries(all);
+        setStatus('idle');
+        void requestPersistentStorage().catch(() => false);
+      } catch (loadError) {
+        if (!cancelled) {
+          setStatus('unavailable');
+          setError(describeError(loadError, 'The project library could not be opened.'));
+        }
+        return;
+      }
+      const estimate = await readStorageUsage();
+      if (!cancelled) {
+        setUsage(estimate);
+      }
+    })();
+
+    return () => {
+      cancelled = true;
+    };
+    // The library is restored once on mount.
+  }, []);
+
+  const saveProject = useCallback(
+    async (state: ProjectState, id: string) => {
+      const serialized = JSON.stringify(state);
+      const now = Date.now();
+      const existing = currentEntry.current?.id === id ? currentEntry.current : null;
+
+      setStatus('saving');
+      let preview = existing?.preview ?? null;
+      if (!preview || now - lastPreviewAt.current > PREVIEW_INTERVAL) {
+        preview = (await capturePreview(previewRef.current)) ?? preview;
+        lastPreviewAt.current = now;
+      }
+
+      const entry: LibraryEntry = {
+        id,
+        name: existing?.name ?? (state.values.title.trim() || 'Untitled thumbnail'),
+        templateId: state.templateId,
+        createdAt: existing?.createdAt ?? now,
+        updatedAt: now,
+        preview,
+        document: createProjectDocument(state, new Date(now)),
+      };
+
+      try {
+        try {
+          await putEntry(entry);
+        } catch (saveError) {
+          if (!isQuotaError(saveError) || !entry.preview) {
+            throw saveError;
+          }
+          entry.preview = null;
+          await putEntry(entry);
+        }
+        persistedState.current = serialized;
+        currentEntry.current = entry;
+        rememberCurrentProject(id);
+        setLastSavedAt(now);
+        setStatus('saved');
+        setError(null);
+        setEntries((current) => [entry, ...current.filter((item) => item.id !== id)]);
+      } catch (saveError) {
+        setStatus('error');
+        setError(describeError(saveError, 'Autosave failed.'));
+        setUsage(await readStorageUsage());
+      }
+    },
+    [previewRef]
+  );
+
+  const isReady = status !== 'loading' && status !== 'unavailable';
+
+  useEffect(() => {
+    if (!isReady) {
+      return;
+    }
+    if (JSON.stringify(project) === persistedState.current) {
+      return;
+    }
+
+    const timer = window.setTimeout(() => {
+      void saveProject(project, currentId);
+    }, AUTOSAVE_DELAY);
+    return () => window.clearTimeout(timer);
+    // Only the end of loading matters; status changes caused by saving must not schedule another save.
+  }, [project, currentId, saveProject, isReady]);
+
+  const runAction = useCallback(async (action: () => Promise<void>, fallback: string) => {
+    try {
+      await action();
+      setError(null);
+    } catch (actionError) {
+      setError(describeError(actionError, fallback));
+    }
+  }, []);
+
+  const openEntry = (id: string) =>
+    runAction(async () => {
+      const entry = await getEntry(id);
+      if (!entry) {
+        throw new Error('That project no longer exists.');
+      }
+      applyEntry(entry);
+    }, 'Could not open the project.');
+
+  const newProject = () => {
+    const fresh = createDefaultProject();
+    persistedState.current = JSON.stringify(fresh);
+    currentEntry.current = null;
+    setCurrentId(createEntryId());
+    setLastSavedAt(null);
+    loadProject(fresh);
+  };
+
+  // Keeps the current project as is but autosaves it as a new entry, e.g. after opening a project file,
+  // so it does not overwrite the library entry that was open before.
+  const detachEntry = () => {
+    currentEntry.current = null;
+    setCurrentId(createEntryId());
+    setLastSavedAt(null);
+  };
+
+  const duplicate = (id: string) =>
+    runAction(async () => {
+      await duplicateEntry(id);
+      await refresh();
+    }, 'Could not duplicate the project.');
+
+  const rename = (id: string, name: string) =>
+    runAction(async () => {
+      const renamed = await renameEntry(id, name.trim() || 'Untitled thumbnail');
+      if (id === currentId) {
+        currentEntry.current = renamed;
+      }
+      await refresh();
+    }, 'Could not rename the project.');
+
+  const remove = (id: string) =>
+    runAction(async () => {
+      await deleteEntry(id);
+      if (id === currentId) {
+        currentEntry.current = null;
+        persistedState.current = JSON.stringify(project);
+        setCurrentId(createEntryId());
+      }
+      await refresh();
+    }, 'Could not delete the project.');
+
+  return {
+    entries,
+    currentId,
+    status,
+    error,
+    lastSavedAt,
+    usage,
+    openEntry,
+    newProject,
+    detachEntry,
+    duplicate,
+    rename,
+    remove,
+  };
+}
@@ -0,0 +1,45 @@
+import { useCallback, useState } from 'react';
+import { parseTheme, type Theme } from '../lib/theme';
+
+const SAVED_THEMES_KEY = 'pokemon-thumbnail-studio:themes';
+
+const readSavedThemes = (): Theme[] => {
+  try {
+    const stored = JSON.parse(localStorage.getItem(SAVED_THEMES_KEY) ?? '[]');
+    return Array.isArray(stored)
+      ? stored.map(parseTheme).filter((theme): theme is Theme => theme !== null)
+      : [];
+  } catch (error) {
+    return [];
+  }
+};
+
+// Named themes (the channel look, sponsor looks) shared by every project in this browser.
+export function useSavedThemes() {
+  const [themes, setThemes] = useState<Theme[]>(readSavedThemes);
+  const [error, setError] = useState<string | null>(null);
+
+  const persist = useCallback((next: Theme[]) => {
+    setThemes(next);
+    try {
+      localStorage.setItem(SAVED_THEMES_KEY, JSON.stringify(next));
+      setError(null);
+    } catch (error) {
+      setError('Could not store themes in this browser. Export them as JSON to keep a copy.');
+    }
+  }, []);
+
+  const save = useCallback(
+    (theme: Theme) =>
+      persist(
+        themes.some((saved) => saved.id === theme.id)
+          ? themes.map((saved) => (saved.id === theme.id ? theme : saved))
+          : [...themes, theme]
+      ),
+    [persist, themes]
+  );
+
+  const remove = useCallback((id: string) => persist(themes.filter((theme) => theme.id !== id)), [persist, themes]);
+
+  return { themes, error, save, remove };
+}
@@ -0,0 +1,46 @@
+import { useEffect, useState, type RefObject } from 'react';
+import { waitForImages } from '../lib/export';
+
+export type SourceResolution = {
+  naturalWidth: number;
+  naturalHeight: number;
+  requiredWidth: number;
+  requiredHeight: number;
+};
+
+// Compares the card image's pixels with the pixels it covers in the export. `renderScale` is the
+// ratio between output pixels and the template's CSS pixels.
+export function useSourceResolution(nodeRef: RefObject<HTMLElement | null>, renderScale: number, revision: string) {
+  const [resolution, setResolution] = useState<SourceResolution | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+    const node = nodeRef.current;
+    if (!node) {
+      return;
+    }
+
+    waitForImages(node).then(() => {
+      const image = node.querySelector('img');
+      if (cancelled) {
+        return;
+      }
+      if (!image || !image.naturalWidth) {
+        setResolution(null);
+        return;
+      }
+      setResolution({
+        naturalWidth: image.naturalWidth,
+        naturalHeight: image.naturalHeight,
+        requiredWidth: Math.ceil(image.offsetWidth * renderScale),
+        requiredHeight: Math.ceil(image.offsetHeight * renderScale),
+      });
+    });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [nodeRef, renderScale, revision]);
+
+  return resolution;
+}
@@ -0,0 +1,29 @@
+import { useEffect, useState, type RefObject } from 'react';
+import { findZoneOverlaps, type ZoneOverlap } from '../lib/safe-zones';
+
+// Re-measures the preview's text against the reserved zones after every change. Text boxes depend on
+// the display fonts, so measuring waits for them.
+export function useZoneOverlaps(nodeRef: RefObject<HTMLElement | null>, revision: string) {
+  const [overlaps, setOverlaps] = useState<ZoneOverlap[]>([]);
+
+  useEffect(() => {
+    let cancelled = false;
+    const node = nodeRef.current;
+    if (!node) {
+      return;
+    }
+
+    const fontsReady = document.fonts ? document.fonts.ready : Promise.resolve();
+    fontsReady.then(() => {
+      if (!cancelled) {
+        setOverlaps(findZoneOverlaps(node));
+      }
+    });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [nodeRef, revision]);
+
+  return overlaps;
+}
@@ -0,0 +1,195 @@
+import type { ExportFormat, TrendDirection } from '../types';
+import type { ThumbnailValues } from '../templates/types';
+import { defaultTemplateId, fillMissingContent, getTemplate, getTemplateDefaults, templates } from '../templates/registry';
+import { formatCurrency, formatPercent, parseMoney } from './currency';
+import { analyzePriceChange } from './price-math';
+import { isDataUrl, isRemoteUrl } from './export';
+import { buildFilenameTokens } from './filename';
+import type { ImportTable, SkippedRow } from './price-import';
+
+export type BatchColumn = 'title' | 'image' | 'beforePrice' | 'price' | 'timeframe' | 'template' | 'trend';
+
+export type BatchColumnMapping = Record<BatchColumn, number | null>;
+
+export type BatchRow = {
+  id: string;
+  rowNumber: number;
+  templateId: string;
+  trend: TrendDirection;
+  autoTrend: boolean;
+  values: ThumbnailValues;
+  // Image cells that name a local file wait here until that file is added.
+  imageName: string;
+  warnings: string[];
+};
+
+export type BatchResult = {
+  rows: BatchRow[];
+  skipped: SkippedRow[];
+};
+
+const columnPatterns: Record<BatchColumn, RegExp> = {
+  image: /image|img|photo|picture|file|url/i,
+  beforePrice: /before|old|previous|prev|start|from/i,
+  price: /after|new|current|now|price/i,
+  title: /card|name|title|pokemon/i,
+  timeframe: /timeframe|period|range|window|days/i,
+  template: /template|style|layout/i,
+  trend: /trend|direction/i,
+};
+
+export const guessBatchMapping = (headers: string[]): BatchColumnMapping => {
+  const used = new Set<number>();
+  const mapping = {} as BatchColumnMapping;
+  (Object.keys(columnPatterns) as BatchColumn[]).forEach((column) => {
+    const index = headers.findIndex((header, position) => !used.has(position) && columnPatterns[column].test(header));
+    mapping[column] = index >= 0 ? index : null;
+    if (index >= 0) {
+      used.add(index);
+    }
+  });
+  return mapping;
+};
+
+const parseTrendCell = (value: string): TrendDirection | null => {
+  if (/^(up|rise|rising|gain|spike|\+)/i.test(value)) {
+    return 'up';
+  }
+  if (/^(down|drop|fall|falling|loss|crash|-)/i.test(value)) {
+    return 'down';
+  }
+  return null;
+};
+
+const findTemplateId = (value: string) => {
+  const needle = value.trim().toLowerCase();
+  return templates.find((template) => template.id === needle || template.name.toLowerCase() === needle)?.id;
+};
+
+const formatPriceCell = (value: string) => {
+  const money = parseMoney(value);
+  return money && !money.symbol ? formatCurrency(money.amount) : value.trim();
+};
+
+export const deriveBatchRow = (row: BatchRow): BatchRow => {
+  const template = getTemplate(row.templateId);
+  const change = analyzePriceChange(row.values.beforePrice, row.values.price);
+  const values = { ...row.values };
+  if (change.changePercent !== null) {
+    values.changePercent = formatPercent(change.changePercent);
+  }
+
+  const preferred = row.autoTrend ? change.trend ?? row.trend : row.trend;
+  return {
+    ...row,
+    templateId: template.id,
+    values,
+    trend: template.trends.includes(preferred) ? preferred : template.trends[0],
+  };
+};
+
+export const buildBatchRows = (table: ImportTable, mapping: BatchColumnMapping): BatchResult => {
+  if (mapping.beforePrice === null || mapping.price === null) {
+    throw new Error('The batch file needs a before price column and an after price column.');
+  }
+
+  const rows: BatchRow[] = [];
+  const skipped: SkippedRow[] = [];
+  const cell = (cells: string[], column: BatchColumn) => {
+    const index = mapping[column];
+    return index === null ? '' : (cells[index] ?? '').trim();
+  };
+
+  table.rows.forEach((cells, index) => {
+    const rowNumber = table.firstRowNumber + index;
+    if (cells.every((value) => !value.trim())) {
+      return;
+    }
+
+    const beforePrice = cell(cells, 'beforePrice');
+    const price = cell(cells, 'price');
+    if (!parseMoney(beforePrice) || !parseMoney(price)) {
+      skipped.push({ row: rowNumber, reason: `Could not read prices "${beforePrice}" and "${price}".` });
+      return;
+    }
+
+    const warnings: string[] = [];
+    const templateCell = cell(cells, 'template');
+    const templateId = templateCell ? findTemplateId(templateCell) : defaultTemplateId;
+    if (!templateId) {
+      warnings.push(`Unknown template "${templateCell}", using ${getTemplate(defaultTemplateId).name}.`);
+    }
+
+    const trendCell = cell(cells, 'trend');
+    const trend = trendCell ? parseTrendCell(trendCell) : null;
+    if (trendCell && !trend) {
+      warnings.push(`Unknown trend "${trendCell}", picking it from the prices.`);
+    }
+
+    const image = cell(cells, 'image');
+    const isUrl = isRemoteUrl(image) || isDataUrl(image);
+    if (image && !isUrl) {
+      warnings.push(`Add the image file "${image}" to use it.`);
+    }
+
+    const template = getTemplate(templateId ?? defaultTemplateId);
+    const values: ThumbnailValues = { ...getTemplateDefaults(template) };
+    values.cardImage = isUrl ? image : '';
+    values.cardName = cell(cells, 'title');
+    values.title = values.cardName || values.title;
+    values.beforePrice = formatPriceCell(beforePrice);
+    values.price = formatPriceCell(price);
+    values.timeframe = cell(cells, 'timeframe') || values.timeframe;
+
+    rows.push(
+      deriveBatchRow({
+        id: `row-${rowNumber}`,
+        rowNumber,
+        templateId: template.id,
+        trend: trend ?? 'up',
+        autoTrend: !trend,
+        values,
+        imageName: isUrl ? '' : image,
+        warnings,
+      })
+    );
+  });
+
+  if (rows.length === 0) {
+    throw new Error('No rows with readable prices were found.');
+  }
+
+  return { rows, skipped };
+};
+
+export const changeBatchTemplate = (row: BatchRow, templateId: string): BatchRow => {
+  const template = getTemplate(templateId);
+  return { ...row, templateId: template.id, values: fillMissingContent(row.values, template) };
+};
+
+export const batchFilenameTokens = (
+  row: BatchRow,
+  index: number,
+  format: ExportFormat,
+  sizeId: string,
+  date?: Date
+) => ({
+  ...buildFilenameTokens({ values: row.values, trend: row.trend, templateId: row.templateId, format, sizeId, date }),
+  index: String(index + 1).padStart(2, '0'),
+});
+
+export const imageFileKey = (name: string) => (name.split(/[\\/]/).pop() ?? name).trim().toLowerCase();
+
+export const matchImageFiles = (rows: BatchRow[], images: Record<string, string>) =>
+  rows.map((row) => {
+    const match = row.imageName ? images[imageFileKey(row.imageName)] : undefined;
+    if (!match) {
+      return row;
+    }
+    return {
+      ...row,
+      imageName: '',
+      values: { ...row.values, cardImage: match },
+      warnings: row.warnings.filter((warning) => !warning.startsWith('Add the image file')),
+    };
+  });
@@ -0,0 +1,69 @@
+const candidateDelimiters = [',', ';', '\t', '|'];
+
+export const detectDelimiter = (text: string) => {
+  const sample = text.split(/\r?\n/).find((line) => line.trim()) ?? '';
+  let best = ',';
+  let bestCount = 0;
+
+  candidateDelimiters.forEach((delimiter) => {
+    const count = sample.split(delimiter).length - 1;
+    if (count > bestCount) {
+      best = delimiter;
+      bestCount = count;
+    }
+  });
+
+  return best;
+};
+
+export const parseCsv = (text: string, delimiter = detectDelimiter(text)): string[][] => {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let cell = '';
+  let inQuotes = false;
+
+  const pushCell = () => {
+    row.push(cell.trim());
+    cell = '';
+  };
+
+  const pushRow = () => {
+    pushCell();
+    if (row.some((value) => value !== '')) {
+      rows.push(row);
+    }
+    row = [];
+  };
+
+  for (let index = 0; index < text.length; index += 1) {
+    const char = text[index];
+
+    if (inQuotes) {
+      if (char === '"' && text[index + 1] === '"') {
+        cell += '"';
+        index += 1;
+      } else if (char === '"') {
+        inQuotes = false;
+      } else {
+        cell += char;
+      }
+      continue;
+    }
+
+    if (char === '"') {
+      inQuotes = true;
+    } else if (char === delimiter) {
+      pushCell();
+    } else if (char === '\n') {
+      pushRow();
+    } else if (char !== '\r') {
+      cell += char;
+    }
+  }
+
+  if (cell !== '' || row.length > 0) {
+    pushRow();
+  }
+
+  return rows;
+};
@@ -0,0 +1,89 @@
+export type DecimalSeparator = '.' | ',';
+
+export type Money = {
+  amount: number;
+  symbol: string;
+};
+
+const moneyPattern =
+  /^([-+]?)\s*(?:[a-z]{3}\s+)?([$€£¥]?)\s*([-+]?)\s*(\d[\d.,\s]*)\s*([kmb]?)\s*(?:[a-z]{3})?$/i;
+
+const magnitudes: Record<string, number> = {
+  k: 1_000,
+  m: 1_000_000,
+  b: 1_000_000_000,
+};
+
+const normalizeDigits = (digits: string, decimalSeparator?: DecimalSeparator) => {
+  const compact = digits.replace(/\s/g, '');
+  let separator = decimalSeparator;
+
+  if (!separator) {
+    const lastDot = compact.lastIndexOf('.');
+    const lastComma = compact.lastIndexOf(',');
+    if (lastDot >= 0 && lastComma >= 0) {
+      separator = lastDot > lastComma ? '.' : ',';
+    } else if (lastComma >= 0) {
+      const isSingleDecimalComma = compact.indexOf(',') === lastComma && /,\d{1,2}$/.test(compact);
+      separator = isSingleDecimalComma ? ',' : '.';
+    } else {
+      separator = compact.indexOf('.') === lastDot ? '.' : ',';
+    }
+  }
+
+  const grouping = separator === '.' ? /,/g : /\./g;
+  return compact.replace(grouping, '').replace(',', '.');
+};
+
+export const parseMoney = (value: string, decimalSeparator?: DecimalSeparator): Money | null => {
+  const match = value.trim().match(moneyPattern);
+  if (!match) {
+    return null;
+  }
+
+  const [, leadingSign, symbol, innerSign, digits, suffix] = match;
+  const normalized = normalizeDigits(digits, decimalSeparator);
+  if (!/^\d*\.?\d+$/.test(normalized) && !/^\d+\.$/.test(normalized)) {
+    return null;
+  }
+
+  const sign = leadingSign === '-' || innerSign === '-' ? -1 : 1;
+  const amount = sign * Number(normalized) * (magnitudes[suffix.toLowerCase()] ?? 1);
+
+  return Number.isFinite(amount) ? { amount, symbol } : null;
+};
+
+export const parseCurrency = (value: string, decimalSeparator?: DecimalSeparator) =>
+  parseMoney(value, decimalSeparator)?.amount ?? Number.NaN;
+
+export const parsePercent = (value: string) => {
+  const cleaned = value.trim().replace(/%/g, '').replace(/,/g, '').replace(/\s/g, '');
+  if (!/^[-+]?\d*\.?\d+$/.test(cleaned)) {
+    return null;
+  }
+  return Number(cleaned);
+};
+
+export const formatCurrency = (value: number, symbol = '$') => {
+  const fractionDigits = Number.isInteger(value) || Math.abs(value) >= 100 ? 0 : 2;
+  const formatted = Math.abs(value).toLocaleString('en-US', {
+    minimumFractionDigits: fractionDigits,
+    maximumFractionDigits: fractionDigits,
+  });
+  return `${value < 0 ? '-' : ''}${symbol}${formatted}`;
+};
+
+export const computeChangePercent = (before: number, after: number) => {
+  if (!Number.isFinite(before) || !Number.isFinite(after) || before === 0) {
+    return Number.NaN;
+  }
+  return ((after - before) / before) * 100;
+};
+
+export const formatPercent = (value: number) => {
+  const magnitude = Math.abs(value);
+  if (magnitude >= 100) {
+    return Math.round(magnitude).toLocaleString('en-US');
+  }
+  return String(Number(magnitude.toFixed(1)));
+};
@@ -0,0 +1,102 @@
+import type { ExportRenderer } from '../types';
+import type { ExportStage } from './export';
+
+export type ImageResolution = 'data-url' | 'local' | 'proxy' | 'direct' | 'failed';
+
+export type ImageSourceReport = {
+  source: string;
+  resolution: ImageResolution;
+  detail: string | null;
+};
+
+export type FontReport = {
+  timedOut: boolean;
+  loaded: string[];
+  failed: string[];
+};
+
+export type CaptureReport = {
+  label: string;
+  requested: ExportRenderer;
+  renderer: Exclude<ExportRenderer, 'auto'> | null;
+  primaryError: string | null;
+  width: number;
+  height: number;
+  images: ImageSourceReport[];
+  output: Blob | null;
+};
+
+export type ExportReport = {
+  id: number;
+  label: string;
+  startedAt: number;
+  finishedAt: number | null;
+  outcome: 'running' | 'done' | 'failed' | 'cancelled';
+  error: string | null;
+  timings: Partial<Record<ExportStage, number>>;
+  fonts: FontReport | null;
+  sources: ImageSourceReport[];
+  captures: CaptureReport[];
+};
+
+export const imageResolutions: Record<ImageResolution, string> = {
+  'data-url': 'Data URL',
+  local: 'Local file',
+  proxy: 'Proxy',
+  direct: 'Direct',
+  failed: 'Failed',
+};
+
+let nextReportId = 0;
+
+export const createExportReport = (label: string): ExportReport => {
+  nextReportId += 1;
+  return {
+    id: nextReportId,
+    label,
+    startedAt: Date.now(),
+    finishedAt: null,
+    outcome: 'running',
+    error: null,
+    timings: {},
+    fonts: null,
+    sources: [],
+    captures: [],
+  };
+};
+
+export const readFontReport = (timedOut: boolean): FontReport => {
+  const faces = typeof document !== 'undefined' && document.fonts ? Array.from(document.fonts) : [];
+  const describe = (face: FontFace) => `${face.family.replace(/["']/g, '')} ${face.weight}`;
+  return {
+    timedOut,
+    loaded: faces.filter((face) => face.status === 'loaded').map(describe),
+    failed: faces.filter((face) => face.status === 'error').map(describe),
+  };
+};
+
+// Images inside the captured node, as the renderer will see them.
+export const describeRenderedImages = (root: HTMLElement): ImageSourceReport[] =>
+  Array.from(root.querySelectorAll('img')).map((img) => {
+    const source = img.currentSrc || img.src;
+    if (!img.naturalWidth) {
+      return { source, resolution: 'failed', detail: 'Did not load before capture' };
+    }
+    const size = `${img.naturalWidth} x ${img.naturalHeight}`;
+    if (source.startsWith('data:')) {
+      return { source, resolution: 'data-url', detail: size };
+    }
+    if (source.startsWith('blob:')) {
+      return { source, resolution: 'local', detail: size };
+    }
+    return { source, resolution: 'direct', detail: `${size}, fetched again by the renderer` };
+  });
+
+export const shortenSource = (source: string, max = 72) => {
+  if (source.startsWith('data:')) {
+    return `${source.slice(0, source.indexOf(',') + 1)}... (${Math.round(source.length / 1024)} KB)`;
+  }
+  return source.length > max ? `${source.slice(0, max - 3)}...` : source;
+};
+
+export const formatDuration = (ms: number) => (ms < 1000 ? `${Math.round(ms)} ms` : `${(ms / 1000).toFixed(1)} s`);
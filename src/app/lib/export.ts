@@ -0,0 +1,441 @@
+import html2canvas from 'html2canvas';
+import { toCanvas } from 'html-to-image';
+import type { ExportFormat, ExportRenderer } from '../types';
+import {
+  describeRenderedImages,
+  readFontReport,
+  shortenSource,
+  type CaptureReport,
+  type ExportReport,
+  type ImageSourceReport,
+} from './export-report';
+import { buildProxyUrl, isProxyUrl, type ImageProxy } from './image-proxy';
+
+export const YOUTUBE_MAX_BYTES = 2 * 1024 * 1024;
+export const DEFAULT_EXPORT_QUALITY = 0.92;
+const MIN_FIT_QUALITY = 0.3;
+const FIT_STEPS = 6;
+
+export const exportFormats: Record<ExportFormat, { label: string; mimeType: string; lossy: boolean }> = {
+  png: { label: 'PNG', mimeType: 'image/png', lossy: false },
+  jpeg: { label: 'JPG', mimeType: 'image/jpeg', lossy: true },
+  webp: { label: 'WebP', mimeType: 'image/webp', lossy: true },
+  avif: { label: 'AVIF', mimeType: 'image/avif', lossy: true },
+};
+
+export const exportRenderers: Record<ExportRenderer, { label: string; description: string }> = {
+  auto: { label: 'Auto', description: 'html-to-image, falling back to html2canvas if it fails' },
+  'html-to-image': { label: 'html-to-image', description: 'Closest to the preview; fails on blocked images' },
+  html2canvas: { label: 'html2canvas', description: 'More tolerant, but drops blur and some filters' },
+};
+
+export type EncodeOptions = {
+  format: ExportFormat;
+  quality: number;
+  fitToBudget: boolean;
+  pixelRatio?: number;
+  renderer?: ExportRenderer;
+};
+
+export type EncodedImage = {
+  blob: Blob;
+  quality: number | null;
+  overBudget: boolean;
+};
+
+export type ExportStage = 'fonts' | 'images' | 'render' | 'encode';
+
+export const exportStages: Record<ExportStage, { label: string; timeout: number }> = {
+  fonts: { label: 'Loading fonts', timeout: 5000 },
+  images: { label: 'Fetching images', timeout: 20000 },
+  render: { label: 'Rendering', timeout: 30000 },
+  encode: { label: 'Encoding', timeout: 30000 },
+};
+
+export const exportStageOrder: ExportStage[] = ['fonts', 'images', 'render', 'encode'];
+
+const IMAGE_FETCH_TIMEOUT = 12000;
+
+export type ExportControl = {
+  signal?: AbortSignal;
+  onStage?: (stage: ExportStage) => void;
+  report?: ExportReport;
+};
+
+export class ExportError extends Error {
+  constructor(
+    message: string,
+    readonly stage: ExportStage,
+    readonly reason: 'failed' | 'timeout' | 'cancelled' = 'failed'
+  ) {
+    super(message);
+    this.name = 'ExportError';
+  }
+}
+
+export const isExportCancelled = (error: unknown) => error instanceof ExportError && error.reason === 'cancelled';
+
+const cancelledError = (stage: ExportStage) => new ExportError('The export was cancelled.', stage, 'cancelled');
+
+// Rejects as soon as the step times out or the export is cancelled. Renderers cannot be interrupted,
+// so their eventual result is simply ignored.
+export const runExportStage = <T>(
+  stage: ExportStage,
+  task: () => Promise<T>,
+  { signal, onStage, report }: ExportControl = {}
+) =>
+  new Promise<T>((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(cancelledError(stage));
+      return;
+    }
+    onStage?.(stage);
+    const { label, timeout } = exportStages[stage];
+    const startedAt = performance.now();
+    let settled = false;
+    const onAbort = () => settle(() => reject(cancelledError(stage)));
+    const timer = window.setTimeout(
+      () => settle(() => reject(new ExportError(`${label} took longer than ${timeout / 1000}s.`, stage, 'timeout'))),
+      timeout
+    );
+    function settle(finish: () => void) {
+      if (settled) {
+        return;
+      }
+      settled = true;
+      window.clearTimeout(timer);
+      if (report) {
+        report.timings[stage] = (report.timings[stage] ?? 0) + performance.now() - startedAt;
+      }
+      signal?.removeEventListener('abort', onAbort);
+      finish();
+    }
+    signal?.addEventListener('abort', onAbort);
+    task().then(
+      (value) => settle(() => resolve(value)),
+      (error) =>
+        settle(() =>
+          reject(
+            error instanceof ExportError
+              ? error
+              : new ExportError(error instanceof Error ? error.message : String(error), stage)
+          )
+        )
+    );
+  });
+
+export const waitForFonts = async (control: ExportControl = {}) => {
+  let timedOut = false;
+  try {
+    await runExportStage(
+      'fonts',
+      async () => {
+        if (typeof document !== 'undefined' && document.fonts?.ready) {
+          await document.fonts.ready;
+        }
+      },
+      control
+    );
+  } catch (error) {
+    // A font that never settles should not block the export; the fallback face is used instead.
+    if (!(error instanceof ExportError && error.reason === 'timeout')) {
+      throw error;
+    }
+    console.warn(error.message);
+    timedOut = true;
+  }
+  if (control.report) {
+    control.report.fonts = readFontReport(timedOut);
+  }
+};
+
+const formatSupport: Partial<Record<ExportFormat, boolean>> = {};
+
+export const isFormatSupported = (format: ExportFormat) => {
+  if (typeof document === 'undefined') {
+    return format === 'png' || format === 'jpeg';
+  }
+  let supported = formatSupport[format];
+  if (supported === undefined) {
+    const { mimeType } = exportFormats[format];
+    const canvas = document.createElement('canvas');
+    canvas.width = 1;
+    canvas.height = 1;
+    supported = canvas.toDataURL(mimeType).startsWith(`data:${mimeType}`);
+    formatSupport[format] = supported;
+  }
+  return supported;
+};
+
+export const isDataUrl = (value: string) => value.startsWith('data:') || value.startsWith('blob:');
+export const isRemoteUrl = (value: string) => /^https?:\/\//i.test(value);
+export const blobToDataUrl = (blob: Blob) =>
+  new Promise<string>((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = () => resolve(reader.result as string);
+    reader.onerror = () => reject(reader.error);
+    reader.readAsDataURL(blob);
+  });
+
+export const waitForImages = async (root: HTMLElement) => {
+  const images = Array.from(root.querySelectorAll('img'));
+  if (images.length === 0) {
+    return;
+  }
+
+  await Promise.all(
+    images.map((img) =>
+      img.complete && img.naturalWidth
+        ? Promise.resolve()
+        : new Promise<void>((resolve) => {
+            const done = () => {
+              img.removeEventListener('load', done);
+              img.removeEventListener('error', done);
+              resolve();
+            };
+            img.addEventListener('load', done);
+            img.addEventListener('error', done);
+          })
+    )
+  );
+};
+
+const fetchWithTimeout = async (url: string, signal?: AbortSignal) => {
+  const controller = new AbortController();
+  const abort = () => controller.abort();
+  let timedOut = false;
+  const timer = window.setTimeout(() => {
+    timedOut = true;
+    abort();
+  }, IMAGE_FETCH_TIMEOUT);
+  signal?.addEventListener('abort', abort);
+  try {
+    const response = await fetch(url, { mode: 'cors', signal: controller.signal });
+    if (!response.ok) {
+      throw new Error(`HTTP ${response.status}`);
+    }
+    return await response.blob();
+  } catch (error) {
+    if (timedOut) {
+      throw new Error(`no response after ${IMAGE_FETCH_TIMEOUT / 1000}s`);
+    }
+    throw error instanceof TypeError ? new Error('blocked by CORS or the network') : error;
+  } finally {
+    window.clearTimeout(timer);
+    signal?.removeEventListener('abort', abort);
+  }
+};
+
+// Embeds a remote image as a data URL so renderers never fetch it themselves, trying the proxy first.
+export const resolveImageForCapture = async (
+  value: string,
+  proxy: ImageProxy,
+  signal?: AbortSignal
+): Promise<{ src: string; report: ImageSourceReport }> => {
+  const trimmed = value.trim();
+  if (!trimmed || trimmed.startsWith('data:')) {
+    return { src: trimmed, report: { source: trimmed, resolution: 'data-url', detail: null } };
+  }
+  if (trimmed.startsWith('blob:')) {
+    return { src: trimmed, report: { source: trimmed, resolution: 'local', detail: null } };
+  }
+  if (!isRemoteUrl(trimmed)) {
+    return { src: trimmed, report: { source: trimmed, resolution: 'direct', detail: 'Same-origin path' } };
+  }
+
+  const candidates =
+    proxy.kind === 'none'
+      ? [{ url: trimmed, via: 'direct' as const }]
+      : [
+          { url: buildProxyUrl(trimmed, proxy), via: 'proxy' as const },
+          { url: trimmed, via: 'direct' as const },
+        ];
+  const failures: string[] = [];
+
+  for (const candidate of candidates) {
+    if (signal?.aborted) {
+      break;
+    }
+    try {
+      const blob = await fetchWithTimeout(candidate.url, signal);
+      const src = await blobToDataUrl(blob);
+      const fetched = `Fetched ${candidate.via === 'proxy' ? `through the ${proxy.kind} proxy` : 'directly'}`;
+      return {
+        src,
+        report: {
+          source: trimmed,
+          resolution: candidate.via,
+          detail: [...failures, `${fetched} and embedded (${Math.round(blob.size / 1024)} KB)`].join('; '),
+        },
+      };
+    } catch (error) {
+      failures.push(`${candidate.via}: ${error instanceof Error ? error.message : 'failed'}`);
+    }
+  }
+
+  return { src: trimmed, report: { source: trimmed, resolution: 'failed', detail: failures.join('; ') || null } };
+};
+
+export const prepareImageForCapture = async (value: string, proxy: ImageProxy, signal?: AbortSignal) =>
+  (await resolveImageForCapture(value, proxy, signal)).src;
+
+export const downloadDataUrl = (dataUrl: string, filename: string) => {
+  const link = document.createElement('a');
+  link.download = filename;
+  link.href = dataUrl;
+  link.click();
+};
+
+export const renderWithHtmlToImage = (node: HTMLElement, pixelRatio = 1) =>
+  toCanvas(node, {
+    cacheBust: true,
+    pixelRatio,
+    width: node.offsetWidth,
+    height: node.offsetHeight,
+    fetchRequestInit: {
+      mode: 'cors' as RequestMode,
+      cache: 'no-cache' as RequestCache,
+    },
+  });
+
+export const renderWithHtml2Canvas = (node: HTMLElement, pixelRatio = 1) =>
+  html2canvas(node, {
+    backgroundColor: null,
+    useCORS: true,
+    scale: pixelRatio,
+    width: node.offsetWidth,
+    height: node.offsetHeight,
+  });
+
+const canvasToBlob = (canvas: HTMLCanvasElement, format: ExportFormat, quality?: number) =>
+  new Promise<Blob>((resolve, reject) => {
+    const { mimeType, label } = exportFormats[format];
+    canvas.toBlob(
+      (blob) => {
+        if (!blob) {
+          reject(new Error(`Could not encode the thumbnail as ${label}.`));
+        } else if (blob.type !== mimeType) {
+          reject(new Error(`This browser cannot export ${label}.`));
+        } else {
+          resolve(blob);
+        }
+      },
+      mimeType,
+      quality
+    );
+  });
+
+export const encodeCanvas = async (
+  canvas: HTMLCanvasElement,
+  { format, quality, fitToBudget }: EncodeOptions
+): Promise<EncodedImage> => {
+  if (!exportFormats[format].lossy) {
+    const blob = await canvasToBlob(canvas, format);
+    return { blob, quality: null, overBudget: blob.size > YOUTUBE_MAX_BYTES };
+  }
+
+  const first = await canvasToBlob(canvas, format, quality);
+  if (!fitToBudget || first.size <= YOUTUBE_MAX_BYTES) {
+    return { blob: first, quality, overBudget: first.size > YOUTUBE_MAX_BYTES };
+  }
+
+  // Binary search below the chosen quality for the highest one that fits.
+  let low = MIN_FIT_QUALITY;
+  let high = quality;
+  let best: EncodedImage | null = null;
+  for (let step = 0; step < FIT_STEPS; step += 1) {
+    const candidateQuality = (low + high) / 2;
+    const candidate = await canvasToBlob(canvas, format, candidateQuality);
+    if (candidate.size <= YOUTUBE_MAX_BYTES) {
+      best = { blob: candidate, quality: candidateQuality, overBudget: false };
+      low = candidateQuality;
+    } else {
+      high = candidateQuality;
+    }
+  }
+
+  if (best) {
+    return best;
+  }
+  const smallest = await canvasToBlob(canvas, format, MIN_FIT_QUALITY);
+  return { blob: smallest, quality: MIN_FIT_QUALITY, overBudget: smallest.size > YOUTUBE_MAX_BYTES };
+};
+
+export const resolveDisplayImage = (value: string, proxy: ImageProxy) => {
+  const trimmed = value.trim();
+  if (!trimmed || proxy.kind === 'none' || isDataUrl(trimmed) || isProxyUrl(trimmed, proxy)) {
+    return trimmed;
+  }
+  return isRemoteUrl(trimmed) ? buildProxyUrl(trimmed, proxy) : trimmed;
+};
+
+// html-to-image rejects with the error event of an image it could not embed rather than an Error.
+const describeRenderError = (error: unknown) => {
+  if (error instanceof Error) {
+    return error.message;
+  }
+  if (typeof Event !== 'undefined' && error instanceof Event) {
+    const target = error.target;
+    return target instanceof HTMLImageElement
+      ? `Could not load ${shortenSource(target.src)} (${error.type} event)`
+      : `Failed with a ${error.type} event`;
+  }
+  return String(error);
+};
+
+export const captureThumbnail = async (node: HTMLElement, options: EncodeOptions, control: ExportControl = {}) => {
+  const requested = options.renderer ?? 'auto';
+  const capture: CaptureReport = {
+    label: node.dataset.stageItem ?? 'thumbnail',
+    requested,
+    renderer: null,
+    primaryError: null,
+    width: Math.round(node.offsetWidth * (options.pixelRatio ?? 1)),
+    height: Math.round(node.offsetHeight * (options.pixelRatio ?? 1)),
+    images: [],
+    output: null,
+  };
+  control.report?.captures.push(capture);
+
+  const canvas = await runExportStage(
+    'render',
+    async () => {
+      await waitForImages(node);
+      capture.images = describeRenderedImages(node);
+      if (requested !== 'html2canvas') {
+        try {
+          capture.renderer = 'html-to-image';
+          return await renderWithHtmlToImage(node, options.pixelRatio);
+        } catch (error) {
+          capture.primaryError = describeRenderError(error);
+          if (requested === 'html-to-image') {
+            throw new Error(capture.primaryError);
+          }
+          console.warn('html-to-image export failed, falling back to html2canvas', error);
+        }
+      }
+      capture.renderer = 'html2canvas';
+      return renderWithHtml2Canvas(node, options.pixelRatio);
+    },
+    control
+  );
+  const encoded = await runExportStage('encode', () => encodeCanvas(canvas, options), control);
+  capture.output = encoded.blob;
+  return encoded;
+};
+
+export const downloadBlob = (blob: Blob, filename: string) => {
+  const url = URL.createObjectURL(blob);
+  downloadDataUrl(url, filename);
+  window.setTimeout(() => URL.revokeObjectURL(url), 1000);
+};
+
+export const canCopyImages = () =>
+  typeof ClipboardItem !== 'undefined' && typeof navigator !== 'undefined' && Boolean(navigator.clipboard?.write);
+
+// Takes a promise so Safari still treats the write as part of the click that started it.
+export const copyImageToClipboard = (blob: Promise<Blob>) =>
+  navigator.clipboard.write([new ClipboardItem({ 'image/png': blob })]);
+
+export const formatFileSize = (bytes: number) =>
+  bytes >= 1024 * 1024 ? `${(bytes / (1024 * 1024)).toFixed(2)} MB` : `${Math.max(1, Math.round(bytes / 1024))} KB`;
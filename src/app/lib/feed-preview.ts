@@ -0,0 +1,95 @@
+export type FeedPlacementId = 'desktop' | 'mobile' | 'sidebar' | 'tv';
+
+export type FeedColorScheme = 'dark' | 'light';
+
+export type FeedPlacement = {
+  label: string;
+  description: string;
+  // CSS width of one thumbnail in that layout.
+  thumbnailWidth: number;
+  columns: number;
+  // Videos shown, with placeholders filling what the design and competitors leave empty.
+  slots: number;
+  // Grid and TV put the details under the thumbnail, the sidebar list beside it.
+  arrangement: 'grid' | 'list' | 'tv';
+};
+
+// The video details YouTube shows around the thumbnail.
+export type FeedDetails = {
+  // Empty uses the thumbnail's title.
+  videoTitle: string;
+  channelName: string;
+  duration: string;
+};
+
+export type CompetitorThumbnail = {
+  id: string;
+  src: string;
+  title: string;
+  channelName: string;
+};
+
+export const feedPlacements: Record<FeedPlacementId, FeedPlacement> = {
+  desktop: {
+    label: 'Desktop grid',
+    description: 'Home page on a laptop, three across.',
+    thumbnailWidth: 320,
+    columns: 3,
+    slots: 6,
+    arrangement: 'grid',
+  },
+  mobile: {
+    label: 'Mobile feed',
+    description: 'Home feed on a phone, full width.',
+    thumbnailWidth: 360,
+    columns: 1,
+    slots: 3,
+    arrangement: 'grid',
+  },
+  sidebar: {
+    label: 'Up next',
+    description: 'Sidebar next to the watch page.',
+    thumbnailWidth: 168,
+    columns: 1,
+    slots: 5,
+    arrangement: 'list',
+  },
+  tv: {
+    label: 'TV',
+    description: 'A home row on a TV, seen from the couch.',
+    thumbnailWidth: 220,
+    columns: 4,
+    slots: 4,
+    arrangement: 'tv',
+  },
+};
+
+export const MAX_COMPETITORS = 8;
+
+export const feedPlacementOrder: FeedPlacementId[] = ['desktop', 'mobile', 'sidebar', 'tv'];
+
+export const feedColors: Record<FeedColorScheme, { page: string; title: string; meta: string; avatar: string }> = {
+  dark: { page: '#0f0f0f', title: '#f1f1f1', meta: '#aaaaaa', avatar: '#3f3f3f' },
+  light: { page: '#ffffff', title: '#0f0f0f', meta: '#606060', avatar: '#e5e5e5' },
+};
+
+export const defaultFeedDetails: FeedDetails = {
+  videoTitle: '',
+  channelName: 'Your Channel',
+  duration: '12:34',
+};
+
+const DURATION = /^\d{1,2}(:[0-5]\d){1,2}$/;
+
+export const isFeedDuration = (value: string) => DURATION.test(value.trim());
+
+export const parseFeedDetails = (value: unknown): FeedDetails => {
+  const details = (value ?? {}) as Record<string, unknown>;
+  const text = (key: keyof FeedDetails) =>
+    typeof details[key] === 'string' ? (details[key] as string) : defaultFeedDetails[key];
+  return {
+    videoTitle: text('videoTitle'),
+    channelName: text('channelName'),
+    duration: isFeedDuration(text('duration')) ? text('duration') : defaultFeedDetails.duration,
+  };
+};
@@ -0,0 +1,78 @@
+import { format as formatDate, getISOWeek, getISOWeekYear } from 'date-fns';
+import type { ExportFormat, TrendDirection } from '../types';
+import type { ThumbnailValues } from '../templates/types';
+
+export const DEFAULT_FILENAME_PATTERN = 'pokemon-{card}-{trend}-{date}';
+
+export const filenameTokens: { token: string; description: string }[] = [
+  { token: 'title', description: 'Thumbnail title' },
+  { token: 'card', description: 'Card name, or the title when no card name is set' },
+  { token: 'date', description: 'Export date, e.g. 2024-05-31' },
+  { token: 'week', description: 'ISO week, e.g. 2024-w22' },
+  { token: 'trend', description: 'up or down' },
+  { token: 'change', description: 'Change percent without the sign' },
+  { token: 'template', description: 'Template id' },
+  { token: 'format', description: 'File extension, e.g. png' },
+  { token: 'size', description: 'Output size, e.g. shorts' },
+];
+
+export type FilenameContext = {
+  values: ThumbnailValues;
+  trend: TrendDirection;
+  templateId: string;
+  format: ExportFormat;
+  sizeId: string;
+  changePercent?: string;
+  date?: Date;
+};
+
+export const fileExtension = (format: ExportFormat) => (format === 'jpeg' ? 'jpg' : format);
+
+export const slugify = (value: string) =>
+  value
+    .normalize('NFKD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, '-')
+    .replace(/^-+|-+$/g, '');
+
+export const buildFilenameTokens = ({
+  values,
+  trend,
+  templateId,
+  format,
+  sizeId,
+  changePercent = values.changePercent,
+  date = new Date(),
+}: FilenameContext): Record<string, string> => ({
+  title: values.title,
+  card: values.cardName?.trim() || values.title,
+  date: formatDate(date, 'yyyy-MM-dd'),
+  week: `${getISOWeekYear(date)}-w${String(getISOWeek(date)).padStart(2, '0')}`,
+  trend,
+  change: changePercent.replace(/[,\s%+-]/g, ''),
+  template: templateId,
+  format: fileExtension(format),
+  size: sizeId,
+});
+
+export const renderFilename = (pattern: string, tokens: Record<string, string>, fallback = 'thumbnail') => {
+  const name = pattern
+    .replace(/\{(\w+)\}/g, (_, token: string) => (token in tokens ? slugify(tokens[token]) : ''))
+    .replace(/[\\/:*?"<>|\s]+/g, '-')
+    .replace(/-{2,}/g, '-')
+    .replace(/^[-.]+|[-.]+$/g, '');
+  return name || fallback;
+};
+
+export const findUnknownTokens = (pattern: string, tokens: Record<string, string>) =>
+  Array.from(pattern.matchAll(/\{(\w+)\}/g), (match) => match[1]).filter((token) => !(token in tokens));
+
+export const uniqueFilename = (name: string, extension: string, taken: Set<string>) => {
+  let candidate = `${name}.${extension}`;
+  for (let suffix = 2; taken.has(candidate); suffix += 1) {
+    candidate = `${name}-${suffix}.${extension}`;
+  }
+  taken.add(candidate);
+  return candidate;
+};
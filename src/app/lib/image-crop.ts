@@ -0,0 +1,116 @@
+import type { ImageCrop } from '../types';
+
+export const MIN_CROP_ZOOM = 1;
+export const MAX_CROP_ZOOM = 4;
+
+export const defaultImageCrop: ImageCrop = { x: 0, y: 0, zoom: 1, rotation: 0 };
+
+const clamp = (value: number, min: number, max: number) => Math.min(max, Math.max(min, value));
+
+const normalizeRotation = (degrees: number) => {
+  const wrapped = ((degrees % 360) + 360) % 360;
+  return wrapped > 180 ? wrapped - 360 : wrapped;
+};
+
+type Size = { width: number; height: number };
+
+// The frame the image is shown in and the size the image takes to just cover it, in the same pixels.
+export type CropFit = { frame: Size; cover: Size };
+
+// Half-planes a * dx + b * dy <= c, over the image's offset in pixels, inside which the zoomed and rotated
+// image still contains every corner of the frame.
+const coverConstraints = ({ frame, cover }: CropFit, zoom: number, rotation: number) => {
+  const radians = (rotation * Math.PI) / 180;
+  const cos = Math.cos(radians);
+  const sin = Math.sin(radians);
+  const halfWidth = (cover.width * zoom) / 2;
+  const halfHeight = (cover.height * zoom) / 2;
+  return [-1, 1].flatMap((sx) =>
+    [-1, 1].flatMap((sy) => {
+      const cornerX = (sx * frame.width) / 2;
+      const cornerY = (sy * frame.height) / 2;
+      const u = cos * cornerX + sin * cornerY;
+      const v = -sin * cornerX + cos * cornerY;
+      return [
+        { a: -cos, b: -sin, c: halfWidth - u },
+        { a: cos, b: sin, c: halfWidth + u },
+        { a: sin, b: -cos, c: halfHeight - v },
+        { a: -sin, b: cos, c: halfHeight + v },
+      ];
+    })
+  );
+};
+
+// Smallest zoom at which the centred image still covers the frame once rotated.
+const minCoverZoom = ({ frame, cover }: CropFit, rotation: number) => {
+  const radians = (rotation * Math.PI) / 180;
+  const cos = Math.abs(Math.cos(radians));
+  const sin = Math.abs(Math.sin(radians));
+  return Math.max(
+    (cos * frame.width + sin * frame.height) / cover.width,
+    (sin * frame.width + cos * frame.height) / cover.height
+  );
+};
+
+// Range of one offset, with the other fixed, that satisfies every constraint. `along` and `across` pick
+// each constraint's coefficients for the free and the fixed offset.
+const offsetRange = (
+  constraints: { a: number; b: number; c: number }[],
+  along: 'a' | 'b',
+  across: 'a' | 'b',
+  fixed: number
+) => {
+  let min = -Infinity;
+  let max = Infinity;
+  for (const constraint of constraints) {
+    const coefficient = constraint[along];
+    const limit = constraint.c - constraint[across] * fixed;
+    if (coefficient > 1e-9) {
+      max = Math.min(max, limit / coefficient);
+    } else if (coefficient < -1e-9) {
+      min = Math.max(min, limit / coefficient);
+    }
+  }
+  return { min: Math.min(min, 0), max: Math.max(max, 0) };
+};
+
+// Without a fit only the zoom and rotation are bounded. With one, the zoom is raised until the rotated
+// image covers the frame, then the vertical pan and the horizontal pan are limited in turn so it still does.
+export const clampImageCrop = ({ x, y, zoom, rotation }: ImageCrop, fit?: CropFit): ImageCrop => {
+  const angle = normalizeRotation(rotation);
+  if (!fit) {
+    return { x, y, zoom: clamp(zoom, MIN_CROP_ZOOM, MAX_CROP_ZOOM), rotation: angle };
+  }
+  const minZoom = Math.min(MAX_CROP_ZOOM, Math.max(MIN_CROP_ZOOM, minCoverZoom(fit, angle)));
+  const clampedZoom = clamp(zoom, minZoom, MAX_CROP_ZOOM);
+  const constraints = coverConstraints(fit, clampedZoom, angle);
+  const rangeY = offsetRange(constraints, 'b', 'a', 0);
+  const dy = clamp(y * fit.frame.height, rangeY.min, rangeY.max);
+  const rangeX = offsetRange(constraints, 'a', 'b', dy);
+  const dx = clamp(x * fit.frame.width, rangeX.min, rangeX.max);
+  return { x: dx / fit.frame.width, y: dy / fit.frame.height, zoom: clampedZoom, rotation: angle };
+};
+
+export const isDefaultCrop = (crop: ImageCrop) =>
+  crop.x === 0 && crop.y === 0 && crop.zoom === 1 && crop.rotation === 0;
+
+export const parseImageCrop = (value: unknown): ImageCrop => {
+  if (!value || typeof value !== 'object') {
+    return defaultImageCrop;
+  }
+  const { x, y, zoom, rotation } = value as Record<string, unknown>;
+  const read = (input: unknown, fallback: number) =>
+    typeof input === 'number' && Number.isFinite(input) ? input : fallback;
+  return clampImageCrop({
+    x: read(x, 0),
+    y: read(y, 0),
+    zoom: read(zoom, 1),
+    rotation: read(rotation, 0),
+  });
+};
+
+// Size of the image when it just covers the frame, before zoom and rotation are applied.
+export const getCoverSize = (natural: Size, frame: Size): Size => {
+  const scale = Math.max(frame.width / natural.width, frame.height / natural.height);
+  return { width: natural.width * scale, height: natural.height * scale };
+};
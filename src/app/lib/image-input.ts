@@ -0,0 +1,46 @@
+import { formatFileSize, isRemoteUrl } from './export';
+
+export const MAX_IMAGE_BYTES = 10 * 1024 * 1024;
+
+export const acceptedImageTypes = ['image/png', 'image/jpeg', 'image/webp', 'image/gif', 'image/avif'];
+
+export type ImageInput = { kind: 'file'; file: File } | { kind: 'url'; url: string };
+
+export const validateImageFile = (file: File) => {
+  if (!acceptedImageTypes.includes(file.type)) {
+    return `${file.name || 'That file'} is not a PNG, JPG, WebP, GIF or AVIF image.`;
+  }
+  if (file.size > MAX_IMAGE_BYTES) {
+    return `${file.name || 'That image'} is ${formatFileSize(file.size)}; the limit is ${formatFileSize(MAX_IMAGE_BYTES)}.`;
+  }
+  return null;
+};
+
+export const hasImageInput = (data: DataTransfer) =>
+  data.types.includes('Files') || data.types.includes('text/uri-list');
+
+const findImageSource = (html: string) => {
+  const match = html.match(/<img[^>]+src=["']([^"']+)["']/i);
+  return match ? match[1].replace(/&amp;/g, '&') : null;
+};
+
+// Reads the first image from a drop or paste: a file wins over a URL, and an <img> wins over a page link.
+export const readImageInput = (data: DataTransfer): ImageInput | null => {
+  const file = Array.from(data.files).find((item) => item.type.startsWith('image/')) ?? data.files[0];
+  if (file) {
+    return { kind: 'file', file };
+  }
+
+  const candidates = [
+    findImageSource(data.getData('text/html')),
+    ...data
+      .getData('text/uri-list')
+      .split(/\r?\n/)
+      .filter((line) => line && !line.startsWith('#')),
+    data.getData('text/plain'),
+  ];
+  const url = candidates
+    .map((value) => value?.trim() ?? '')
+    .find((value) => isRemoteUrl(value) || value.startsWith('data:image/'));
+  return url ? { kind: 'url', url } : null;
+};
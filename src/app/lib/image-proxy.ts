@@ -0,0 +1,65 @@
+export type ImageProxyKind = 'weserv' | 'self-hosted' | 'none';
+
+export type ImageProxy = {
+  kind: ImageProxyKind;
+  endpoint: string;
+};
+
+// Served by the Vite dev middleware and by `npm run serve`; relative so it works under any base path.
+export const DEFAULT_PROXY_ENDPOINT = 'image-proxy';
+
+export const defaultImageProxy: ImageProxy = { kind: 'weserv', endpoint: DEFAULT_PROXY_ENDPOINT };
+
+export const imageProxyKinds: Record<ImageProxyKind, { label: string; description: string }> = {
+  weserv: {
+    label: 'images.weserv.nl',
+    description: 'Public proxy. Works on GitHub Pages, but it sees every image URL.',
+  },
+  'self-hosted': {
+    label: 'Self-hosted',
+    description: 'The bundled proxy (npm run dev or npm run serve) or your own endpoint.',
+  },
+  none: {
+    label: 'None',
+    description: 'Load images directly. Downloads fail unless the image host sends CORS headers.',
+  },
+};
+
+export const isImageProxyKind = (value: unknown): value is ImageProxyKind =>
+  typeof value === 'string' && Object.hasOwn(imageProxyKinds, value);
+
+const resolveEndpoint = (endpoint: string) => {
+  const trimmed = endpoint.trim() || DEFAULT_PROXY_ENDPOINT;
+  return typeof window === 'undefined' ? trimmed : new URL(trimmed, window.location.href).href;
+};
+
+// Endpoints may place the image with a {url} token; otherwise it is sent as the `url` query parameter.
+const buildSelfHostedUrl = (value: string, endpoint: string) => {
+  const base = resolveEndpoint(endpoint);
+  if (base.includes('{url}')) {
+    return base.replace('{url}', encodeURIComponent(value));
+  }
+  return `${base}${base.includes('?') ? '&' : '?'}url=${encodeURIComponent(value)}`;
+};
+
+export const buildProxyUrl = (value: string, proxy: ImageProxy) => {
+  switch (proxy.kind) {
+    case 'weserv':
+      return `https://images.weserv.nl/?url=${encodeURIComponent(value.replace(/^https?:\/\//i, ''))}`;
+    case 'self-hosted':
+      return buildSelfHostedUrl(value, proxy.endpoint);
+    case 'none':
+      return value;
+  }
+};
+
+export const isProxyUrl = (value: string, proxy: ImageProxy) => {
+  if (value.includes('images.weserv.nl/?url=') || value.includes('wsrv.nl/?url=')) {
+    return true;
+  }
+  if (proxy.kind !== 'self-hosted') {
+    return false;
+  }
+  const base = resolveEndpoint(proxy.endpoint).split('{url}')[0].split('?')[0];
+  return value.startsWith(base);
+};
@@ -0,0 +1,206 @@
+import { hexToRgb, type PaletteColor, type PaletteRole } from './theme';
+import type { TemplateField } from '../templates/types';
+
+// Size of a thumbnail in the YouTube home feed on desktop.
+export const FEED_WIDTH = 168;
+export const FEED_HEIGHT = 94;
+
+// WCAG AA for normal text; everything counts as small text at feed size.
+export const MIN_CONTRAST = 4.5;
+// Below this the text is hard to read even for good eyesight.
+export const MIN_FAIL_CONTRAST = 3;
+// Pixel height of the font at feed size below which glyphs blur together.
+export const MIN_FEED_FONT_SIZE = 6;
+
+type Rgba = [number, number, number, number];
+type Rgb = [number, number, number];
+
+export type LegibilityLevel = 'ok' | 'warn' | 'fail';
+
+export type PaletteFix = {
+  role: PaletteColor;
+  color: string;
+  contrast: number;
+  // How far the color moved towards white or black, from 0 to 1.
+  change: number;
+};
+
+export type TextCheck = {
+  // Matches the field key when the text comes from a field.
+  slot: string;
+  text: string;
+  foreground: string;
+  // The background that gives the lowest contrast, for gradients and translucent layers.
+  background: string;
+  foregroundRole: PaletteRole | null;
+  backgroundRole: PaletteRole | null;
+  contrast: number;
+  feedFontSize: number;
+  level: LegibilityLevel;
+  issues: string[];
+  // Smallest change first.
+  fixes: PaletteFix[];
+};
+
+// Text that is drawn by the template rather than typed into a field.
+export const textSlotLabels: Record<string, string> = {
+  badge: 'Alert badge',
+  trendLabel: 'Trend label',
+};
+
+export const textSlotLabel = (slot: string, fields: TemplateField[]) =>
+  fields.find((field) => field.key === slot)?.label ?? textSlotLabels[slot] ?? slot;
+
+const CSS_COLOR = /rgba?\(\s*([\d.]+)[,\s]+([\d.]+)[,\s]+([\d.]+)(?:\s*[,/]\s*([\d.]+%?))?\s*\)/g;
+
+const parseColors = (value: string): Rgba[] =>
+  Array.from(value.matchAll(CSS_COLOR)).map((match) => {
+    const alpha = match[4] === undefined ? 1 : match[4].endsWith('%') ? parseFloat(match[4]) / 100 : Number(match[4]);
+    return [Number(match[1]), Number(match[2]), Number(match[3]), alpha];
+  });
+
+const blend = ([r, g, b, a]: Rgba, [br, bg, bb]: Rgb): Rgb => [
+  r * a + br * (1 - a),
+  g * a + bg * (1 - a),
+  b * a + bb * (1 - a),
+];
+
+const toHex = (color: Rgb) =>
+  `#${color.map((channel) => Math.round(channel).toString(16).padStart(2, '0')).join('')}`;
+
+const luminance = (color: Rgb) => {
+  const [r, g, b] = color.map((channel) => {
+    const value = channel / 255;
+    return value <= 0.03928 ? value / 12.92 : ((value + 0.055) / 1.055) ** 2.4;
+  });
+  return 0.2126 * r + 0.7152 * g + 0.0722 * b;
+};
+
+const ratio = (a: Rgb, b: Rgb) => {
+  const [light, dark] = [luminance(a), luminance(b)].sort((x, y) => y - x);
+  return (light + 0.05) / (dark + 0.05);
+};
+
+export const contrastRatio = (a: string, b: string) => ratio(hexToRgb(a), hexToRgb(b));
+
+export const formatContrast = (value: number) => `${value.toFixed(1)}:1`;
+
+const mix = (color: Rgb, target: Rgb, amount: number): Rgb =>
+  color.map((channel, index) => channel + (target[index] - channel) * amount) as Rgb;
+
+// Moves `color` towards white or black, whichever needs the smaller change, until it reaches `target`
+// contrast against every background. Null when neither direction gets there.
+export const suggestContrastColor = (color: string, backgrounds: string[], target = MIN_CONTRAST) => {
+  const start = hexToRgb(color);
+  const backdrops = backgrounds.map(hexToRgb);
+  const worst = (candidate: Rgb) => Math.min(...backdrops.map((backdrop) => ratio(candidate, backdrop)));
+  const candidates = [
+    [255, 255, 255],
+    [0, 0, 0],
+  ].flatMap((end) => {
+    for (let step = 1; step <= 20; step += 1) {
+      const candidate = mix(start, end as Rgb, step / 20);
+      if (worst(candidate) >= target) {
+        return [{ color: toHex(candidate), contrast: worst(candidate), change: step / 20 }];
+      }
+    }
+    return [];
+  });
+  candidates.sort((a, b) => a.change - b.change);
+  return candidates[0] ?? null;
+};
+
+// Collects the background layers behind an element up to the first opaque one and composites them.
+// Gradients contribute each of their stop colors, so the result lists every color the text may sit on.
+const readBackgrounds = (element: HTMLElement, root: HTMLElement) => {
+  const layers: Rgba[][] = [];
+  let role: PaletteRole | null | undefined;
+  for (let node: HTMLElement | null = element; node; node = node === root ? null : node.parentElement) {
+    const style = getComputedStyle(node);
+    const gradient = style.backgroundImage.includes('gradient') ? parseColors(style.backgroundImage) : [];
+    const layer = gradient.length > 0 ? gradient : parseColors(style.backgroundColor).filter((color) => color[3] > 0);
+    if (layer.length === 0) {
+      continue;
+    }
+    layers.push(layer);
+    if (role === undefined) {
+      role = (node.dataset.paletteBg as PaletteRole | undefined) ?? null;
+    }
+    if (layer.every((color) => color[3] >= 1)) {
+      break;
+    }
+  }
+  const colors = layers
+    .reverse()
+    .reduce<Rgb[]>((below, layer) => layer.flatMap((color) => below.map((base) => blend(color, base))), [[0, 0, 0]]);
+  return { colors, role: role ?? null };
+};
+
+const findFixes = (
+  foreground: string,
+  foregroundRole: PaletteRole | null,
+  backgrounds: string[],
+  backgroundRole: PaletteRole | null
+): PaletteFix[] => {
+  const fixes: PaletteFix[] = [];
+  if (foregroundRole && foregroundRole !== 'background') {
+    const suggestion = suggestContrastColor(foreground, backgrounds);
+    if (suggestion) {
+      fixes.push({ role: foregroundRole, ...suggestion });
+    }
+  }
+  // Gradient stops are left to the theme editor; a flat background can be changed like the text.
+  if (backgroundRole && backgroundRole !== 'background' && backgroundRole !== foregroundRole) {
+    const suggestion = backgrounds.length === 1 ? suggestContrastColor(backgrounds[0], [foreground]) : null;
+    if (suggestion) {
+      fixes.push({ role: backgroundRole, ...suggestion });
+    }
+  }
+  return fixes.sort((a, b) => a.change - b.change);
+};
+
+// Checks every element a template marks with `data-text-slot` for contrast against what is painted
+// behind it and for its size at feed scale. `feedScale` is the feed width over the template's CSS width.
+export const analyzeLegibility = (root: HTMLElement, feedScale: number): TextCheck[] =>
+  Array.from(root.querySelectorAll<HTMLElement>('[data-text-slot]')).flatMap((element) => {
+    const text = element.textContent?.trim() ?? '';
+    const style = getComputedStyle(element);
+    const [color] = parseColors(style.color);
+    if (!text || !color) {
+      return [];
+    }
+    const { colors, role: backgroundRole } = readBackgrounds(element, root);
+    const backgrounds = Array.from(new Set(colors.map(toHex)));
+    const foreground = toHex(blend(color, colors[0]));
+    const contrasts = backgrounds.map((background) => contrastRatio(foreground, background));
+    const contrast = Math.min(...contrasts);
+    const background = backgrounds[contrasts.indexOf(contrast)];
+    const feedFontSize = parseFloat(style.fontSize) * feedScale;
+    const foregroundRole = (element.dataset.paletteFg as PaletteRole | undefined) ?? null;
+
+    const issues: string[] = [];
+    if (contrast < MIN_CONTRAST) {
+      issues.push(`Contrast is ${formatContrast(contrast)}; text needs at least ${formatContrast(MIN_CONTRAST)}.`);
+    }
+    if (feedFontSize < MIN_FEED_FONT_SIZE) {
+      issues.push(`Only ${feedFontSize.toFixed(1)} px tall at feed size (${FEED_WIDTH} x ${FEED_HEIGHT}).`);
+    }
+    const level: LegibilityLevel =
+      contrast < MIN_FAIL_CONTRAST ? 'fail' : issues.length > 0 ? 'warn' : 'ok';
+
+    return [
+      {
+        slot: element.dataset.textSlot ?? '',
+        text,
+        foreground,
+        background,
+        foregroundRole,
+        backgroundRole,
+        contrast,
+        feedFontSize,
+        level,
+        issues,
+        fixes: contrast < MIN_CONTRAST ? findFixes(foreground, foregroundRole, backgrounds, backgroundRole) : [],
+      },
+    ];
+  });
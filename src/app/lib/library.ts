@@ -0,0 +1,122 @@
+import type { ProjectDocument } from './project';
+
+const DB_NAME = 'pokemon-thumbnail-studio';
+const DB_VERSION = 1;
+const STORE = 'projects';
+
+export type LibraryEntry = {
+  id: string;
+  name: string;
+  templateId: string;
+  createdAt: number;
+  updatedAt: number;
+  preview: string | null;
+  document: ProjectDocument;
+};
+
+export type StorageUsage = {
+  used: number;
+  quota: number;
+};
+
+let databasePromise: Promise<IDBDatabase> | null = null;
+
+const requestToPromise = <T>(request: IDBRequest<T>) =>
+  new Promise<T>((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+const openDatabase = () => {
+  if (!databasePromise) {
+    databasePromise = new Promise<IDBDatabase>((resolve, reject) => {
+      if (typeof indexedDB === 'undefined') {
+        reject(new Error('IndexedDB is not available in this browser.'));
+        return;
+      }
+
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = () => {
+        const store = request.result.createObjectStore(STORE, { keyPath: 'id' });
+        store.createIndex('updatedAt', 'updatedAt');
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error);
+      request.onblocked = () => reject(new Error('The project library is open in another tab.'));
+    }).catch((error) => {
+      databasePromise = null;
+      throw error;
+    });
+  }
+  return databasePromise;
+};
+
+const withStore = async <T>(mode: IDBTransactionMode, run: (store: IDBObjectStore) => IDBRequest<T>) => {
+  const database = await openDatabase();
+  const transaction = database.transaction(STORE, mode);
+  const completed = new Promise<void>((resolve, reject) => {
+    transaction.oncomplete = () => resolve();
+    transaction.onerror = () => reject(transaction.error);
+    transaction.onabort = () => reject(transaction.error ?? new Error('Library transaction aborted.'));
+  });
+  const [result] = await Promise.all([requestToPromise(run(transaction.objectStore(STORE))), completed]);
+  return result;
+};
+
+export const isQuotaError = (error: unknown) =>
+  error instanceof DOMException &&
+  (error.name === 'QuotaExceededError' || error.name === 'NS_ERROR_DOM_QUOTA_REACHED');
+
+export const createEntryId = () =>
+  typeof crypto !== 'undefined' && 'randomUUID' in crypto
+    ? crypto.randomUUID()
+    : `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 10)}`;
+
+export const listEntries = async () => {
+  const entries = await withStore<LibraryEntry[]>('readonly', (store) => store.getAll());
+  return entries.sort((a, b) => b.updatedAt - a.updatedAt);
+};
+
+export const getEntry = (id: string) =>
+  withStore<LibraryEntry | undefined>('readonly', (store) => store.get(id));
+
+export const putEntry = async (entry: LibraryEntry) => {
+  await withStore('readwrite', (store) => store.put(entry));
+  return entry;
+};
+
+export const deleteEntry = async (id: string) => {
+  await withStore('readwrite', (store) => store.delete(id));
+};
+
+export const renameEntry = async (id: string, name: string) => {
+  const entry = await getEntry(id);
+  if (!entry) {
+    throw new Error('That project no longer exists.');
+  }
+  return putEntry({ ...entry, name, updatedAt: Date.now() });
+};
+
+export const duplicateEntry = async (id: string) => {
+  const entry = await getEntry(id);
+  if (!entry) {
+    throw new Error('That project no longer exists.');
+  }
+  const now = Date.now();
+  return putEntry({ ...entry, id: createEntryId(), name: `${entry.name} (copy)`, createdAt: now, updatedAt: now });
+};
+
+export const getStorageUsage = async (): Promise<StorageUsage | null> => {
+  if (typeof navigator === 'undefined' || !navigator.storage?.estimate) {
+    return null;
+  }
+  const { usage = 0, quota = 0 } = await navigator.storage.estimate();
+  return { used: usage, quota };
+};
+
+export const requestPersistentStorage = async () => {
+  if (typeof navigator === 'undefined' || !navigator.storage?.persist) {
+    return false;
+  }
+  return navigator.storage.persist();
+};
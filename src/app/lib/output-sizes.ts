@@ -0,0 +1,51 @@
+import type { ThumbnailLayout } from '../types';
+
+export type OutputSize = {
+  id: string;
+  name: string;
+  width: number;
+  height: number;
+};
+
+export const outputSizes: OutputSize[] = [
+  { id: 'youtube', name: 'YouTube thumbnail', width: 1280, height: 720 },
+  { id: 'shorts', name: 'YouTube Shorts', width: 1080, height: 1920 },
+  { id: 'community', name: 'YouTube community post', width: 1080, height: 1080 },
+  { id: 'instagram-square', name: 'Instagram square', width: 1080, height: 1080 },
+  { id: 'instagram-portrait', name: 'Instagram portrait', width: 1080, height: 1350 },
+  { id: 'x', name: 'X / Twitter', width: 1200, height: 675 },
+];
+
+export const defaultOutputSizeId = outputSizes[0].id;
+
+export const getOutputSize = (id: string) => outputSizes.find((size) => size.id === id) ?? outputSizes[0];
+
+export const getLayout = ({ width, height }: OutputSize): ThumbnailLayout =>
+  width / height >= 1.2 ? 'landscape' : 'stacked';
+
+// Templates are designed at a fixed width per layout; other widths are scaled from it.
+const designWidths: Record<ThumbnailLayout, number> = {
+  landscape: 1280,
+  stacked: 1080,
+};
+
+export const getDesignSize = (size: OutputSize) => {
+  const width = designWidths[getLayout(size)];
+  return { width, height: Math.round((width * size.height) / size.width) };
+};
+
+export const formatOutputSize = ({ width, height }: OutputSize) => `${width} x ${height}`;
+
+export const exportScales = [1, 2, 3];
+export const MIN_CUSTOM_WIDTH = 320;
+export const MAX_CUSTOM_WIDTH = 7680;
+
+// A custom width wins over the preset scale; the height always follows the size's aspect ratio.
+export const getPixelRatio = (size: OutputSize, scale: number, customWidth: number | null) =>
+  customWidth ? customWidth / size.width : scale;
+
+export const scaleOutputSize = (size: OutputSize, pixelRatio: number): OutputSize => ({
+  ...size,
+  width: Math.round(size.width * pixelRatio),
+  height: Math.round(size.height * pixelRatio),
+});
@@ -0,0 +1,79 @@
+import type { PricePoint, TrendDirection } from '../types';
+import { parseCurrency } from './currency';
+
+export type ChartDatum = {
+  time: number;
+  value: number;
+  label: string;
+};
+
+export type PricePairsResult = {
+  points: PricePoint[];
+  invalidLines: number[];
+};
+
+export const toChartData = (points: PricePoint[]): ChartDatum[] =>
+  points.map((point, index) => ({
+    time: index,
+    value: point.price,
+    label: point.date,
+  }));
+
+export const getChartDomain = (points: PricePoint[], paddingRatio = 0.12): [number, number] => {
+  if (points.length === 0) {
+    return [0, 100];
+  }
+
+  const values = points.map((point) => point.price);
+  const min = Math.min(...values);
+  const max = Math.max(...values);
+  const spread = max - min || Math.abs(max) || 1;
+  const padding = spread * paddingRatio;
+
+  return [Math.max(0, min - padding), max + padding];
+};
+
+export const detectTrend = (points: PricePoint[], fallback: TrendDirection = 'up'): TrendDirection => {
+  if (points.length < 2) {
+    return fallback;
+  }
+
+  const first = points[0].price;
+  const last = points[points.length - 1].price;
+  if (first === last) {
+    return fallback;
+  }
+
+  return last > first ? 'up' : 'down';
+};
+
+const isPriceOnly = (value: string) => /^[-+]?[$€£¥]?\s*[\d,]*\.?\d+\s*[kmb]?$/i.test(value);
+
+export const parsePricePairs = (text: string): PricePairsResult => {
+  const points: PricePoint[] = [];
+  const invalidLines: number[] = [];
+
+  text.split(/\r?\n/).forEach((line, index) => {
+    const trimmed = line.trim();
+    if (!trimmed) {
+      return;
+    }
+
+    const separatorIndex = isPriceOnly(trimmed) ? -1 : trimmed.search(/[,;\t]/);
+    const date =
+      separatorIndex > 0 ? trimmed.slice(0, separatorIndex).trim() : `Point ${points.length + 1}`;
+    const price = parseCurrency(separatorIndex > 0 ? trimmed.slice(separatorIndex + 1) : trimmed);
+
+    if (!Number.isFinite(price) || price < 0) {
+      invalidLines.push(index + 1);
+      return;
+    }
+
+    points.push({ date, price });
+  });
+
+  return { points, invalidLines };
+};
+
+export const formatPricePairs = (points: PricePoint[]) =>
+  points.map((point) => `${point.date}, ${point.price}`).join('\n');
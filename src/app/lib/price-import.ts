@@ -0,0 +1,250 @@
+import type { PricePoint } from '../types';
+import { parseCsv } from './csv';
+import {
+  computeChangePercent,
+  formatCurrency,
+  formatPercent,
+  parseCurrency,
+  parseMoney,
+  type DecimalSeparator,
+} from './currency';
+
+export type DateFormat = 'auto' | 'ymd' | 'mdy' | 'dmy';
+
+export type ImportTable = {
+  headers: string[];
+  rows: string[][];
+  firstRowNumber: number;
+};
+
+export type ColumnMapping = {
+  date: number;
+  price: number;
+  volume: number | null;
+};
+
+export type ImportOptions = {
+  mapping: ColumnMapping;
+  dateFormat: DateFormat;
+  decimalSeparator: DecimalSeparator;
+};
+
+export type SkippedRow = {
+  row: number;
+  reason: string;
+};
+
+export type ImportResult = {
+  points: PricePoint[];
+  skipped: SkippedRow[];
+  // Currency symbol written in the price column, if any.
+  symbol: string | null;
+};
+
+export type HeadlineValues = {
+  beforePrice: string;
+  price: string;
+  changePercent: string;
+};
+
+const isNumericCell = (value: string) => /^[-+]?[$€£¥]?\s*[\d.,]+\s*$/.test(value.trim());
+
+const cellToString = (value: unknown) => {
+  if (value === null || value === undefined) {
+    return '';
+  }
+  return typeof value === 'object' ? JSON.stringify(value) : String(value).trim();
+};
+
+const genericHeaders = (count: number) =>
+  Array.from({ length: count }, (_, index) => `Column ${index + 1}`);
+
+const tableFromMatrix = (matrix: string[][]): ImportTable => {
+  const width = Math.max(0, ...matrix.map((row) => row.length));
+  const [first = []] = matrix;
+  const hasHeader = first.length > 0 && !first.some(isNumericCell);
+
+  if (hasHeader) {
+    return {
+      headers: genericHeaders(width).map((fallback, index) => first[index] || fallback),
+      rows: matrix.slice(1),
+      firstRowNumber: 2,
+    };
+  }
+
+  return { headers: genericHeaders(width), rows: matrix, firstRowNumber: 1 };
+};
+
+const tableFromJson = (data: unknown): ImportTable => {
+  let records = data;
+  if (records && typeof records === 'object' && !Array.isArray(records)) {
+    records = Object.values(records).find(Array.isArray);
+  }
+
+  if (!Array.isArray(records) || records.length === 0) {
+    throw new Error('JSON must contain an array of price rows.');
+  }
+
+  if (records.every(Array.isArray)) {
+    return tableFromMatrix((records as unknown[][]).map((row) => row.map(cellToString)));
+  }
+
+  const headers: string[] = [];
+  records.forEach((record) => {
+    if (record && typeof record === 'object') {
+      Object.keys(record).forEach((key) => {
+        if (!headers.includes(key)) {
+          headers.push(key);
+        }
+      });
+    }
+  });
+
+  if (headers.length === 0) {
+    throw new Error('JSON rows must be objects or arrays.');
+  }
+
+  return {
+    headers,
+    rows: records.map((record) =>
+      headers.map((key) =>
+        record && typeof record === 'object' ? cellToString((record as Record<string, unknown>)[key]) : ''
+      )
+    ),
+    firstRowNumber: 1,
+  };
+};
+
+export const parseImportFile = (text: string, filename: string): ImportTable => {
+  const trimmed = text.trim();
+  if (!trimmed) {
+    throw new Error('The file is empty.');
+  }
+
+  if (/\.json$/i.test(filename) || trimmed.startsWith('[') || trimmed.startsWith('{')) {
+    try {
+      return tableFromJson(JSON.parse(trimmed));
+    } catch (error) {
+      if (error instanceof SyntaxError) {
+        throw new Error(`Invalid JSON: ${error.message}`);
+      }
+      throw error;
+    }
+  }
+
+  return tableFromMatrix(parseCsv(text));
+};
+
+export const guessColumnMapping = (headers: string[]): ColumnMapping => {
+  const find = (pattern: RegExp) => headers.findIndex((header) => pattern.test(header));
+  const date = find(/date|time|week|day|period/i);
+  const price = find(/price|close|value|amount|market|avg/i);
+  const volume = find(/vol|qty|quantity|sales|sold/i);
+
+  const resolvedDate = date >= 0 ? date : 0;
+  const resolvedPrice =
+    price >= 0 && price !== resolvedDate ? price : headers.findIndex((_, index) => index !== resolvedDate);
+
+  return {
+    date: resolvedDate,
+    price: Math.max(0, resolvedPrice),
+    volume: volume >= 0 && volume !== resolvedDate && volume !== resolvedPrice ? volume : null,
+  };
+};
+
+const toIsoDate = (year: number, month: number, day: number) => {
+  const fullYear = year < 100 ? 2000 + year : year;
+  const date = new Date(Date.UTC(fullYear, month - 1, day));
+  if (date.getUTCFullYear() !== fullYear || date.getUTCMonth() !== month - 1 || date.getUTCDate() !== day) {
+    return null;
+  }
+  return date.toISOString().slice(0, 10);
+};
+
+export const parseDateCell = (value: string, format: DateFormat): string | null => {
+  const trimmed = value.trim();
+  if (!trimmed) {
+    return null;
+  }
+
+  const ymd = trimmed.match(/^(\d{4})[-/.](\d{1,2})[-/.](\d{1,2})(?:[T\s].*)?$/);
+  if (ymd && (format === 'auto' || format === 'ymd')) {
+    return toIsoDate(Number(ymd[1]), Number(ymd[2]), Number(ymd[3]));
+  }
+
+  const short = trimmed.match(/^(\d{1,2})[-/.](\d{1,2})[-/.](\d{2}|\d{4})$/);
+  if (short && format !== 'ymd') {
+    const first = Number(short[1]);
+    const second = Number(short[2]);
+    const year = Number(short[3]);
+    const dayFirst = format === 'dmy' || (format === 'auto' && first > 12);
+    return dayFirst ? toIsoDate(year, second, first) : toIsoDate(year, first, second);
+  }
+
+  if (format === 'auto' && /[a-z]/i.test(trimmed)) {
+    const parsed = Date.parse(trimmed);
+    if (!Number.isNaN(parsed)) {
+      const date = new Date(parsed);
+      return toIsoDate(date.getFullYear(), date.getMonth() + 1, date.getDate());
+    }
+  }
+
+  return null;
+};
+
+export const mapImportRows = (table: ImportTable, options: ImportOptions): ImportResult => {
+  const { mapping, dateFormat, decimalSeparator } = options;
+  const byDate = new Map<string, PricePoint>();
+  const skipped: SkippedRow[] = [];
+
+  table.rows.forEach((row, index) => {
+    const rowNumber = table.firstRowNumber + index;
+    const rawDate = row[mapping.date] ?? '';
+    const rawPrice = row[mapping.price] ?? '';
+    const date = parseDateCell(rawDate, dateFormat);
+    const price = parseCurrency(rawPrice, decimalSeparator);
+
+    if (!date) {
+      skipped.push({ row: rowNumber, reason: `Unreadable date "${rawDate}"` });
+      return;
+    }
+    if (!Number.isFinite(price) || price < 0) {
+      skipped.push({ row: rowNumber, reason: `Unreadable price "${rawPrice}"` });
+      return;
+    }
+    if (byDate.has(date)) {
+      skipped.push({ row: rowNumber, reason: `Duplicate date ${date}` });
+      return;
+    }
+
+    const point: PricePoint = { date, price };
+    if (mapping.volume !== null) {
+      const volume = parseCurrency(row[mapping.volume] ?? '', decimalSeparator);
+      if (Number.isFinite(volume)) {
+        point.volume = volume;
+      }
+    }
+    byDate.set(date, point);
+  });
+
+  const points = Array.from(byDate.values()).sort((a, b) => a.date.localeCompare(b.date));
+  const symbol =
+    table.rows.map((row) => parseMoney(row[mapping.price] ?? '', decimalSeparator)?.symbol).find(Boolean) ?? null;
+  return { points, skipped, symbol };
+};
+
+export const deriveHeadlineValues = (points: PricePoint[], symbol = '$'): HeadlineValues | null => {
+  if (points.length < 2) {
+    return null;
+  }
+
+  const first = points[0].price;
+  const last = points[points.length - 1].price;
+  const change = computeChangePercent(first, last);
+
+  return {
+    beforePrice: formatCurrency(first, symbol),
+    price: formatCurrency(last, symbol),
+    changePercent: Number.isFinite(change) ? formatPercent(change) : '0',
+  };
+};
@@ -0,0 +1,84 @@
+import type { TrendDirection } from '../types';
+import { computeChangePercent, formatPercent, parseMoney, parsePercent, type Money } from './currency';
+
+export type PriceChange = {
+  before: Money | null;
+  after: Money | null;
+  changePercent: number | null;
+  trend: TrendDirection | null;
+};
+
+export type PriceMismatch = {
+  field: 'beforePrice' | 'price' | 'changePercent' | 'trend';
+  message: string;
+};
+
+export const analyzePriceChange = (beforeText: string, afterText: string): PriceChange => {
+  const before = parseMoney(beforeText);
+  const after = parseMoney(afterText);
+
+  if (!before || !after) {
+    return { before, after, changePercent: null, trend: null };
+  }
+
+  const change = computeChangePercent(before.amount, after.amount);
+  return {
+    before,
+    after,
+    changePercent: Number.isFinite(change) ? change : null,
+    trend: after.amount === before.amount ? null : after.amount > before.amount ? 'up' : 'down',
+  };
+};
+
+export const formatSignedPercent = (value: number) => `${value < 0 ? '-' : '+'}${formatPercent(value)}%`;
+
+const percentAgrees = (typed: number, computed: number) =>
+  Math.abs(Math.abs(typed) - Math.abs(computed)) <= Math.max(0.5, Math.abs(computed) * 0.005);
+
+export const findPriceMismatches = (
+  change: PriceChange,
+  values: { beforePrice: string; price: string; changePercent: string | null; trend: TrendDirection }
+): PriceMismatch[] => {
+  const mismatches: PriceMismatch[] = [];
+
+  if (values.beforePrice.trim() && !change.before) {
+    mismatches.push({ field: 'beforePrice', message: `Can't read a price from "${values.beforePrice}".` });
+  }
+  if (values.price.trim() && !change.after) {
+    mismatches.push({ field: 'price', message: `Can't read a price from "${values.price}".` });
+  }
+  if (
+    change.before?.symbol &&
+    change.after?.symbol &&
+    change.before.symbol !== change.after.symbol
+  ) {
+    mismatches.push({ field: 'price', message: 'Before and after prices use different currencies.' });
+  }
+
+  if (change.changePercent === null) {
+    return mismatches;
+  }
+
+  if (values.changePercent !== null) {
+    const typed = parsePercent(values.changePercent);
+    if (typed === null) {
+      mismatches.push({ field: 'changePercent', message: `"${values.changePercent}" is not a percentage.` });
+    } else if (!percentAgrees(typed, change.changePercent)) {
+      mismatches.push({
+        field: 'changePercent',
+        message: `Prices give ${formatSignedPercent(change.changePercent)}, not ${formatPercent(typed)}%.`,
+      });
+    }
+  }
+
+  if (change.trend && change.trend !== values.trend) {
+    mismatches.push({
+      field: 'trend',
+      message: `Prices moved ${change.trend === 'up' ? 'up' : 'down'} but the thumbnail shows a ${
+        values.trend === 'up' ? 'rise' : 'drop'
+      }.`,
+    });
+  }
+
+  return mismatches;
+};
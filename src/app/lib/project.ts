@@ -0,0 +1,303 @@
+import type { ExportFormat, ExportRenderer, ImageCrop, PricePoint, TrendDirection } from '../types';
+import { baseContent, defaultTemplateId, getTemplate, getTemplateDefaults } from '../templates/registry';
+import type { ThumbnailValues } from '../templates/types';
+import { DEFAULT_FILENAME_PATTERN } from './filename';
+import { DEFAULT_EXPORT_QUALITY, exportFormats, exportRenderers } from './export';
+import { defaultImageCrop, parseImageCrop } from './image-crop';
+import { defaultImageProxy, isImageProxyKind, type ImageProxy } from './image-proxy';
+import { parseTheme, type Theme } from './theme';
+import { defaultFeedDetails, parseFeedDetails, type FeedDetails } from './feed-preview';
+import { defaultOutputSizeId, exportScales, MAX_CUSTOM_WIDTH, MIN_CUSTOM_WIDTH, outputSizes } from './output-sizes';
+
+export const PROJECT_APP_ID = 'pokemon-thumbnail-studio';
+export const PROJECT_VERSION = 2;
+
+export type ExportSettings = {
+  format: ExportFormat;
+  proxy: ImageProxy;
+  filenamePattern: string;
+  quality: number;
+  fitToBudget: boolean;
+  sizeId: string;
+  scale: number;
+  customWidth: number | null;
+  renderer: ExportRenderer;
+};
+
+export type ProjectState = {
+  templateId: string;
+  trend: TrendDirection;
+  autoTrend: boolean;
+  manualChange: boolean;
+  values: ThumbnailValues;
+  imageCrop: ImageCrop;
+  priceHistory: PricePoint[];
+  exportSettings: ExportSettings;
+  // Null follows the template's built-in theme.
+  theme: Theme | null;
+  feed: FeedDetails;
+};
+
+export type ProjectImage = {
+  kind: 'embedded' | 'reference' | 'none';
+  src: string;
+  crop?: ImageCrop;
+};
+
+export type ProjectDocument = {
+  app: typeof PROJECT_APP_ID;
+  version: number;
+  savedAt: string;
+  template: string;
+  trend: {
+    direction: TrendDirection;
+    auto: boolean;
+  };
+  fields: Record<string, string>;
+  changePercentOverride: boolean;
+  image: ProjectImage;
+  priceHistory: PricePoint[];
+  export: ExportSettings;
+  theme: Theme | null;
+  feed: FeedDetails;
+};
+
+type UnknownDocument = Record<string, unknown>;
+
+export const defaultPriceHistory: PricePoint[] = [100, 118, 112, 180, 260, 410, 720, 1250].map(
+  (price, index) => ({
+    date: `Day ${index + 1}`,
+    price,
+  })
+);
+
+export const createDefaultProject = (): ProjectState => ({
+  templateId: defaultTemplateId,
+  trend: 'up',
+  autoTrend: true,
+  manualChange: false,
+  values: getTemplateDefaults(getTemplate(defaultTemplateId)),
+  imageCrop: defaultImageCrop,
+  priceHistory: defaultPriceHistory,
+  exportSettings: {
+    format: 'png',
+    proxy: defaultImageProxy,
+    filenamePattern: DEFAULT_FILENAME_PATTERN,
+    quality: DEFAULT_EXPORT_QUALITY,
+    fitToBudget: false,
+    sizeId: defaultOutputSizeId,
+    scale: 1,
+    customWidth: null,
+    renderer: 'auto',
+  },
+  theme: null,
+  feed: defaultFeedDetails,
+});
+
+const describeImage = (src: string): ProjectImage => {
+  const trimmed = src.trim();
+  if (!trimmed) {
+    return { kind: 'none', src: '' };
+  }
+  return { kind: trimmed.startsWith('data:') ? 'embedded' : 'reference', src: trimmed };
+};
+
+export const createProjectDocument = (project: ProjectState, savedAt = new Date()): ProjectDocument => {
+  const { cardImage, ...fields } = project.values;
+
+  return {
+    app: PROJECT_APP_ID,
+    version: PROJECT_VERSION,
+    savedAt: savedAt.toISOString(),
+    template: project.templateId,
+    trend: {
+      direction: project.trend,
+      auto: project.autoTrend,
+    },
+    fields,
+    changePercentOverride: project.manualChange,
+    image: { ...describeImage(cardImage), crop: project.imageCrop },
+    priceHistory: project.priceHistory,
+    export: project.exportSettings,
+    theme: project.theme,
+    feed: project.feed,
+  };
+};
+
+// Each entry upgrades a document from the keyed version to the next one.
+const migrations: Record<number, (document: UnknownDocument) => UnknownDocument> = {
+  // Version 0 is the flat editor state used before project files were versioned.
+  0: (document) => {
+    const fields: Record<string, string> = {};
+    Object.keys(baseContent).forEach((key) => {
+      if (key !== 'cardImage' && typeof document[key] === 'string') {
+        fields[key] = document[key] as string;
+      }
+    });
+
+    return {
+      app: PROJECT_APP_ID,
+      version: 1,
+      savedAt: new Date(0).toISOString(),
+      template: document.template,
+      trend: { direction: document.trend, auto: false },
+      fields,
+      changePercentOverride: typeof document.changePercent === 'string',
+      image: describeImage(typeof document.cardImage === 'string' ? document.cardImage : ''),
+      priceHistory: [],
+      export: {
+        format: document.exportFormat,
+        useProxy: document.useProxy,
+      },
+    };
+  },
+  // Version 2 replaced the weserv on/off switch with a proxy kind and endpoint, and added the output
+  // size, renderer, theme and feed details.
+  1: (document) => {
+    const { useProxy, ...exportSettings } = (document.export ?? {}) as UnknownDocument;
+    const defaults = createDefaultProject();
+    return {
+      ...document,
+      version: 2,
+      export: {
+        ...exportSettings,
+        proxy: useProxy === false ? { ...defaultImageProxy, kind: 'none' } : defaultImageProxy,
+        sizeId: defaults.exportSettings.sizeId,
+        scale: defaults.exportSettings.scale,
+        customWidth: defaults.exportSettings.customWidth,
+        renderer: defaults.exportSettings.renderer,
+      },
+      theme: defaults.theme,
+      feed: defaults.feed,
+    };
+  },
+};
+
+export const migrateProjectDocument = (input: unknown): UnknownDocument => {
+  if (!input || typeof input !== 'object' || Array.isArray(input)) {
+    throw new Error('Project file must contain a JSON object.');
+  }
+
+  let document = input as UnknownDocument;
+  if (document.app !== undefined && document.app !== PROJECT_APP_ID) {
+    throw new Error('This JSON file is not a thumbnail project.');
+  }
+
+  let version = typeof document.version === 'number' ? document.version : 0;
+  if (version > PROJECT_VERSION) {
+    throw new Error(`Project version ${version} is newer than this editor supports (${PROJECT_VERSION}).`);
+  }
+
+  while (version < PROJECT_VERSION) {
+    const migrate = migrations[version];
+    if (!migrate) {
+      throw new Error(`No migration from project version ${version}.`);
+    }
+    document = migrate(document);
+    version = typeof document.version === 'number' ? document.version : version + 1;
+  }
+
+  return document;
+};
+
+const isTrend = (value: unknown): value is TrendDirection => value === 'up' || value === 'down';
+
+const isExportFormat = (value: unknown): value is ExportFormat =>
+  typeof value === 'string' && Object.hasOwn(exportFormats, value);
+
+const isExportRenderer = (value: unknown): value is ExportRenderer =>
+  typeof value === 'string' && Object.hasOwn(exportRenderers, value);
+
+const isOutputSizeId = (value: unknown): value is string =>
+  typeof value === 'string' && outputSizes.some((size) => size.id === value);
+
+const toImageProxy = (value: unknown): ImageProxy => {
+  const proxy = (value ?? {}) as Record<string, unknown>;
+  return {
+    kind: isImageProxyKind(proxy.kind) ? proxy.kind : defaultImageProxy.kind,
+    endpoint: typeof proxy.endpoint === 'string' ? proxy.endpoint : defaultImageProxy.endpoint,
+  };
+};
+
+const isCustomWidth = (value: unknown): value is number =>
+  typeof value === 'number' && Number.isInteger(value) && value >= MIN_CUSTOM_WIDTH && value <= MAX_CUSTOM_WIDTH;
+
+const toPricePoints = (value: unknown): PricePoint[] =>
+  Array.isArray(value)
+    ? value.flatMap((point) => {
+        if (!point || typeof point !== 'object') {
+          return [];
+        }
+        const { date, price, volume } = point as Record<string, unknown>;
+        if (typeof price !== 'number' || !Number.isFinite(price)) {
+          return [];
+        }
+        const parsed: PricePoint = { date: typeof date === 'string' ? date : '', price };
+        if (typeof volume === 'number' && Number.isFinite(volume)) {
+          parsed.volume = volume;
+        }
+        return [parsed];
+      })
+    : [];
+
+export const projectFromDocument = (input: unknown): ProjectState => {
+  const document = migrateProjectDocument(input);
+  const defaults = createDefaultProject();
+  const template = getTemplate(typeof document.template === 'string' ? document.template : defaults.templateId);
+  const trend = (document.trend ?? {}) as Record<string, unknown>;
+  const image = (document.image ?? {}) as Record<string, unknown>;
+  const exportSettings = (document.export ?? {}) as Record<string, unknown>;
+
+  const values: ThumbnailValues = { ...getTemplateDefaults(template) };
+  Object.entries((document.fields ?? {}) as Record<string, unknown>).forEach(([key, value]) => {
+    if (typeof value === 'string') {
+      values[key] = value;
+    }
+  });
+  values.cardImage = typeof image.src === 'string' ? image.src : '';
+
+  return {
+    templateId: template.id,
+    trend: isTrend(trend.direction) ? trend.direction : defaults.trend,
+    autoTrend: typeof trend.auto === 'boolean' ? trend.auto : defaults.autoTrend,
+    manualChange: document.changePercentOverride === true,
+    values,
+    imageCrop: parseImageCrop(image.crop),
+    priceHistory: toPricePoints(document.priceHistory),
+    exportSettings: {
+      format: isExportFormat(exportSettings.format) ? exportSettings.format : 'png',
+      proxy: toImageProxy(exportSettings.proxy),
+      filenamePattern:
+        typeof exportSettings.filenamePattern === 'string' && exportSettings.filenamePattern.trim()
+          ? exportSettings.filenamePattern
+          : DEFAULT_FILENAME_PATTERN,
+      quality:
+        typeof exportSettings.quality === 'number' && Number.isFinite(exportSettings.quality)
+          ? Math.min(1, Math.max(0.1, exportSettings.quality))
+          : DEFAULT_EXPORT_QUALITY,
+      fitToBudget: exportSettings.fitToBudget === true,
+      sizeId: isOutputSizeId(exportSettings.sizeId) ? exportSettings.sizeId : defaultOutputSizeId,
+      scale:
+        typeof exportSettings.scale === 'number' && exportScales.includes(exportSettings.scale)
+          ? exportSettings.scale
+          : 1,
+      customWidth: isCustomWidth(exportSettings.customWidth) ? exportSettings.customWidth : null,
+      renderer: isExportRenderer(exportSettings.renderer) ? exportSettings.renderer : 'auto',
+    },
+    theme: parseTheme(document.theme),
+    feed: parseFeedDetails(document.feed),
+  };
+};
+
+export const parseProjectFile = (text: string): ProjectState => {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(text);
+  } catch (error) {
+    throw new Error(`Invalid project file: ${error instanceof Error ? error.message : 'not JSON'}`);
+  }
+  return projectFromDocument(parsed);
+};
+
+export const serializeProject = (project: ProjectState, savedAt?: Date) =>
+  JSON.stringify(createProjectDocument(project, savedAt), null, 2);
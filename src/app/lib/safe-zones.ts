@@ -0,0 +1,71 @@
+export type GuideId = 'duration' | 'progress' | 'shorts' | 'square' | 'thirds' | 'margins';
+
+export type ReservedZoneId = Extract<GuideId, 'duration' | 'progress'>;
+
+// Fractions of the frame, so zones hold at every preview scale and output size.
+export type ZoneRect = {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+};
+
+export type ZoneOverlap = {
+  slot: string;
+  zone: ReservedZoneId;
+};
+
+export const guides: Record<GuideId, { label: string; description: string }> = {
+  duration: { label: 'Duration badge', description: 'Covered by the video length in every feed.' },
+  progress: { label: 'Progress bar', description: 'Red bar along the bottom once a viewer has started the video.' },
+  shorts: { label: 'Shorts crop', description: 'The 9:16 center shown when the design is reused for Shorts.' },
+  square: { label: 'Square crop', description: 'The 1:1 center shown by square placements.' },
+  thirds: { label: 'Rule of thirds', description: 'Lines at a third of the width and height.' },
+  margins: { label: 'Margins', description: 'Keep text inside this inset; edges get cropped or rounded.' },
+};
+
+export const guideOrder: GuideId[] = ['duration', 'progress', 'shorts', 'square', 'thirds', 'margins'];
+
+// Sized for the sidebar, where the badge covers the most of the thumbnail.
+export const reservedZones: Record<ReservedZoneId, ZoneRect> = {
+  duration: { x: 0.76, y: 0.78, width: 0.24, height: 0.22 },
+  progress: { x: 0, y: 0.96, width: 1, height: 0.04 },
+};
+
+export const reservedZoneMessages: Record<ReservedZoneId, string> = {
+  duration: 'Sits under the duration badge in the feed.',
+  progress: 'Sits under the watch-progress bar.',
+};
+
+export const SAFE_MARGIN = 0.05;
+
+// Width of a centered crop with the given aspect ratio, as a fraction of the frame width.
+export const centerCropWidth = (frame: { width: number; height: number }, aspect: number) =>
+  Math.min(1, (frame.height * aspect) / frame.width);
+
+const intersects = (a: ZoneRect, b: ZoneRect) =>
+  a.x < b.x + b.width && b.x < a.x + a.width && a.y < b.y + b.height && b.y < a.y + a.height;
+
+// Measures the text a template marks with `data-text-slot` as laid out, including rotations and the
+// preview's scale, and lists the reserved zones each one reaches into.
+export const findZoneOverlaps = (root: HTMLElement): ZoneOverlap[] => {
+  const frame = root.getBoundingClientRect();
+  if (frame.width === 0 || frame.height === 0) {
+    return [];
+  }
+  return Array.from(root.querySelectorAll<HTMLElement>('[data-text-slot]')).flatMap((element) => {
+    if (!element.textContent?.trim()) {
+      return [];
+    }
+    const box = element.getBoundingClientRect();
+    const rect = {
+      x: (box.left - frame.left) / frame.width,
+      y: (box.top - frame.top) / frame.height,
+      width: box.width / frame.width,
+      height: box.height / frame.height,
+    };
+    return (Object.keys(reservedZones) as ReservedZoneId[])
+      .filter((zone) => intersects(rect, reservedZones[zone]))
+      .map((zone) => ({ slot: element.dataset.textSlot ?? '', zone }));
+  });
+};
@@ -0,0 +1,137 @@
+// The space a template gives one text slot, in design pixels.
+export type TextBox = {
+  width: number;
+  height: number;
+  minSize: number;
+  maxSize: number;
+  // Above one, the text wraps before it shrinks.
+  maxLines?: number;
+};
+
+export type TextFit = {
+  fontSize: number;
+  lines: string[];
+  // Still too big at the minimum size.
+  overflow: boolean;
+};
+
+// Width of a string at a font size of 1px.
+export type MeasureText = (text: string) => number;
+
+const REFERENCE_SIZE = 100;
+// Used where there is no canvas to measure with, such as server rendering.
+const FALLBACK_CHAR_WIDTH = 0.6;
+
+let context: CanvasRenderingContext2D | null | undefined;
+const measurements = new Map<string, number>();
+
+const getContext = () => {
+  if (context === undefined) {
+    context = typeof document === 'undefined' ? null : document.createElement('canvas').getContext('2d');
+  }
+  return context;
+};
+
+// Widths depend on the loaded faces, so measurements taken against a fallback font are dropped once
+// the real ones arrive.
+export const clearTextMeasurements = () => measurements.clear();
+
+// Resolves `var(--font-display)` and friends, which a canvas font string cannot use.
+export const resolveFontFamily = (family: string) => {
+  const variable = /^var\((--[\w-]+)\)$/.exec(family.trim());
+  if (!variable || typeof document === 'undefined') {
+    return family;
+  }
+  return getComputedStyle(document.documentElement).getPropertyValue(variable[1]).trim() || 'sans-serif';
+};
+
+// Letter spacing is in em, as the templates set it.
+export const createTextMeasure = (fontFamily: string, fontWeight: string, letterSpacing = 0): MeasureText => {
+  const font = `${fontWeight} ${REFERENCE_SIZE}px ${resolveFontFamily(fontFamily)}`;
+  return (text) => {
+    const key = `${font}|${text}`;
+    let width = measurements.get(key);
+    if (width === undefined) {
+      const ctx = getContext();
+      if (ctx) {
+        ctx.font = font;
+        width = ctx.measureText(text).width / REFERENCE_SIZE;
+      } else {
+        width = text.length * FALLBACK_CHAR_WIDTH;
+      }
+      measurements.set(key, width);
+    }
+    return width + text.length * letterSpacing;
+  };
+};
+
+// Greedy breaks at a line width given in em. Null when a word is wider than a line or more lines are needed.
+const breakWords = (widths: number[], space: number, limit: number, maxLines: number) => {
+  const lines: number[][] = [];
+  let current: number[] = [];
+  let currentWidth = 0;
+  for (let index = 0; index < widths.length; index += 1) {
+    if (widths[index] > limit) {
+      return null;
+    }
+    const next = current.length ? currentWidth + space + widths[index] : widths[index];
+    if (current.length && next > limit) {
+      lines.push(current);
+      current = [index];
+      currentWidth = widths[index];
+    } else {
+      current.push(index);
+      currentWidth = next;
+    }
+  }
+  lines.push(current);
+  return lines.length > maxLines ? null : lines;
+};
+
+// Narrows the line width as far as it goes without adding a line, so wrapped text splits evenly
+// instead of leaving one word on the last line.
+const balanceWords = (widths: number[], space: number, limit: number, lines: number[][]) => {
+  let low = Math.max(...widths);
+  let high = limit;
+  let best = lines;
+  for (let step = 0; step < 12 && high - low > 0.01; step += 1) {
+    const middle = (low + high) / 2;
+    const candidate = breakWords(widths, space, middle, lines.length);
+    if (candidate) {
+      best = candidate;
+      high = middle;
+    } else {
+      low = middle;
+    }
+  }
+  return best;
+};
+
+// Largest whole font size between the box's min and max at which the text fits, wrapping first when
+// the box allows more than one line. Lines are returned already broken so every renderer draws the
+// same ones the preview shows.
+export const fitText = (text: string, box: TextBox, lineHeight: number, measure: MeasureText): TextFit => {
+  const words = text.trim().split(/\s+/).filter(Boolean);
+  if (words.length === 0) {
+    return { fontSize: box.maxSize, lines: [], overflow: false };
+  }
+  const widths = words.map(measure);
+  const space = measure(' ');
+  const join = (lines: number[][]) => lines.map((line) => line.map((index) => words[index]).join(' '));
+
+  for (let size = box.maxSize; size >= box.minSize; size -= 1) {
+    const maxLines = Math.min(box.maxLines ?? 1, Math.floor(box.height / (size * lineHeight)));
+    const lines = maxLines > 0 ? breakWords(widths, space, box.width / size, maxLines) : null;
+    if (lines) {
+      const balanced = lines.length > 1 ? balanceWords(widths, space, box.width / size, lines) : lines;
+      return { fontSize: size, lines: join(balanced), overflow: false };
+    }
+  }
+
+  // Nothing fits: keep the minimum size and the line limit, and let the last line run long.
+  const maxLines = box.maxLines ?? 1;
+  const lines = breakWords(widths, space, box.width / box.minSize, Infinity) ?? widths.map((_, index) => [index]);
+  const kept = lines.slice(0, maxLines);
+  kept[kept.length - 1] = [...kept[kept.length - 1], ...lines.slice(maxLines).flat()];
+  return { fontSize: box.minSize, lines: join(kept), overflow: true };
+};
@@ -0,0 +1,298 @@
+import type { TrendDirection } from '../types';
+
+export const THEME_FILE_KIND = 'pokemon-thumbnail-theme';
+export const MIN_GLOW = 0;
+export const MAX_GLOW = 2;
+export const MAX_GRADIENT_STOPS = 5;
+
+export type GradientStop = {
+  color: string;
+  // Percent along the gradient line.
+  position: number;
+};
+
+export type BackgroundGradient = {
+  angle: number;
+  stops: GradientStop[];
+};
+
+export type TrendPalette = {
+  accent: string;
+  accentLight: string;
+  accentSoft: string;
+  text: string;
+  onAccent: string;
+  surface: string;
+  background: BackgroundGradient;
+};
+
+export type PaletteColor = Exclude<keyof TrendPalette, 'background'>;
+
+// What a template paints with a palette entry; templates mark text and backgrounds with it.
+export type PaletteRole = PaletteColor | 'background';
+
+export const paletteColorLabels: Record<PaletteColor, string> = {
+  accent: 'Accent',
+  accentLight: 'Accent highlight',
+  accentSoft: 'Accent shadow',
+  text: 'Text',
+  onAccent: 'Text on accent',
+  surface: 'Badge surface',
+};
+
+export type ChromeColors = {
+  page: string;
+  surface: string;
+  field: string;
+  tile: string;
+  border: string;
+  heading: string;
+  text: string;
+  warning: string;
+};
+
+export type Theme = {
+  id: string;
+  name: string;
+  // Multiplies the opacity of every glow and shadow tint.
+  glow: number;
+  trends: Record<TrendDirection, TrendPalette>;
+  chrome: ChromeColors;
+};
+
+export const defaultChrome: ChromeColors = {
+  page: '#070707',
+  surface: '#131312',
+  field: '#262524',
+  tile: '#1b1a19',
+  border: '#4c402b',
+  heading: '#eed093',
+  text: '#f9f9f9',
+  warning: '#ffb4a2',
+};
+
+export const builtinThemes: Theme[] = [
+  {
+    id: 'classic',
+    name: 'Gold Rush',
+    glow: 1,
+    trends: {
+      up: {
+        accent: '#aa781d',
+        accentLight: '#eed093',
+        accentSoft: '#4c402b',
+        text: '#f9f9f9',
+        onAccent: '#f9f9f9',
+        surface: '#131312',
+        background: {
+          angle: 145,
+          stops: [
+            { color: '#070707', position: 0 },
+            { color: '#131312', position: 50 },
+            { color: '#0a0a0a', position: 100 },
+          ],
+        },
+      },
+      down: {
+        accent: '#b42318',
+        accentLight: '#ffb4a2',
+        accentSoft: '#5f1b15',
+        text: '#f9f9f9',
+        onAccent: '#f9f9f9',
+        surface: '#131312',
+        background: {
+          angle: 145,
+          stops: [
+            { color: '#0b0505', position: 0 },
+            { color: '#170c0c', position: 50 },
+            { color: '#090505', position: 100 },
+          ],
+        },
+      },
+    },
+    chrome: defaultChrome,
+  },
+  {
+    id: 'neon',
+    name: 'Neon',
+    glow: 1,
+    trends: {
+      up: {
+        accent: '#39ff7a',
+        accentLight: '#18d85c',
+        accentSoft: '#0c3b1f',
+        text: '#f9f9f9',
+        onAccent: '#061008',
+        surface: '#111111',
+        background: {
+          angle: 135,
+          stops: [
+            { color: '#050807', position: 0 },
+            { color: '#0b1411', position: 45 },
+            { color: '#050807', position: 100 },
+          ],
+        },
+      },
+      down: {
+        accent: '#ff4b4b',
+        accentLight: '#ff2d2d',
+        accentSoft: '#521010',
+        text: '#f9f9f9',
+        onAccent: '#061008',
+        surface: '#111111',
+        background: {
+          angle: 135,
+          stops: [
+            { color: '#080505', position: 0 },
+            { color: '#160a0a', position: 45 },
+            { color: '#080505', position: 100 },
+          ],
+        },
+      },
+    },
+    chrome: defaultChrome,
+  },
+];
+
+export const defaultThemeId = builtinThemes[0].id;
+
+export const getBuiltinTheme = (id: string | undefined) =>
+  builtinThemes.find((theme) => theme.id === id) ?? builtinThemes[0];
+
+export const isBuiltinTheme = (id: string) => builtinThemes.some((theme) => theme.id === id);
+
+export const createThemeId = () => `theme-${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 6)}`;
+
+// Built-in themes stay as shipped; editing one starts from a copy.
+export const editableTheme = (theme: Theme): Theme =>
+  isBuiltinTheme(theme.id) ? { ...theme, id: createThemeId(), name: `${theme.name} (custom)` } : theme;
+
+export const setPaletteColor = (theme: Theme, trend: TrendDirection, role: PaletteColor, color: string): Theme => {
+  const base = editableTheme(theme);
+  return { ...base, trends: { ...base.trends, [trend]: { ...base.trends[trend], [role]: color } } };
+};
+
+const HEX_COLOR = /^#([0-9a-f]{3}|[0-9a-f]{6})$/i;
+
+export const isHexColor = (value: unknown): value is string => typeof value === 'string' && HEX_COLOR.test(value);
+
+const expandHex = (color: string) => {
+  const hex = color.slice(1);
+  return hex.length === 3
+    ? hex
+        .split('')
+        .map((digit) => digit + digit)
+        .join('')
+    : hex;
+};
+
+export const hexToRgb = (color: string) => {
+  const hex = expandHex(color);
+  return [0, 2, 4].map((offset) => parseInt(hex.slice(offset, offset + 2), 16)) as [number, number, number];
+};
+
+// Color inputs only take #rrggbb, so stored colors are kept in that form.
+export const normalizeHex = (color: string) => `#${expandHex(color).toLowerCase()}`;
+
+export const withAlpha = (color: string, alpha: number) => {
+  const [r, g, b] = hexToRgb(color);
+  return `rgba(${r}, ${g}, ${b}, ${Math.round(Math.min(1, Math.max(0, alpha)) * 100) / 100})`;
+};
+
+export const toCssGradient = ({ angle, stops }: BackgroundGradient) =>
+  `linear-gradient(${angle}deg, ${[...stops]
+    .sort((a, b) => a.position - b.position)
+    .map((stop) => `${stop.color} ${stop.position}%`)
+    .join(', ')})`;
+
+// Glow tint at the theme's strength; `base` is the opacity at strength 1.
+export const glowColor = (theme: Theme, color: string, base: number) => withAlpha(color, base * theme.glow);
+
+export const chromeVariables = (chrome: ChromeColors) => ({
+  '--color-bg': chrome.page,
+  '--color-surface': chrome.surface,
+  '--color-surface-2': chrome.field,
+  '--color-tile': chrome.tile,
+  '--color-border': chrome.border,
+  '--color-muted': chrome.heading,
+  '--color-text': chrome.text,
+  '--color-warning': chrome.warning,
+});
+
+const clamp = (value: number, min: number, max: number) => Math.min(max, Math.max(min, value));
+
+const parseGradient = (value: unknown, fallback: BackgroundGradient): BackgroundGradient => {
+  const gradient = (value ?? {}) as Record<string, unknown>;
+  const stops = Array.isArray(gradient.stops)
+    ? gradient.stops
+        .map((stop) => (stop ?? {}) as Record<string, unknown>)
+        .filter((stop) => isHexColor(stop.color) && typeof stop.position === 'number' && Number.isFinite(stop.position))
+        .slice(0, MAX_GRADIENT_STOPS)
+        .map((stop) => ({
+          color: normalizeHex(stop.color as string),
+          position: clamp(stop.position as number, 0, 100),
+        }))
+    : [];
+  return {
+    angle:
+      typeof gradient.angle === 'number' && Number.isFinite(gradient.angle)
+        ? ((Math.round(gradient.angle) % 360) + 360) % 360
+        : fallback.angle,
+    stops: stops.length >= 2 ? stops : fallback.stops,
+  };
+};
+
+const pickColors = <T extends Record<string, unknown>>(value: unknown, fallback: T): T => {
+  const source = (value ?? {}) as Record<string, unknown>;
+  const result = { ...fallback } as Record<string, unknown>;
+  Object.keys(fallback).forEach((key) => {
+    if (typeof fallback[key] === 'string' && isHexColor(source[key])) {
+      result[key] = normalizeHex(source[key]);
+    }
+  });
+  return result as T;
+};
+
+// Fills anything missing or invalid from the built-in theme so older or hand-edited files still load.
+export const parseTheme = (value: unknown): Theme | null => {
+  if (!value || typeof value !== 'object') {
+    return null;
+  }
+  const theme = value as Record<string, unknown>;
+  if (typeof theme.name !== 'string' || !theme.name.trim() || !theme.trends || typeof theme.trends !== 'object') {
+    return null;
+  }
+  const base = builtinThemes[0];
+  const trends = theme.trends as Record<string, unknown>;
+  const parsePalette = (trend: TrendDirection): TrendPalette => {
+    const palette = (trends[trend] ?? {}) as Record<string, unknown>;
+    return {
+      ...pickColors(palette, base.trends[trend]),
+      background: parseGradient(palette.background, base.trends[trend].background),
+    };
+  };
+  return {
+    id: typeof theme.id === 'string' && theme.id.trim() ? theme.id : createThemeId(),
+    name: theme.name.trim().slice(0, 60),
+    glow:
+      typeof theme.glow === 'number' && Number.isFinite(theme.glow) ? clamp(theme.glow, MIN_GLOW, MAX_GLOW) : 1,
+    trends: { up: parsePalette('up'), down: parsePalette('down') },
+    chrome: pickColors(theme.chrome, defaultChrome),
+  };
+};
+
+export const serializeTheme = (theme: Theme) => JSON.stringify({ kind: THEME_FILE_KIND, ...theme }, null, 2);
+
+export const parseThemeFile = (text: string): Theme => {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(text);
+  } catch (error) {
+    throw new Error('This file is not valid JSON.');
+  }
+  const theme = parseTheme(parsed);
+  if (!theme) {
+    throw new Error('This file is not a thumbnail theme.');
+  }
+  return theme;
+};
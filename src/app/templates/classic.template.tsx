@@ -0,0 +1,63 @@
+import { YoutubeThumbnail, type ChartCurve } from '../components/YoutubeThumbnail';
+import {
+  beforePriceField,
+  cardImageField,
+  changePercentField,
+  priceField,
+  subtitleField,
+  timeframeField,
+  titleField,
+} from './fields';
+import type { ThumbnailTemplate, ThumbnailTemplateProps } from './types';
+
+const toChartCurve = (value: string | undefined): ChartCurve =>
+  value === 'linear' || value === 'step' ? value : 'monotone';
+
+function ClassicTemplate({ values, trend, priceHistory, crop, layout, width, height, theme }: ThumbnailTemplateProps) {
+  return (
+    <YoutubeThumbnail
+      {...values}
+      trend={trend}
+      priceHistory={priceHistory}
+      cardCrop={crop}
+      layout={layout}
+      width={width}
+      height={height}
+      theme={theme}
+      chartCurve={toChartCurve(values.chartCurve)}
+    />
+  );
+}
+
+const classicTemplate: ThumbnailTemplate = {
+  id: 'classic',
+  name: 'Classic',
+  order: 10,
+  component: ClassicTemplate,
+  fields: [
+    cardImageField,
+    titleField,
+    subtitleField,
+    beforePriceField,
+    priceField,
+    changePercentField,
+    timeframeField,
+    {
+      key: 'chartCurve',
+      type: 'enum',
+      label: 'Chart Line',
+      options: [
+        { value: 'monotone', label: 'Smooth' },
+        { value: 'linear', label: 'Sharp' },
+        { value: 'step', label: 'Steps' },
+      ],
+    },
+  ],
+  defaults: {
+    chartCurve: 'monotone',
+  },
+  trends: ['up', 'down'],
+  defaultThemeId: 'classic',
+};
+
+export default classicTemplate;
@@ -0,0 +1,100 @@
+import { parseMoney, parsePercent } from '../lib/currency';
+import type { TemplateField, ThumbnailValues } from './types';
+
+export const cardImageField: TemplateField = {
+  key: 'cardImage',
+  type: 'image',
+  label: 'Pokemon Card Image',
+  required: true,
+};
+
+export const titleField: TemplateField = {
+  key: 'title',
+  type: 'text',
+  label: 'Main Title',
+  helpText: 'Keep it to 3-5 words.',
+  maxLength: 40,
+};
+
+export const subtitleField: TemplateField = {
+  key: 'subtitle',
+  type: 'text',
+  label: 'Subtitle',
+  maxLength: 40,
+};
+
+export const beforePriceField: TemplateField = {
+  key: 'beforePrice',
+  type: 'currency',
+  label: 'Before Price',
+  required: true,
+};
+
+export const priceField: TemplateField = {
+  key: 'price',
+  type: 'currency',
+  label: 'Price Tag',
+  required: true,
+};
+
+export const changePercentField: TemplateField = {
+  key: 'changePercent',
+  type: 'percent',
+  label: 'Change Percent',
+};
+
+export const timeframeField: TemplateField = {
+  key: 'timeframe',
+  type: 'text',
+  label: 'Timeframe Text',
+  maxLength: 24,
+};
+
+const hexColorPattern = /^#[0-9a-f]{6}$/i;
+
+export const validateField = (field: TemplateField, value: string, values: ThumbnailValues) => {
+  const trimmed = value.trim();
+
+  if (!trimmed) {
+    return field.required ? `${field.label} is required.` : undefined;
+  }
+
+  switch (field.type) {
+    case 'text':
+      if (field.maxLength && trimmed.length > field.maxLength) {
+        return `Keep it under ${field.maxLength} characters.`;
+      }
+      break;
+    case 'currency':
+      if (!parseMoney(trimmed)) {
+        return 'Enter a price like $1,250, €99.50 or 1.2k.';
+      }
+      break;
+    case 'percent':
+      if (parsePercent(trimmed) === null) {
+        return 'Enter a number like 375 or 12.5.';
+      }
+      break;
+    case 'color':
+      if (!hexColorPattern.test(trimmed)) {
+        return 'Use a hex color like #39ff7a.';
+      }
+      break;
+    case 'enum':
+      if (!field.options.some((option) => option.value === trimmed)) {
+        return 'Pick one of the listed options.';
+      }
+      break;
+    case 'range': {
+      const numeric = Number(trimmed);
+      if (!Number.isFinite(numeric) || numeric < field.min || numeric > field.max) {
+        return `Use a value between ${field.min} and ${field.max}.`;
+      }
+      break;
+    }
+    default:
+      break;
+  }
+
+  return field.validate?.(value, values);
+};
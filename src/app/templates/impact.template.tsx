@@ -0,0 +1,57 @@
+import { YoutubeThumbnailImpact } from '../components/YoutubeThumbnailImpact';
+import { beforePriceField, cardImageField, changePercentField, priceField } from './fields';
+import type { ThumbnailTemplate, ThumbnailTemplateProps } from './types';
+
+function ImpactTemplate({ values, trend, priceHistory, crop, layout, width, height, theme }: ThumbnailTemplateProps) {
+  const tilt = Number(values.cardTilt);
+  return (
+    <YoutubeThumbnailImpact
+      {...values}
+      trend={trend}
+      priceHistory={priceHistory}
+      cardCrop={crop}
+      layout={layout}
+      width={width}
+      height={height}
+      theme={theme}
+      cardTilt={Number.isFinite(tilt) ? tilt : undefined}
+      cardBorderColor={values.cardBorderColor || undefined}
+    />
+  );
+}
+
+const impactTemplate: ThumbnailTemplate = {
+  id: 'impact',
+  name: 'CTR Boost',
+  order: 20,
+  component: ImpactTemplate,
+  fields: [
+    cardImageField,
+    beforePriceField,
+    priceField,
+    changePercentField,
+    {
+      key: 'cardTilt',
+      type: 'range',
+      label: 'Card Tilt',
+      helpText: 'Negative values lean the card to the left.',
+      min: -15,
+      max: 15,
+      step: 1,
+      unit: '°',
+    },
+    {
+      key: 'cardBorderColor',
+      type: 'color',
+      label: 'Card Frame Color',
+    },
+  ],
+  defaults: {
+    cardTilt: '-6',
+    cardBorderColor: '#ffffff',
+  },
+  trends: ['up', 'down'],
+  defaultThemeId: 'neon',
+};
+
+export default impactTemplate;
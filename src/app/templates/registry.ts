@@ -0,0 +1,42 @@
+import type { ThumbnailContent, ThumbnailTemplate, ThumbnailValues } from './types';
+
+const modules = import.meta.glob<{ default: ThumbnailTemplate }>('./*.template.tsx', { eager: true });
+
+export const templates: ThumbnailTemplate[] = Object.values(modules)
+  .map((module) => module.default)
+  .sort((a, b) => a.order - b.order);
+
+export const defaultTemplateId = templates[0]?.id ?? 'classic';
+
+export const baseContent: ThumbnailContent = {
+  cardImage: 'https://images.unsplash.com/photo-1606502281004-f86cf1282af5?w=400&h=600&fit=crop',
+  title: 'WEEKLY PRICE SHOCK',
+  subtitle: 'POKEMON CARD WATCH',
+  price: '$1,250',
+  beforePrice: '$100',
+  changePercent: '1,150',
+  timeframe: 'IN 7 DAYS',
+};
+
+export const getTemplate = (id: string) => templates.find((template) => template.id === id) ?? templates[0];
+
+export const getTemplateDefaults = (template: ThumbnailTemplate): ThumbnailValues => {
+  const defaults: ThumbnailValues = { ...baseContent };
+  Object.entries(template.defaults).forEach(([key, value]) => {
+    if (value !== undefined) {
+      defaults[key] = value;
+    }
+  });
+  return defaults;
+};
+
+export const fillMissingContent = (content: ThumbnailValues, template: ThumbnailTemplate): ThumbnailValues => {
+  const defaults = getTemplateDefaults(template);
+  const filled = { ...content };
+  template.fields.forEach(({ key }) => {
+    if (!(filled[key] ?? '').trim() && defaults[key] !== undefined) {
+      filled[key] = defaults[key];
+    }
+  });
+  return filled;
+};
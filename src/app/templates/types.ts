@@ -0,0 +1,92 @@
+import type React from 'react';
+import type { ImageCrop, PricePoint, ThumbnailLayout, TrendDirection } from '../types';
+import type { Theme } from '../lib/theme';
+
+export type ThumbnailContent = {
+  cardImage: string;
+  title: string;
+  subtitle: string;
+  price: string;
+  beforePrice: string;
+  changePercent: string;
+  timeframe: string;
+};
+
+export type ThumbnailValues = ThumbnailContent & Record<string, string>;
+
+export type FieldType = 'text' | 'currency' | 'percent' | 'image' | 'color' | 'enum' | 'range';
+
+type BaseField = {
+  key: string;
+  label: string;
+  helpText?: string;
+  required?: boolean;
+  validate?: (value: string, values: ThumbnailValues) => string | undefined;
+};
+
+export type TextField = BaseField & {
+  type: 'text';
+  maxLength?: number;
+  placeholder?: string;
+};
+
+export type CurrencyField = BaseField & {
+  type: 'currency';
+};
+
+export type PercentField = BaseField & {
+  type: 'percent';
+};
+
+export type ImageField = BaseField & {
+  type: 'image';
+};
+
+export type ColorField = BaseField & {
+  type: 'color';
+};
+
+export type EnumField = BaseField & {
+  type: 'enum';
+  options: { value: string; label: string }[];
+};
+
+export type RangeField = BaseField & {
+  type: 'range';
+  min: number;
+  max: number;
+  step?: number;
+  unit?: string;
+};
+
+export type TemplateField =
+  | TextField
+  | CurrencyField
+  | PercentField
+  | ImageField
+  | ColorField
+  | EnumField
+  | RangeField;
+
+export type ThumbnailTemplateProps = {
+  values: ThumbnailValues;
+  trend: TrendDirection;
+  priceHistory: PricePoint[];
+  crop: ImageCrop;
+  layout: ThumbnailLayout;
+  width: number;
+  height: number;
+  theme: Theme;
+};
+
+export type ThumbnailTemplate = {
+  id: string;
+  name: string;
+  order: number;
+  component: React.ComponentType<ThumbnailTemplateProps>;
+  fields: TemplateField[];
+  defaults: Partial<ThumbnailValues>;
+  trends: TrendDirection[];
+  // Built-in theme used until the project picks its own.
+  defaultThemeId: string;
+};
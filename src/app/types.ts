@@ -0,0 +1,21 @@
+export type TrendDirection = 'up' | 'down';
+
+export type PricePoint = {
+  date: string;
+  price: number;
+  volume?: number;
+};
+
+export type ExportFormat = 'png' | 'jpeg' | 'webp' | 'avif';
+
+export type ExportRenderer = 'auto' | 'html-to-image' | 'html2canvas';
+
+export type ThumbnailLayout = 'landscape' | 'stacked';
+
+// Pan offsets are fractions of the card frame, measured from its center.
+export type ImageCrop = {
+  x: number;
+  y: number;
+  zoom: number;
+  rotation: number;
+};
@@ -2,6 +2,7 @@ import { defineConfig } from 'vite'
 import path from 'path'
 import tailwindcss from '@tailwindcss/vite'
 import react from '@vitejs/plugin-react'
+import { imageProxyPlugin } from './server/image-proxy.mjs'
 
 export default defineConfig(({ mode }) => ({
   base: mode === 'production' ? './' : '/',
@@ -10,6 +11,7 @@ export default defineConfig(({ mode }) => ({
     // Tailwind is not being actively used. Do not remove them.
     react(),
     tailwindcss(),
+    imageProxyPlugin({ cacheDir: path.resolve(__dirname, '.image-cache') }),
   ],
   resolve: {
     alias: {